@@ -0,0 +1,150 @@
+// Airline baggage allowances.
+// Cabin and checked-bag limits per airline live in shared/data/airline-baggage.json (cheapest economy
+// fare, keyed by IATA code); this module checks a carry-on-only or minimal packing plan against them:
+// does the bag fit the piece it travels as, and does the packed load fit the weight and size limits.
+import { z } from "zod";
+import baggageFile from "./data/airline-baggage.json" with { type: "json" };
+import { BAGS, type BagSize, type LoadEstimate } from "./luggage.js";
+import type { PackingConstraint } from "./checklist.js";
+
+const dims = z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]);
+
+const airlineSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)),
+  budget: z.boolean().optional(),
+  personal_item: z.object({ cm: dims.nullable(), kg: z.number().positive().nullable() }).strict(), // cm null: "fits under the seat"
+  cabin_bag: z.object({ cm: dims, kg: z.number().positive().nullable(), included: z.boolean() }).strict(),
+  cabin_total_kg: z.number().positive().optional(), // One weight limit for both cabin pieces together
+  checked: z.object({ kg: z.number().positive(), linear_cm: z.number().positive().optional(), included: z.boolean() }).strict(),
+  // Pets: the cabin carrier limits (null: no pets in the cabin; kg includes the carrier) and whether they fly in the hold
+  pets: z.object({
+    cabin: z.object({ cm: dims, kg: z.number().positive().nullable() }).strict().nullable(),
+    hold: z.boolean(),
+  }).strict().optional(),
+  note: z.string().optional(),
+}).strict();
+
+const baggageFileSchema = z.object({
+  version: z.literal(1),
+  airlines: z.record(z.string().regex(/^[A-Z0-9]{2}$/), airlineSchema),
+}).strict();
+
+export type AirlineAllowance = z.infer<typeof airlineSchema>;
+
+const loadAirlines = (raw: unknown) => {
+  const parsed = baggageFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/airline-baggage.json: ${issues.join("; ")}`);
+  }
+  return parsed.data.airlines;
+};
+
+export const AIRLINES = loadAirlines(baggageFile);
+
+const normalize = (s: string) => s.toLowerCase().replace(/\b(?:airlines?|air lines|airways)\b/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+
+// IATA code, name or alias ("FR", "Ryanair", "easy jet", "Delta Air Lines") to a code; undefined if unknown
+export const resolveAirline = (input: string | undefined): string | undefined => {
+  const raw = (input || "").trim();
+  if (!raw) return undefined;
+  if (AIRLINES[raw.toUpperCase()]) return raw.toUpperCase();
+  const key = normalize(raw);
+  return Object.keys(AIRLINES).find(code => [AIRLINES[code].name, ...AIRLINES[code].aliases].some(n => normalize(n) === key));
+};
+
+// ============ CHECK ============
+export interface AllowancePiece {
+  kind: "personal_item" | "cabin_bag";
+  cm: [number, number, number] | null;
+  kg: number | null;
+  included: boolean;
+}
+
+export interface AllowanceCheck {
+  airline: { code: string; name: string };
+  constraint: "carry_on_only" | "minimal";
+  pieces: AllowancePiece[]; // What the plan brings on board, per traveler
+  bagAs: AllowancePiece["kind"];
+  bagFits: boolean;         // The chosen bag's dimensions fit the piece it travels as
+  limitKg: number | null;   // For all bags; null when the airline sets no cabin weight limit
+  limitL: number;           // Packed volume of the pieces, for all bags
+  weightOk: boolean;
+  volumeOk: boolean;
+  ok: boolean;
+  fees: string[];
+  issues: string[];
+  note?: string;
+  summary: string;
+}
+
+const PIECE_LABELS: Record<AllowancePiece["kind"], string> = { personal_item: "personal item", cabin_bag: "cabin bag" };
+
+const formatCm = (cm: number[]) => `${cm.join("×")} cm`;
+const litersOf = (cm: number[] | null) => (cm ? (cm[0] * cm[1] * cm[2]) / 1000 : 0);
+const sortedDesc = (cm: number[]) => [...cm].sort((a, b) => b - a);
+// Compared side by side, largest to largest, since a bag can go in either way round
+const fitsWithin = (bag: number[], limit: number[]) => {
+  const b = sortedDesc(bag), l = sortedDesc(limit);
+  return b.every((side, i) => side <= l[i]);
+};
+
+// Check a packed load (one or more travelers' bags, see estimateLoad) against an airline's cabin allowance.
+// Only carry-on-only and minimal plans are checked; null for checked bags or an airline without data.
+export const checkBaggageAllowance = (
+  airlineCode: string | undefined,
+  constraint: PackingConstraint,
+  bag: BagSize,
+  load: Pick<LoadEstimate, "weightKg" | "volumeL" | "bags">
+): AllowanceCheck | null => {
+  const airline = airlineCode ? AIRLINES[airlineCode] : undefined;
+  if (!airline || !airlineCode || constraint === "checked_bags") return null;
+
+  const personal: AllowancePiece = { kind: "personal_item", cm: airline.personal_item.cm, kg: airline.personal_item.kg, included: true };
+  const cabin: AllowancePiece = { kind: "cabin_bag", ...airline.cabin_bag };
+  // Minimal means the free under-seat item only; carry-on only adds the cabin bag
+  const pieces = constraint === "minimal" ? [personal] : [personal, cabin];
+  const bagAs: AllowancePiece["kind"] = constraint === "minimal" || bag === "personal_item" ? "personal_item" : "cabin_bag";
+  const bagPiece = bagAs === "personal_item" ? personal : cabin;
+
+  // A piece without a weight limit can take the rest of the load, so the plan is only limited when all are
+  const perTravelerKg = airline.cabin_total_kg
+    ?? (pieces.some(p => p.kg === null) ? null : pieces.reduce((sum, p) => sum + (p.kg || 0), 0));
+  const limitKg = perTravelerKg === null ? null : perTravelerKg * load.bags;
+  const limitL = Math.round(pieces.reduce((sum, p) => sum + litersOf(p.cm), 0) * load.bags * 10) / 10;
+
+  const name = airline.name;
+  const bagFits = !bagPiece.cm || fitsWithin(BAGS[bag].cm, bagPiece.cm);
+  const weightOk = limitKg === null || load.weightKg <= limitKg;
+  // Pieces without a published size ("small bag under the seat") don't add to the volume limit
+  const volumeOk = limitL === 0 || load.volumeL <= limitL;
+
+  const fees = pieces.filter(p => !p.included).map(p => `${name} charges for a ${PIECE_LABELS[p.kind]} on its cheapest fares.`);
+  const issues: string[] = [];
+  if (!bagFits) issues.push(`A typical ${BAGS[bag].label.toLowerCase()} (${formatCm(BAGS[bag].cm)}) is bigger than ${name}'s ${PIECE_LABELS[bagAs]} limit (${formatCm(bagPiece.cm!)}).`);
+  if (!weightOk) issues.push(`${load.weightKg} kg is over ${name}'s ${limitKg} kg cabin limit${load.bags > 1 ? ` for ${load.bags} travelers` : ""}.`);
+  if (!volumeOk) issues.push(`About ${load.volumeL} L of packing won't fit in the ${limitL} L the allowance holds.`);
+
+  const allowance = constraint === "minimal" ? `${name}'s personal item` : `${name}'s cabin allowance`;
+  const summary = issues.length === 0
+    ? `Fits ${allowance}${fees.length ? ", but the cabin bag costs extra" : ""}.`
+    : `Doesn't fit ${allowance}: ${issues.join(" ")}`;
+
+  return {
+    airline: { code: airlineCode, name },
+    constraint,
+    pieces,
+    bagAs,
+    bagFits,
+    limitKg,
+    limitL,
+    weightOk,
+    volumeOk,
+    ok: issues.length === 0,
+    fees,
+    issues,
+    ...(airline.note ? { note: airline.note } : {}),
+    summary,
+  };
+};
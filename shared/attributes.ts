@@ -0,0 +1,21 @@
+// Opt-in traveler attributes. Rules, notes and presets match on these ("attributes": "shaves").
+// Each traveler picks their own; none are assumed from who they are.
+
+export const TRAVELER_ATTRIBUTES = [
+  "menstruates", "birthControl", "wearsBras", "wearsDresses", "wearsMakeup", "usesHairTools", "shaves", "nonbinary",
+] as const;
+export type TravelerAttribute = typeof TRAVELER_ATTRIBUTES[number];
+
+export const ATTRIBUTE_LABELS: Record<TravelerAttribute, string> = {
+  menstruates: "Needs period products",
+  birthControl: "Uses birth control",
+  wearsBras: "Wears bras",
+  wearsDresses: "Wears dresses, skirts & blouses",
+  wearsMakeup: "Wears makeup",
+  usesHairTools: "Uses hair tools",
+  shaves: "Shaves",
+  nonbinary: "Nonbinary",
+};
+
+export const isTravelerAttribute = (value: unknown): value is TravelerAttribute =>
+  TRAVELER_ATTRIBUTES.includes(value as TravelerAttribute);
@@ -0,0 +1,1067 @@
+// Shared checklist rules engine.
+// Imported by both the MCP server (src/server.ts) and the widget (web/src/TravelChecklist.tsx)
+// so the tool result and the UI always agree on what goes in the list.
+// The item rules themselves are data: see shared/data/checklist-rules.json.
+import rulesFile from "./data/checklist-rules.json" with { type: "json" };
+import { evaluateRules, loadChecklistRules, type RuleFacts } from "./rules.js";
+import { classifyDestination, lookupDestination, monthOf } from "./gazetteer.js";
+import { COUNTRIES, checkEntryRequirements, destinationCountryOf, entryChecklistItems, type EntryCheck } from "./entry-requirements.js";
+import { SINGLE_VOLTAGE_DEVICE_IDS, comparePower, powerChecklistItems, voltageWarning, type PowerAdvice } from "./power.js";
+import { DEFAULT_LAUNDRY, planLaundry, type LaundryFrequency, type LaundryPlan } from "./laundry.js";
+import { defaultBagFor, type BagSize } from "./luggage.js";
+import type { PackingBag } from "./packing-plan.js";
+import { planOutfits, type DailyWeather } from "./outfits.js";
+import { isValidIsoDate, todayIn } from "./dates.js";
+import type { TravelerAttribute } from "./attributes.js";
+import { personalProfileItems, type PersonalProfile } from "./personal-profiles.js";
+import { detectMedicalNeeds, medicalNeedItems, medicalNeedTasks, type MedicalNeed } from "./medical.js";
+import { medicationItems, planMedication, type Medication, type MedicationPlan, type MedicationTrip } from "./medications.js";
+import { checkPetEntry, defaultPetDetails, petEntryItems, petFlightAdvice, type Pet, type PetDetails, type PetSpecies } from "./pets.js";
+
+export type Season = "summer" | "winter" | "spring" | "tropical" | "variable";
+export type TripPurpose = "leisure" | "business" | "adventure" | "beach" | "city";
+export type TravelerType = "adult" | "child" | "infant" | "senior" | "pet";
+export type PackingConstraint = "carry_on_only" | "checked_bags" | "minimal";
+
+// One person or pet on the trip. The id stays with them as others are added or removed, so everything
+// keyed by it (travelerDetails, travelerNationalities, pets, personalProfiles) follows the right traveler.
+export interface TravelerInfo {
+  id: string;            // "adult-1", "child-2", "pet-1"
+  type: TravelerType;
+  species?: PetSpecies;  // Pets only
+}
+
+// One stop of a multi-destination trip ("3 days Reykjavik then 5 days Lisbon")
+export interface TripLeg {
+  destination: string;
+  startDate?: string;
+  endDate?: string;
+  days?: number;
+  climate: Season;
+  purpose?: TripPurpose; // Defaults to the trip's purpose
+}
+
+export interface TripProfile {
+  destination: string;
+  isInternational: boolean;
+  climate: Season;
+  tripDuration: number;
+  startDate: string;
+  endDate: string;
+  travelers: TravelerInfo[];
+  purpose: TripPurpose;
+  packingConstraint: PackingConstraint;
+  activities: string[];
+  personalNotes: string;
+  presets: string[];
+  nationality?: string;                          // ISO country code of the group's passports
+  travelerNationalities?: Record<string, string>; // Per-traveler override, keyed by individual traveler id
+  travelerDetails?: Record<string, TravelerDetails>; // Names and ages, keyed by individual traveler id
+  pets?: Record<string, PetDetails>;             // Size and travel mode, keyed by individual pet id
+  personalProfiles?: Record<string, PersonalProfile>; // Attached saved profiles, keyed by individual traveler id
+  homeCountry?: string;                          // ISO country code the trip starts from (plugs/voltage)
+  homeTimeZone?: string;                         // IANA zone the trip starts from (medication schedule)
+  medicationBufferDays?: number;                 // Spare days of medication on top of the trip
+  legs?: TripLeg[];                              // Two or more stops; destination/climate above describe the first
+  laundry?: LaundryFrequency;                    // Defaults to weekly
+  laundryEveryDays?: number;                     // For "every_n_days"
+  bag?: BagSize;                                 // Bag each traveler packs into; defaults from packingConstraint
+  airline?: string;                              // IATA code with baggage data in shared/data/airline-baggage.json
+  bags?: PackingBag[];                           // The bags items are assigned to; defaults from packingConstraint
+  forecast?: DailyWeather[];                     // Daily forecast for the trip dates, when they're within range
+  listFor?: TravelerType;                        // Set on one traveler's own profile (getIndividualProfile)
+}
+
+export interface ChecklistItem {
+  id: string;
+  name: string;
+  category: string;
+  quantity?: string;
+  essential: boolean;
+  reason?: string;
+  dueDate?: string; // ISO date for time-sensitive pre-departure tasks
+  checked: boolean;
+  attribute?: TravelerAttribute; // Only for lists with someone who has this attribute
+  bag?: string;               // PackingBag id the item is packed in; unset until the user moves it
+}
+
+export const DEFAULT_PROFILE: TripProfile = {
+  destination: "", isInternational: false, climate: "summer", tripDuration: 5,
+  startDate: "", endDate: "",
+  travelers: [{ id: "adult-1", type: "adult" }],
+  purpose: "leisure", packingConstraint: "checked_bags", activities: [],
+  personalNotes: "", presets: []
+};
+
+export const getLaundryPlan = (profile: Pick<TripProfile, "tripDuration" | "laundry" | "laundryEveryDays">): LaundryPlan =>
+  planLaundry(profile.tripDuration, profile.laundry || DEFAULT_LAUNDRY, profile.laundryEveryDays);
+
+export const getBag = (profile: Pick<TripProfile, "bag" | "packingConstraint">): BagSize =>
+  profile.bag || defaultBagFor(profile.packingConstraint);
+
+// Categories whose quantities are worn pieces and so follow the wash cycle
+const WORN_CATEGORIES = ["clothing", "workout"];
+
+// Scale a worn item's quantity to the days of clothing packed
+// baseQty is designed for a week of daily wear; with laundry only one wash cycle is packed
+export const scaleQuantityForDuration = (baseQty: string | undefined, tripDuration: number, laundry?: LaundryPlan): string | undefined => {
+  if (!baseQty) return undefined;
+  
+  // Extract number from quantity string (e.g., "6", "6 pairs", "3")
+  const match = baseQty.match(/^(\d+)/);
+  if (!match) return baseQty;
+  
+  const baseNum = parseInt(match[1], 10);
+  const suffix = baseQty.slice(match[1].length); // e.g., " pairs", ""
+  
+  // For a gym rat working out daily, they need ~one set per day until the next wash
+  const wearDays = (laundry ?? planLaundry(tripDuration)).wearDays;
+  const scaled = Math.round(baseNum * wearDays / 7);
+  
+  // At least 2, so one can dry while the other is worn
+  return `${Math.max(2, scaled)}${suffix}`;
+};
+
+export const isWornItem = (item: { category: string }) => WORN_CATEGORIES.includes(item.category);
+
+// Traveler presets with their associated items
+// attribute: only for someone with that attribute (shared/attributes.ts), undefined = everyone
+export const TRAVELER_PRESETS: Record<string, { label: string; icon: string; items: { name: string; category: string; quantity?: string; attribute?: TravelerAttribute }[] }> = {
+  lightSleeper: {
+    label: "Light Sleeper",
+    icon: "😴",
+    items: [
+      { name: "Eye mask", category: "personal" },
+      { name: "Earplugs", category: "personal" },
+      { name: "White noise app", category: "tech" },
+      { name: "Melatonin", category: "health" },
+      { name: "Lavender spray", category: "personal" },
+    ]
+  },
+  gymRat: {
+    label: "Gym Rat",
+    icon: "💪",
+    items: [
+      { name: "Workout shirts", category: "workout", quantity: "6" },
+      { name: "Workout shorts", category: "workout", quantity: "4" },
+      { name: "Training shoes", category: "workout" },
+      { name: "Workout socks", category: "workout", quantity: "6" },
+      { name: "Sports bra", category: "workout", quantity: "5", attribute: "wearsBras" },
+      { name: "Compression shorts", category: "workout", quantity: "3" },
+      { name: "Resistance bands", category: "activity" },
+      { name: "Gym gloves", category: "activity" },
+      { name: "Protein bars", category: "personal" },
+      { name: "Shaker bottle", category: "personal" },
+      { name: "Pre-workout", category: "personal" },
+      { name: "Quick-dry towel", category: "workout" },
+    ]
+  },
+  yoga: {
+    label: "Yoga",
+    icon: "🧘",
+    items: [
+      { name: "Yoga leggings", category: "workout", quantity: "2" },
+      { name: "Sports bra", category: "workout", quantity: "2", attribute: "wearsBras" },
+      { name: "Yoga top", category: "workout", quantity: "2" },
+      { name: "Travel yoga mat", category: "activity" },
+      { name: "Yoga blocks", category: "activity" },
+      { name: "Resistance bands", category: "activity" },
+    ]
+  },
+  swimmer: {
+    label: "Swimmer",
+    icon: "🏊",
+    items: [
+      { name: "Swimsuit", category: "workout", quantity: "2" },
+      { name: "Swim goggles", category: "activity" },
+      { name: "Swim cap", category: "activity" },
+      { name: "Waterproof bag", category: "personal" },
+      { name: "Quick-dry towel", category: "toiletries" },
+    ]
+  },
+  remoteWorker: {
+    label: "Remote Worker",
+    icon: "💻",
+    items: [
+      { name: "Laptop", category: "tech" },
+      { name: "Laptop charger", category: "tech" },
+      { name: "Portable monitor", category: "tech" },
+      { name: "Wireless mouse", category: "tech" },
+      { name: "Keyboard", category: "tech" },
+      { name: "Mobile hotspot", category: "tech" },
+      { name: "Webcam", category: "tech" },
+      { name: "USB hub", category: "tech" },
+    ]
+  },
+  contentCreator: {
+    label: "Content Creator",
+    icon: "📸",
+    items: [
+      { name: "Camera", category: "tech" },
+      { name: "Camera charger", category: "tech" },
+      { name: "Tripod", category: "tech" },
+      { name: "Ring light", category: "tech" },
+      { name: "Microphone", category: "tech" },
+      { name: "SD cards", category: "tech", quantity: "3+" },
+      { name: "Portable power bank", category: "tech" },
+      { name: "Gimbal/stabilizer", category: "tech" },
+    ]
+  },
+  gamer: {
+    label: "Gamer",
+    icon: "🎮",
+    items: [
+      { name: "Nintendo Switch", category: "tech" },
+      { name: "Switch charger", category: "tech" },
+      { name: "Game cartridges", category: "tech" },
+      { name: "Switch case", category: "tech" },
+      { name: "Extra controllers", category: "tech" },
+      { name: "Portable stand", category: "tech" },
+    ]
+  },
+  photographer: {
+    label: "Photographer",
+    icon: "📷",
+    items: [
+      { name: "Camera body", category: "tech" },
+      { name: "Camera lenses", category: "tech", quantity: "2-3" },
+      { name: "Lens filters", category: "tech" },
+      { name: "Lens cleaning kit", category: "tech" },
+      { name: "Tripod", category: "tech" },
+      { name: "SD cards", category: "tech", quantity: "5+" },
+      { name: "Extra batteries", category: "tech", quantity: "3+" },
+      { name: "Camera bag", category: "tech" },
+      { name: "External hard drive", category: "tech" },
+    ]
+  },
+};
+
+// Parse personal notes - adds items to CORRECT categories + extras to "personal"
+export const parsePersonalNotes = (notes: string): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  const lower = notes.toLowerCase();
+  
+  // ============ TECH DEVICES ============
+  // iPad / Tablet
+  if (lower.includes("ipad") || lower.includes("tablet") || lower.includes("surface")) {
+    items.push({ id: "note-ipad", name: "iPad / Tablet", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-ipad-charger", name: "iPad charger", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-ipad-case", name: "iPad case / stand", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-stylus", name: "Apple Pencil / stylus", category: "tech", essential: false, checked: false });
+  }
+  
+  // Laptop / Computer
+  if (lower.includes("laptop") || lower.includes("macbook") || lower.includes("computer") || lower.includes("work")) {
+    items.push({ id: "note-laptop", name: "Laptop", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-laptop-charger", name: "Laptop charger", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-laptop-sleeve", name: "Laptop sleeve", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-mouse", name: "Wireless mouse", category: "tech", essential: false, checked: false });
+  }
+  
+  // Kindle / E-reader
+  if (lower.includes("kindle") || lower.includes("e-reader") || lower.includes("ereader") || lower.includes("nook")) {
+    items.push({ id: "note-kindle", name: "Kindle / E-reader", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-kindle-charger", name: "Kindle charger", category: "tech", essential: false, checked: false });
+  }
+  
+  // Gaming
+  if (lower.includes("switch") || lower.includes("nintendo") || lower.includes("gaming") || lower.includes("playstation") || lower.includes("xbox") || lower.includes("steam deck") || lower.includes("game")) {
+    items.push({ id: "note-switch", name: "Nintendo Switch / gaming device", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-switch-charger", name: "Gaming device charger", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-switch-case", name: "Gaming device case", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-game-controller", name: "Extra controllers", category: "tech", essential: false, checked: false });
+  }
+  
+  // Phone accessories
+  if (lower.includes("phone") || lower.includes("iphone") || lower.includes("android") || lower.includes("charger")) {
+    items.push({ id: "note-phone-charger", name: "Phone charger", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-power-bank", name: "Power bank", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-phone-cable", name: "Extra charging cables", category: "tech", essential: false, checked: false });
+  }
+  
+  // Watch
+  if (lower.includes("watch") || lower.includes("apple watch") || lower.includes("smartwatch") || lower.includes("fitbit") || lower.includes("garmin")) {
+    items.push({ id: "note-smartwatch", name: "Smartwatch", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-watch-charger", name: "Watch charger", category: "tech", essential: false, checked: false });
+  }
+  
+  // Headphones / Audio
+  if (lower.includes("airpods") || lower.includes("earbuds") || lower.includes("headphone") || lower.includes("beats") || lower.includes("bose") || lower.includes("sony")) {
+    items.push({ id: "note-headphones", name: "Headphones / AirPods", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-headphones-case", name: "Headphones case", category: "tech", essential: false, checked: false });
+  }
+  
+  // Speaker
+  if (lower.includes("speaker") || lower.includes("bluetooth speaker") || lower.includes("jbl") || lower.includes("bose speaker")) {
+    items.push({ id: "note-speaker", name: "Bluetooth speaker", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-speaker-charger", name: "Speaker charger", category: "tech", essential: false, checked: false });
+  }
+  
+  // Camera / Photography
+  if (lower.includes("camera") || lower.includes("dslr") || lower.includes("gopro") || lower.includes("photo") || lower.includes("vlog") || lower.includes("drone")) {
+    items.push({ id: "note-camera", name: "Camera", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-camera-batteries", name: "Camera batteries", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-sd-cards", name: "Memory cards", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-camera-charger", name: "Camera charger", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-tripod", name: "Tripod", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-camera-bag", name: "Camera bag", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("drone")) {
+    items.push({ id: "note-drone", name: "Drone", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-drone-batteries", name: "Drone batteries", category: "tech", essential: false, checked: false });
+  }
+  if (lower.includes("gopro") || lower.includes("action cam")) {
+    items.push({ id: "note-gopro", name: "GoPro / action camera", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-gopro-mount", name: "GoPro mounts", category: "tech", essential: false, checked: false });
+  }
+  
+  // ============ READING / ENTERTAINMENT ============
+  if (lower.includes("book") || lower.includes("read") || lower.includes("novel") || lower.includes("magazine")) {
+    items.push({ id: "note-books", name: "Books / reading material", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-booklight", name: "Book light", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("podcast") || lower.includes("audiobook") || lower.includes("audible")) {
+    items.push({ id: "note-headphones-audio", name: "Headphones for audio", category: "tech", essential: false, checked: false });
+  }
+  if (lower.includes("netflix") || lower.includes("movie") || lower.includes("stream") || lower.includes("download")) {
+    items.push({ id: "note-download-content", name: "Download offline content", category: "preDeparture", essential: false, checked: false });
+  }
+  
+  // ============ FITNESS / WORKOUT ============
+  if (lower.includes("gym") || lower.includes("workout") || lower.includes("exercise") || lower.includes("fitness") || lower.includes("lift") || lower.includes("weights") || lower.includes("crossfit")) {
+    items.push({ id: "note-gym-shirts", name: "Workout shirts", category: "workout", quantity: "3", essential: false, checked: false });
+    items.push({ id: "note-gym-shorts", name: "Workout shorts", category: "workout", quantity: "3", essential: false, checked: false });
+    items.push({ id: "note-sports-bra", name: "Sports bra", category: "workout", quantity: "3", essential: false, checked: false, attribute: "wearsBras" });
+    items.push({ id: "note-gym-shoes", name: "Training shoes", category: "workout", essential: false, checked: false });
+    items.push({ id: "note-gym-socks", name: "Workout socks", category: "workout", quantity: "3", essential: false, checked: false });
+    items.push({ id: "note-gym-gloves", name: "Workout gloves", category: "activity", essential: false, checked: false });
+    items.push({ id: "note-gym-towel", name: "Gym towel", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-gym-bottle", name: "Water bottle", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-gym-bands", name: "Resistance bands", category: "activity", essential: false, checked: false });
+    items.push({ id: "note-gym-lock", name: "Gym padlock", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-protein", name: "Protein powder / bars", category: "personal", essential: false, checked: false });
+  }
+  
+  // Running / Jogging
+  if (lower.includes("run") || lower.includes("jog") || lower.includes("marathon") || lower.includes("5k") || lower.includes("10k")) {
+    items.push({ id: "note-run-shoes", name: "Running shoes", category: "workout", essential: false, checked: false });
+    items.push({ id: "note-run-shorts", name: "Running shorts", category: "workout", essential: false, checked: false });
+    items.push({ id: "note-run-shirt", name: "Running shirt", category: "workout", essential: false, checked: false });
+    items.push({ id: "note-run-socks", name: "Athletic socks", category: "workout", quantity: "3 pairs", essential: false, checked: false });
+    items.push({ id: "note-run-watch", name: "Sports watch / GPS", category: "tech", essential: false, checked: false });
+    items.push({ id: "note-run-belt", name: "Running belt", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-run-armband", name: "Phone armband", category: "personal", essential: false, checked: false });
+  }
+  
+  // Yoga / Meditation
+  if (lower.includes("yoga") || lower.includes("meditat") || lower.includes("pilates") || lower.includes("stretch")) {
+    items.push({ id: "note-yoga-pants", name: "Yoga leggings", category: "workout", quantity: "2", essential: false, checked: false });
+    items.push({ id: "note-yoga-top", name: "Yoga top", category: "workout", quantity: "2", essential: false, checked: false });
+    items.push({ id: "note-yoga-bra", name: "Sports bra", category: "workout", quantity: "2", essential: false, checked: false, attribute: "wearsBras" });
+    items.push({ id: "note-yoga-mat", name: "Travel yoga mat", category: "activity", essential: false, checked: false });
+    items.push({ id: "note-yoga-strap", name: "Yoga strap", category: "activity", essential: false, checked: false });
+  }
+  
+  // Swimming
+  if (lower.includes("swim") || lower.includes("pool") || lower.includes("lap") || lower.includes("water aerobics")) {
+    items.push({ id: "note-swim-suit", name: "Swimsuit", category: "workout", quantity: "2", essential: false, checked: false });
+    items.push({ id: "note-swim-goggles", name: "Swim goggles", category: "activity", essential: false, checked: false });
+    items.push({ id: "note-swim-cap", name: "Swim cap", category: "activity", essential: false, checked: false });
+    items.push({ id: "note-swim-towel", name: "Quick-dry towel", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ OUTDOOR ACTIVITIES ============
+  // Hiking
+  if (lower.includes("hike") || lower.includes("hiking") || lower.includes("trail") || lower.includes("trek") || lower.includes("backpack")) {
+    items.push({ id: "note-hiking-boots", name: "Hiking boots", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-hiking-socks", name: "Hiking socks", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-hiking-pants", name: "Hiking pants", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-daypack", name: "Daypack", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-hiking-poles", name: "Hiking poles", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-water-bladder", name: "Hydration bladder", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-headlamp", name: "Headlamp", category: "personal", essential: false, checked: false });
+  }
+  
+  // Camping
+  if (lower.includes("camp") || lower.includes("tent") || lower.includes("outdoor")) {
+    items.push({ id: "note-tent", name: "Tent", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-sleeping-bag", name: "Sleeping bag", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-sleeping-pad", name: "Sleeping pad", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-flashlight", name: "Flashlight / lantern", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-bug-spray", name: "Bug spray", category: "toiletries", essential: false, checked: false });
+  }
+  
+  // Beach
+  if (lower.includes("beach") || lower.includes("ocean") || lower.includes("sand") || lower.includes("sunbath")) {
+    items.push({ id: "note-beach-towel", name: "Beach towel", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-beach-bag", name: "Beach bag", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-flip-flops", name: "Flip flops / sandals", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-beach-umbrella", name: "Beach umbrella", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-cooler", name: "Cooler bag", category: "personal", essential: false, checked: false });
+  }
+  
+  // Skiing / Snowboarding
+  if (lower.includes("ski") || lower.includes("snowboard") || lower.includes("snow") || lower.includes("slope")) {
+    items.push({ id: "note-ski-jacket", name: "Ski jacket", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-ski-pants", name: "Ski pants", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-thermal", name: "Thermal underwear", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-ski-goggles", name: "Ski goggles", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-ski-gloves", name: "Ski gloves", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-hand-warmers", name: "Hand warmers", category: "personal", essential: false, checked: false });
+  }
+  
+  // Golf
+  if (lower.includes("golf") || lower.includes("course")) {
+    items.push({ id: "note-golf-clubs", name: "Golf clubs", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-golf-shoes", name: "Golf shoes", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-golf-glove", name: "Golf glove", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-golf-balls", name: "Golf balls", category: "personal", essential: false, checked: false });
+  }
+  
+  // Tennis
+  if (lower.includes("tennis") || lower.includes("racket") || lower.includes("court")) {
+    items.push({ id: "note-tennis-racket", name: "Tennis racket", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-tennis-shoes", name: "Tennis shoes", category: "clothing", essential: false, checked: false });
+  }
+  
+  // Scuba / Snorkeling
+  if (lower.includes("scuba") || lower.includes("snorkel") || lower.includes("dive") || lower.includes("diving")) {
+    items.push({ id: "note-snorkel-mask", name: "Snorkel mask", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-snorkel-fins", name: "Fins", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-rash-guard", name: "Rash guard", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-dive-cert", name: "Dive certification card", category: "documents", essential: false, checked: false });
+  }
+  
+  // Surfing
+  if (lower.includes("surf") || lower.includes("wave")) {
+    items.push({ id: "note-wetsuit", name: "Wetsuit", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-rash-guard-surf", name: "Rash guard", category: "clothing", essential: false, checked: false });
+    items.push({ id: "note-surf-wax", name: "Surf wax", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ HEALTH & WELLNESS ============
+  // Sleep
+  if (lower.includes("light sleeper") || lower.includes("trouble sleep") || lower.includes("can't sleep") || lower.includes("insomnia") || lower.includes("jet lag")) {
+    items.push({ id: "note-earplugs", name: "Earplugs", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-sleepmask", name: "Sleep mask", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-melatonin", name: "Melatonin", category: "health", essential: false, checked: false });
+    items.push({ id: "note-sleepaid", name: "Sleep aid", category: "health", essential: false, checked: false });
+  }
+  
+  // Medications
+  if (lower.includes("allerg") || lower.includes("hay fever")) {
+    items.push({ id: "note-allergy", name: "Allergy medication", category: "health", essential: false, checked: false });
+    items.push({ id: "note-antihistamine", name: "Antihistamines", category: "health", essential: false, checked: false });
+  }
+  if (lower.includes("motion sick") || lower.includes("car sick") || lower.includes("seasick") || lower.includes("nausea")) {
+    items.push({ id: "note-motion", name: "Motion sickness meds", category: "health", essential: false, checked: false });
+    items.push({ id: "note-ginger", name: "Ginger candies", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-sea-bands", name: "Sea bands", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("headache") || lower.includes("migraine") || lower.includes("pain")) {
+    items.push({ id: "note-painkillers", name: "Pain relievers", category: "health", essential: false, checked: false });
+  }
+  if (lower.includes("vitamin") || lower.includes("supplement")) {
+    items.push({ id: "note-vitamins", name: "Vitamins / supplements", category: "health", essential: false, checked: false });
+  }
+  
+  // Vision
+  if (lower.includes("contact") || lower.includes("lens")) {
+    items.push({ id: "note-contacts", name: "Contact lenses", category: "health", essential: false, checked: false });
+    items.push({ id: "note-contact-solution", name: "Contact solution", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-contact-case", name: "Contact case", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-backup-glasses", name: "Backup glasses", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("glasses") || lower.includes("eyewear") || lower.includes("spectacle")) {
+    items.push({ id: "note-glasses", name: "Glasses", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-glasses-case", name: "Glasses case", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-glasses-cleaner", name: "Glasses cleaner", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("sunglass")) {
+    items.push({ id: "note-sunglasses", name: "Sunglasses", category: "personal", essential: false, checked: false });
+  }
+  
+  // Medical devices and accessibility (CPAP, oxygen, wheelchair, insulin pump, hearing aids)
+  detectMedicalNeeds(notes).forEach(need => items.push(...medicalNeedItems(need)));
+  
+  // ============ PERSONAL CARE ============
+  // Skincare
+  if (lower.includes("skincare") || lower.includes("skin care") || lower.includes("moistur") || lower.includes("dry skin") || lower.includes("face")) {
+    items.push({ id: "note-moisturizer", name: "Moisturizer", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-facewash", name: "Face wash", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-serum", name: "Serums", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-lipbalm", name: "Lip balm", category: "toiletries", essential: false, checked: false });
+  }
+  
+  // Hair
+  // Word start, so a wheelchair isn't hair
+  if (/\bhair/.test(lower) || lower.includes("curly") || lower.includes("straighten")) {
+    items.push({ id: "note-hairdryer", name: "Hair dryer", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-straightener", name: "Hair straightener / curler", category: "toiletries", essential: false, checked: false });
+    items.push({ id: "note-hair-products", name: "Hair products", category: "toiletries", essential: false, checked: false });
+  }
+  
+  // ============ COMFORT / TRAVEL AIDS ============
+  if (lower.includes("pillow") || lower.includes("neck") || lower.includes("long flight") || lower.includes("plane")) {
+    items.push({ id: "note-pillow", name: "Travel pillow", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-blanket", name: "Travel blanket", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-compression", name: "Compression socks", category: "clothing", essential: false, checked: false });
+  }
+  
+  // ============ FOOD & DRINK ============
+  if (lower.includes("coffee") || lower.includes("caffeine") || lower.includes("espresso")) {
+    items.push({ id: "note-coffee-mug", name: "Travel coffee mug", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-coffee-instant", name: "Instant coffee", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("tea")) {
+    items.push({ id: "note-tea-bags", name: "Tea bags", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-tea-mug", name: "Travel tea mug", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("snack") || lower.includes("hungry") || lower.includes("munchies") || lower.includes("food")) {
+    items.push({ id: "note-snacks", name: "Travel snacks", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-snack-container", name: "Snack containers", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("water bottle") || lower.includes("hydrat") || lower.includes("thirsty")) {
+    items.push({ id: "note-water", name: "Reusable water bottle", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-electrolytes", name: "Electrolyte packets", category: "health", essential: false, checked: false });
+  }
+  if (lower.includes("diet") || lower.includes("vegan") || lower.includes("vegetarian") || lower.includes("gluten") || lower.includes("celiac")) {
+    items.push({ id: "note-dietary-snacks", name: "Dietary-specific snacks", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ WRITING / ART ============
+  if (lower.includes("journal") || lower.includes("diary") || lower.includes("write") || lower.includes("pen")) {
+    items.push({ id: "note-journal", name: "Travel journal", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-pens", name: "Nice pens", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("draw") || lower.includes("sketch") || lower.includes("art") || lower.includes("paint")) {
+    items.push({ id: "note-sketchbook", name: "Sketchbook", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-pencils", name: "Pencils / colored pencils", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-art-supplies", name: "Art supplies", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ MUSIC ============
+  if (lower.includes("guitar") || lower.includes("ukulele") || lower.includes("instrument") || lower.includes("music") && lower.includes("play")) {
+    items.push({ id: "note-instrument", name: "Musical instrument", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ BUSINESS / WORK ============
+  if (lower.includes("meeting") || lower.includes("conference") || lower.includes("presentation") || lower.includes("business")) {
+    items.push({ id: "note-business-cards", name: "Business cards", category: "documents", essential: false, checked: false });
+    items.push({ id: "note-portfolio", name: "Portfolio / folder", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-notebook-biz", name: "Professional notebook", category: "personal", essential: false, checked: false });
+  }
+  
+  // ============ SPECIFIC ITEMS MENTIONED ============
+  // Direct item mentions - catch specific product names
+  if (lower.includes("umbrella")) {
+    items.push({ id: "note-umbrella", name: "Travel umbrella", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("binocular")) {
+    items.push({ id: "note-binoculars", name: "Binoculars", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("passport")) {
+    items.push({ id: "note-passport-copy", name: "Passport copies", category: "documents", essential: false, checked: false });
+  }
+  if (lower.includes("cash") || lower.includes("money") || lower.includes("currency")) {
+    items.push({ id: "note-cash", name: "Cash / local currency", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("adapter") || lower.includes("converter") || lower.includes("plug")) {
+    items.push({ id: "note-adapter", name: "Power adapter", category: "tech", essential: false, checked: false });
+  }
+  if (lower.includes("extension") || lower.includes("power strip")) {
+    items.push({ id: "note-power-strip", name: "Power strip", category: "tech", essential: false, checked: false });
+  }
+  if (lower.includes("lock") || lower.includes("padlock") || lower.includes("tsa")) {
+    items.push({ id: "note-tsa-lock", name: "TSA-approved lock", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("packing cube") || lower.includes("organizer")) {
+    items.push({ id: "note-packing-cubes", name: "Packing cubes", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("laundry") || lower.includes("wash clothes")) {
+    items.push({ id: "note-laundry-bag", name: "Laundry bag", category: "personal", essential: false, checked: false });
+    items.push({ id: "note-detergent", name: "Travel detergent", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("sewing") || lower.includes("needle")) {
+    items.push({ id: "note-sewing-kit", name: "Mini sewing kit", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("duct tape") || lower.includes("tape")) {
+    items.push({ id: "note-tape", name: "Travel duct tape", category: "personal", essential: false, checked: false });
+  }
+  if (lower.includes("ziplock") || lower.includes("plastic bag")) {
+    items.push({ id: "note-ziplocks", name: "Ziplock bags", category: "personal", essential: false, checked: false });
+  }
+  
+  // Deduplicate by id
+  return items.filter((item, idx, arr) => arr.findIndex(i => i.id === item.id) === idx);
+};
+
+export const getTravelerTotal = (travelers: TravelerInfo[], type: TravelerType) =>
+  travelers.filter(t => t.type === type).length;
+
+// The order travelers are listed in: tabs, bags and the tool result
+const TRAVELER_TYPES: TravelerType[] = ["adult", "child", "infant", "senior", "pet"];
+
+// A fresh id for one more traveler of this type ("child-3"), never one already on the trip
+export const nextTravelerId = (travelers: TravelerInfo[], type: TravelerType) => {
+  let n = getTravelerTotal(travelers, type) + 1;
+  while (travelers.some(t => t.id === `${type}-${n}`)) n++;
+  return `${type}-${n}`;
+};
+
+// One more traveler of this type, listed after the others of their type
+export const addTraveler = (travelers: TravelerInfo[], type: TravelerType, species?: PetSpecies) => {
+  const traveler: TravelerInfo = { id: nextTravelerId(travelers, type), type, ...(type === "pet" ? { species: species || "dog" } : {}) };
+  return { traveler, travelers: TRAVELER_TYPES.flatMap(t => [...travelers, traveler].filter(other => other.type === t)) };
+};
+
+// Add or remove travelers of one type (and species, for pets) to reach a count. The most recently added
+// go first, so everyone else keeps their id and details.
+export const setTravelerCount = (travelers: TravelerInfo[], type: TravelerType, count: number, species?: PetSpecies): TravelerInfo[] => {
+  const matches = (t: TravelerInfo) => t.type === type && (!species || t.species === species);
+  const current = travelers.filter(matches);
+  let next = travelers.filter(t => !matches(t) || current.indexOf(t) < count);
+  for (let i = current.length; i < count; i++) next = addTraveler(next, type, species).travelers;
+  return next;
+};
+
+// Trips saved before travelers had their own records counted them ({ type, male, female }, and before
+// that { type, count }). Each count becomes that many travelers, under the ids their details
+// were saved with; pets were counted as dogs (male) and cats (female). Gender isn't kept.
+export const migrateTravelers = (travelers: unknown): TravelerInfo[] => {
+  if (!Array.isArray(travelers)) return DEFAULT_PROFILE.travelers;
+  const migrated = travelers.flatMap((t): TravelerInfo[] => {
+    if (typeof t?.id === "string") return [t];
+    if (!TRAVELER_TYPES.includes(t?.type)) return [];
+    const counts = { m: Number(t.male ?? t.count) || 0, f: Number(t.female) || 0 };
+    return Object.entries(counts).flatMap(([gender, count]) => Array.from({ length: count }, (_, i) => ({
+      id: `${t.type}-${gender}-${i + 1}`,
+      type: t.type,
+      ...(t.type === "pet" ? { species: gender === "f" ? "cat" as const : "dog" as const } : {}),
+    })));
+  });
+  return TRAVELER_TYPES.flatMap(type => migrated.filter(t => t.type === type));
+};
+
+// What the user told us about one traveler; anything unset keeps the generic label and age-free rules
+export interface TravelerDetails {
+  name?: string;
+  age?: number;       // Whole years, when there's no birth date
+  birthDate?: string; // ISO date; wins over age
+  attributes?: TravelerAttribute[]; // Only what they opted into; nothing is assumed
+  medical?: MedicalNeed[];          // Medical devices and accessibility needs (shared/medical.ts)
+  medications?: Medication[];       // With dose and frequency, for the planner (shared/medications.ts)
+}
+
+// Children's age bands: rules pick car seats, entertainment, IDs and toiletries by them
+export type AgeBand = "toddler" | "school-age" | "teen";
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  toddler: "Toddler (1-4)",
+  "school-age": "School-age (5-12)",
+  teen: "Teen (13+)",
+};
+
+export const getAgeBand = (age: number): AgeBand => age < 5 ? "toddler" : age < 13 ? "school-age" : "teen";
+
+// Age in whole years at the trip's start (or today, before dates are set)
+export const ageOn = (details: TravelerDetails | undefined, date?: string): number | undefined => {
+  if (!details) return undefined;
+  if (!isValidIsoDate(details.birthDate)) return details.age;
+  const on = isValidIsoDate(date) ? date : todayIn().today;
+  const [by, bm, bd] = details.birthDate.split("-").map(Number);
+  const [y, m, d] = on.split("-").map(Number);
+  return Math.max(0, y - by - (m < bm || (m === bm && d < bd) ? 1 : 0));
+};
+
+// Individual traveler for per-person checklists
+export interface IndividualTraveler extends TravelerInfo {
+  label: string;
+}
+
+const TYPE_LABELS: Record<TravelerType, string> = { adult: "Adult", child: "Child", infant: "Baby", senior: "Senior", pet: "Pet" };
+const SPECIES_LABELS: Record<PetSpecies, string> = { dog: "Dog", cat: "Cat" };
+
+// Each traveler with a label: their name from travelerDetails, else "Adult", or "Child 2" when there are several
+export const getIndividualTravelers = (travelers: TravelerInfo[], details?: Record<string, TravelerDetails>): IndividualTraveler[] => {
+  const kindOf = (t: TravelerInfo) => t.type === "pet" ? SPECIES_LABELS[t.species || "dog"] : TYPE_LABELS[t.type];
+  return travelers.map(t => {
+    const name = details?.[t.id]?.name?.trim();
+    if (name) return { ...t, label: name };
+    const same = travelers.filter(other => kindOf(other) === kindOf(t));
+    return { ...t, label: same.length === 1 ? kindOf(t) : `${kindOf(t)} ${same.indexOf(t) + 1}` };
+  });
+};
+
+// Build the single-person profile used to generate one traveler's own list.
+// Presets are cleared because per-person presets live in the widget's individualPrefs.
+export const getIndividualProfile = (profile: TripProfile, traveler: IndividualTraveler): TripProfile => {
+  const theirs = <T>(byId?: Record<string, T>): Record<string, T> => byId?.[traveler.id] ? { [traveler.id]: byId[traveler.id] } : {};
+  return {
+    ...profile,
+    listFor: traveler.type,
+    presets: [],
+    nationality: profile.travelerNationalities?.[traveler.id] || profile.nationality,
+    travelerNationalities: {},
+    travelerDetails: theirs(profile.travelerDetails),
+    pets: theirs(profile.pets),
+    personalProfiles: theirs(profile.personalProfiles),
+    travelers: [{ id: traveler.id, type: traveler.type, ...(traveler.species ? { species: traveler.species } : {}) }],
+  };
+};
+
+// Generate every traveler's list, with item IDs prefixed by the traveler id
+export const generateIndividualChecklists = (profile: TripProfile): Record<string, ChecklistItem[]> => {
+  const lists: Record<string, ChecklistItem[]> = {};
+  getIndividualTravelers(profile.travelers).forEach((t) => {
+    lists[t.id] = generateChecklist(getIndividualProfile(profile, t)).map(item => ({ ...item, id: `${t.id}-${item.id}` }));
+  });
+  return lists;
+};
+
+// Validated once at load - a malformed rule throws here with the offending rule named
+export const CHECKLIST_RULES = loadChecklistRules(rulesFile, "shared/data/checklist-rules.json");
+
+// Passport nationalities in the group: the profile default (if anyone uses it) plus per-traveler overrides
+export const getTripNationalities = (profile: TripProfile): string[] => {
+  const overrides = profile.travelerNationalities || {};
+  const individuals = getIndividualTravelers(profile.travelers).filter(t => t.type !== "pet");
+  const someUseDefault = individuals.length === 0 || individuals.some(t => !overrides[t.id]);
+  const codes = [
+    ...(someUseDefault && profile.nationality ? [profile.nationality] : []),
+    ...individuals.map(t => overrides[t.id]).filter(Boolean),
+  ];
+  return [...new Set(codes)];
+};
+
+// Each pet with its species and the size and travel mode set for it (or the defaults)
+export const getPets = (profile: Pick<TripProfile, "travelers" | "travelerDetails" | "pets" | "isInternational">): Pet[] =>
+  getIndividualTravelers(profile.travelers, profile.travelerDetails).filter(t => t.type === "pet").map(t => {
+    const species = t.species || "dog";
+    const { size, travel } = defaultPetDetails(species, profile.isInternational, profile.pets?.[t.id]);
+    return { id: t.id, label: t.label, species, size, travel };
+  });
+
+// Entry requirements for each nationality on an international trip; empty if either side is unknown
+export const getEntryChecks = (profile: TripProfile): EntryCheck[] => {
+  if (!profile.isInternational) return [];
+  const destinationCode = destinationCountryOf(profile.destination);
+  if (!destinationCode) return [];
+  return getTripNationalities(profile).map(code =>
+    checkEntryRequirements(code, destinationCode, { startDate: profile.startDate, endDate: profile.endDate })
+  );
+};
+
+// Plug / voltage comparison between home and the destination; null for domestic trips or unknown countries
+export const getPowerAdvice = (profile: TripProfile): PowerAdvice | null => {
+  if (!profile.isInternational) return null;
+  const destinationCode = destinationCountryOf(profile.destination);
+  return destinationCode ? comparePower(profile.homeCountry, destinationCode) : null;
+};
+
+// One profile per leg, sharing travelers, notes and the total trip duration (which drives quantities).
+// A trip with fewer than two legs is just the profile itself.
+export const getLegProfiles = (profile: TripProfile): TripProfile[] => {
+  const legs = profile.legs || [];
+  if (legs.length < 2) return [profile];
+  return legs.map(leg => ({
+    ...profile,
+    destination: leg.destination,
+    climate: leg.climate,
+    purpose: leg.purpose || profile.purpose,
+    startDate: leg.startDate || "",
+    endDate: leg.endDate || "",
+    legs: [],
+  }));
+};
+
+// A person's attributes: only the ones they picked
+export const getTravelerAttributes = (profile: Pick<TripProfile, "travelerDetails">, traveler: Pick<TravelerInfo, "id">): TravelerAttribute[] =>
+  profile.travelerDetails?.[traveler.id]?.attributes || [];
+
+// Everyone's attributes together, for the rules
+const getAttributes = (profile: TripProfile): TravelerAttribute[] =>
+  [...new Set(getIndividualTravelers(profile.travelers).flatMap(t => getTravelerAttributes(profile, t)))];
+
+// A person's medications: their own, plus any from an attached profile that they haven't entered themselves
+export const getTravelerMedications = (profile: Pick<TripProfile, "travelerDetails" | "personalProfiles">, traveler: IndividualTraveler): Medication[] => {
+  const own = profile.travelerDetails?.[traveler.id]?.medications || [];
+  const saved = profile.personalProfiles?.[traveler.id]?.medications || [];
+  return [...own, ...saved.filter(m => !own.some(o => o.name.toLowerCase() === m.name.toLowerCase()))];
+};
+
+// What the medication planner needs to know about the trip: length, spare days, and the time difference
+const getMedicationTrip = (profile: TripProfile): MedicationTrip => {
+  const place = lookupDestination(profile.destination);
+  return {
+    tripDuration: profile.tripDuration,
+    bufferDays: profile.medicationBufferDays,
+    isInternational: profile.isInternational,
+    startDate: profile.startDate,
+    homeTimeZone: profile.homeTimeZone,
+    destinationTimeZone: place?.timeZone,
+    destinationName: place?.name,
+    destinationCountry: place?.country || undefined,
+  };
+};
+
+// Quantity, schedule and prescription flags for each of a person's medications
+export const getMedicationPlans = (profile: TripProfile, traveler: IndividualTraveler): MedicationPlan[] =>
+  getTravelerMedications(profile, traveler).map(medication => planMedication(medication, getMedicationTrip(profile)));
+
+// Medical and accessibility needs of the people on the trip, set per traveler or mentioned in the notes
+export const getMedicalNeeds = (profile: Pick<TripProfile, "travelers" | "travelerDetails" | "personalNotes">): MedicalNeed[] => [...new Set([
+  ...getIndividualTravelers(profile.travelers).filter(t => t.type !== "pet").flatMap(t => profile.travelerDetails?.[t.id]?.medical || []),
+  ...detectMedicalNeeds(profile.personalNotes || ""),
+])];
+
+// Age bands of the children whose age or birth date is known
+export const getChildAgeBands = (profile: Pick<TripProfile, "travelers" | "travelerDetails" | "startDate">): AgeBand[] => {
+  const ages = getIndividualTravelers(profile.travelers)
+    .filter(t => t.type === "child")
+    .map(t => ageOn(profile.travelerDetails?.[t.id], profile.startDate))
+    .filter((age): age is number => age !== undefined);
+  return [...new Set(ages.map(getAgeBand))];
+};
+
+// Derive the facts the declarative rules are evaluated against
+export const getRuleFacts = (profile: TripProfile): RuleFacts => {
+  const { isInternational, climate, tripDuration, travelers, purpose, packingConstraint, activities } = profile;
+
+  // Classify the destination from the gazetteer's climate normals for the travel month
+  const place = lookupDestination(profile.destination);
+  const placeClimate = place ? classifyDestination(place, monthOf(profile.startDate)) : null;
+  const isColdDestination = Boolean(placeClimate?.isCold);
+  
+  // Effective climate - override if destination strongly suggests different climate
+  const effectiveClimate = isColdDestination && climate !== "winter" ? "winter" : climate;
+
+  const isBeachDestination = Boolean(placeClimate?.isBeach) || purpose === "beach" || effectiveClimate === "tropical";
+  const entryChecks = getEntryChecks(profile);
+  const laundry = getLaundryPlan(profile);
+  const pets = getPets(profile);
+
+  return {
+    destination: profile.destination,
+    isInternational,
+    climate: effectiveClimate,
+    purpose,
+    packingConstraint,
+    tripDuration,
+    baseOutfits: laundry.wearDays, // Outfits for one wash cycle
+    travelerCount: travelers.filter(t => t.type !== "pet").length,
+    activities,
+    presets: profile.presets || [],
+    hasChildren: getTravelerTotal(travelers, "child") > 0,
+    hasInfants: getTravelerTotal(travelers, "infant") > 0,
+    hasPets: getTravelerTotal(travelers, "pet") > 0,
+    hasSeniors: getTravelerTotal(travelers, "senior") > 0,
+    childAgeBands: getChildAgeBands(profile),
+    petSpecies: [...new Set(pets.map(p => p.species))],
+    petTravel: [...new Set(pets.map(p => p.travel))],
+    attributes: getAttributes(profile),
+    medicalNeeds: getMedicalNeeds(profile),
+    hasMedications: getIndividualTravelers(travelers).some(t => getTravelerMedications(profile, t).length > 0),
+    isCarryOnOnly: packingConstraint === "carry_on_only",
+    isBeachDestination,
+    isColdDestination,
+    isCoastal: Boolean(place?.coastal),
+    entryRequirementsKnown: entryChecks.length > 0 && entryChecks.every(c => c.known),
+    powerStandardsKnown: getPowerAdvice(profile) !== null,
+    mixedClimates: false, // Set across legs by generateChecklist
+    laundry: laundry.frequency,
+    wearDays: laundry.wearDays,
+    washes: laundry.washes,
+    garmentDays: planOutfits(profile).garmentDays,
+    ...(profile.listFor ? { listFor: profile.listFor } : {}),
+  };
+};
+
+export const generateChecklist = (profile: TripProfile): ChecklistItem[] => {
+  const legs = getLegProfiles(profile);
+  if (legs.length === 1) return generateLegChecklist(profile, {});
+  const mixedClimates = new Set(legs.map(leg => getRuleFacts(leg).climate)).size > 1;
+  // Clothing is planned day by day across the whole itinerary, not per leg
+  const { garmentDays } = planOutfits(profile);
+  return mergeLegChecklists(legs.map(leg => generateLegChecklist(leg, { mixedClimates, garmentDays })));
+};
+
+// Union of the legs' lists: shared items once with the larger quantity, and leg-specific variants
+// of the same item (a Type G and a Type C adapter) kept side by side under their own ids
+const mergeLegChecklists = (lists: ChecklistItem[][]): ChecklistItem[] => {
+  const byId = new Map<string, ChecklistItem>();
+  lists.forEach((list, legIndex) => list.forEach(item => {
+    const existing = byId.get(item.id);
+    if (!existing) { byId.set(item.id, { ...item }); return; }
+    if (existing.name !== item.name) {
+      const id = `${item.id}-leg${legIndex + 1}`;
+      if (!byId.has(id)) byId.set(id, { ...item, id });
+      return;
+    }
+    const qty = (q?: string) => parseInt(q || "", 10) || 0;
+    if (qty(item.quantity) > qty(existing.quantity)) existing.quantity = item.quantity;
+    existing.essential = existing.essential || item.essential;
+    // Same document, different rules per country (passport validity): keep both reasons and the earlier deadline
+    if (item.reason && !existing.reason?.includes(item.reason)) existing.reason = existing.reason ? `${existing.reason}; ${item.reason}` : item.reason;
+    if (item.dueDate && (!existing.dueDate || item.dueDate < existing.dueDate)) existing.dueDate = item.dueDate;
+  }));
+  // Pre-departure tasks stay at the end, as in a single-destination list
+  const merged = [...byId.values()];
+  return [...merged.filter(item => item.category !== "preDeparture"), ...merged.filter(item => item.category === "preDeparture")];
+};
+
+const generateLegChecklist = (profile: TripProfile, overrides: Partial<RuleFacts>): ChecklistItem[] => {
+  const facts = { ...getRuleFacts(profile), ...overrides };
+  const hasAttribute = (attribute?: TravelerAttribute) => !attribute || facts.attributes.includes(attribute);
+  const ruleItems = evaluateRules(CHECKLIST_RULES, facts);
+  const laundry = getLaundryPlan(profile);
+  // Pre-departure tasks stay at the end of the list, after notes and presets
+  const items = ruleItems.filter(item => item.category !== "preDeparture");
+  // Infants' and pets' own lists come from their rules only: no notes, presets or plug adapters
+  const forPerson = profile.listFor !== "infant" && profile.listFor !== "pet";
+
+  // ENTRY REQUIREMENTS (passport, visa / travel authorization, arrival forms)
+  // Items that are the same for every passport in the group are listed once; the rest are labelled
+  if (facts.entryRequirementsKnown && profile.listFor !== "pet") {
+    const checks = getEntryChecks(profile);
+    const byKey = new Map<string, { item: ChecklistItem; codes: string[] }>();
+    checks.forEach(check => {
+      entryChecklistItems(check, profile.startDate).forEach(item => {
+        const key = `${item.id}|${item.name}`;
+        const existing = byKey.get(key);
+        if (existing) existing.codes.push(check.nationality!.code);
+        else byKey.set(key, { item, codes: [check.nationality!.code] });
+      });
+    });
+    byKey.forEach(({ item, codes }) => {
+      if (codes.length === checks.length) { items.push(item); return; }
+      const label = codes.map(code => COUNTRIES[code].demonym).join(" & ");
+      items.push({ ...item, id: `${item.id}-${codes.join("-").toLowerCase()}`, name: `${item.name} (${label} passports)` });
+    });
+  }
+
+  // PETS (import documents and vet appointments abroad; booking and carrier limits when they fly)
+  // The group list covers every pet, so documents shared by several pets are listed once
+  const pets = profile.listFor && profile.listFor !== "pet" ? [] : getPets(profile);
+  const petTasks: ChecklistItem[] = [];
+  const destinationCode = destinationCountryOf(profile.destination);
+  pets.forEach(pet => {
+    const check = profile.isInternational && destinationCode
+      ? checkPetEntry(pet, profile.homeCountry || profile.nationality, destinationCode)
+      : null;
+    const flight = petFlightAdvice(pet, profile.airline, profile.startDate);
+    const carrier = items.find(item => item.id === "fam-petcarrier");
+    if (carrier && flight.carrierNote) carrier.reason = flight.carrierNote;
+    [...(check ? petEntryItems(check, profile.startDate) : []), ...flight.items].forEach(item => {
+      const list = item.category === "preDeparture" ? petTasks : items;
+      if (!list.some(i => i.id === item.id)) list.push(item);
+    });
+  });
+
+  // PERSONAL (from notes)
+  if (profile.personalNotes && forPerson) {
+    const noteItems = parsePersonalNotes(profile.personalNotes);
+    // Skip items for an attribute nobody on this list has
+    const filteredNoteItems = noteItems.filter(item => hasAttribute(item.attribute));
+    items.push(...filteredNoteItems.map(item => isWornItem(item) && item.quantity ? { ...item, quantity: scaleQuantityForDuration(item.quantity, profile.tripDuration, laundry) } : item));
+  }
+
+  // PERSONAL PROFILES (each attached profile's glasses or contacts, devices, diet and sleep aids)
+  // Only for people still on the trip; an item the list already has by name isn't added twice
+  if (forPerson) {
+    const onTrip = new Set(getIndividualTravelers(profile.travelers).map(t => t.id));
+    Object.entries(profile.personalProfiles || {}).filter(([id]) => onTrip.has(id)).forEach(([, personal]) => {
+      personalProfileItems(personal, profile.tripDuration).forEach(item => {
+        if (!items.some(i => i.id === item.id || i.name.toLowerCase() === item.name.toLowerCase())) items.push(item);
+      });
+    });
+  }
+
+  // MEDICAL (devices, supplies and documents for each need; airline and hotel arrangements before leaving)
+  // The trip's version of an item replaces the one picked up from the notes, which doesn't know about flights
+  const medicalTasks: ChecklistItem[] = [];
+  const trip = { isInternational: profile.isInternational, airline: profile.airline, startDate: profile.startDate };
+  getMedicalNeeds({ ...profile, personalNotes: forPerson ? profile.personalNotes : "" }).forEach(need => {
+    medicalNeedItems(need, trip).forEach(item => {
+      const at = items.findIndex(i => i.id === item.id);
+      if (at >= 0) items[at] = item;
+      else items.push(item);
+    });
+    medicalNeedTasks(need, trip).forEach(task => { if (!medicalTasks.some(t => t.id === task.id)) medicalTasks.push(task); });
+  });
+
+  // MEDICATIONS (quantity for the trip plus spare days, dosing times on the destination's clock,
+  // prescription copies for controlled ones abroad). A group list names whose each one is.
+  const people = getIndividualTravelers(profile.travelers, profile.travelerDetails).filter(t => t.type !== "pet");
+  const medicationTrip = getMedicationTrip(profile);
+  people.forEach(person => getMedicationPlans(profile, person).forEach(plan => {
+    medicationItems(plan, medicationTrip, people.length > 1 ? person.label : undefined).forEach(item => {
+      const list = item.category === "preDeparture" ? medicalTasks : items;
+      if (!list.some(i => i.id === item.id)) list.push(item);
+    });
+  }));
+
+  // POWER (adapter for the destination's sockets; converter and warnings for single-voltage hair tools)
+  const powerAdvice = forPerson ? getPowerAdvice(profile) : null;
+  if (powerAdvice) {
+    const warning = voltageWarning(powerAdvice);
+    const singleVoltage = items.filter(item => SINGLE_VOLTAGE_DEVICE_IDS.includes(item.id));
+    if (warning) singleVoltage.forEach(item => { item.reason = warning; });
+    const powerItems = powerChecklistItems(powerAdvice, singleVoltage.length > 0);
+    // The specific adapter replaces a generic one picked up from the notes
+    if (powerItems.some(item => item.id === "tech-adapter")) {
+      const noteAdapter = items.findIndex(item => item.id === "note-adapter");
+      if (noteAdapter >= 0) items.splice(noteAdapter, 1);
+    }
+    items.push(...powerItems);
+  }
+
+  // PRESETS (from selected traveler types)
+  if (profile.presets && profile.presets.length > 0) {
+    profile.presets.forEach(presetKey => {
+      const preset = TRAVELER_PRESETS[presetKey];
+      if (preset) {
+        preset.items.forEach(item => {
+          if (!hasAttribute(item.attribute)) return;
+          
+          items.push({
+            id: `preset-${presetKey}-${item.name.toLowerCase().replace(/\s+/g, '-')}`,
+            name: item.name,
+            category: item.category,
+            quantity: isWornItem(item) ? scaleQuantityForDuration(item.quantity, profile.tripDuration, laundry) : item.quantity,
+            essential: false,
+            checked: false
+          });
+        });
+      }
+    });
+  }
+
+  items.push(...ruleItems.filter(item => item.category === "preDeparture"), ...petTasks, ...medicalTasks);
+
+  return items;
+};
+
+// Display order for categories; anything not listed is appended after these
+export const CATEGORY_ORDER = ["documents", "clothing", "workout", "toiletries", "health", "tech", "activity", "family", "personal", "preDeparture"];
+
+export const CATEGORY_NAMES: Record<string, string> = {
+  documents: "Documents",
+  clothing: "Everyday Clothing",
+  workout: "Workout Clothing",
+  toiletries: "Toiletries",
+  health: "Health & Safety",
+  tech: "Tech",
+  activity: "Activities",
+  family: "Family",
+  personal: "Your Essentials",
+  preDeparture: "Pre-Departure"
+};
+
+export const groupByCategory = (items: ChecklistItem[]): Record<string, ChecklistItem[]> => {
+  const groups: Record<string, ChecklistItem[]> = {};
+  items.forEach(item => { if (!groups[item.category]) groups[item.category] = []; groups[item.category].push(item); });
+  const sortedGroups: Record<string, ChecklistItem[]> = {};
+  CATEGORY_ORDER.forEach(cat => { if (groups[cat]) sortedGroups[cat] = groups[cat]; });
+  Object.keys(groups).forEach(cat => { if (!sortedGroups[cat]) sortedGroups[cat] = groups[cat]; });
+  return sortedGroups;
+};
@@ -0,0 +1,140 @@
+// Trip date resolution.
+// Turns exact dates, relative timing ("next_weekend", "in_two_weeks") or a travel month into concrete
+// YYYY-MM-DD start/end dates. All arithmetic is on calendar dates, with "today" taken in the user's
+// timezone, so a request at 11pm in Sydney doesn't resolve against yesterday's UTC date.
+import { parseMonthName } from "./gazetteer.js";
+
+export type DepartureTiming =
+  | "this_week" | "next_week" | "in_two_weeks" | "in_three_weeks"
+  | "this_weekend" | "next_weekend" | "next_month" | "in_two_months";
+
+export interface TripDateInput {
+  startDate?: string;
+  endDate?: string;
+  departureTiming?: DepartureTiming;
+  tripMonth?: string;
+  tripDuration?: number; // Days, if the user gave a length
+}
+
+export interface ResolvedTripDates {
+  startDate: string | null;
+  endDate: string | null;
+  tripDuration: number;
+  source: "exact" | "relative" | "month" | "duration" | "none";
+  today: string;
+  timeZone: string;
+  warnings: string[];
+}
+
+const DEFAULT_DURATION = 7;
+const WEEKEND_DURATION = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const toIso = (d: Date) => d.toISOString().slice(0, 10);
+export const addDays = (iso: string, days: number) => toIso(new Date(toDate(iso).getTime() + days * DAY_MS));
+export const daysBetween = (from: string, to: string) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+
+// A real calendar date in YYYY-MM-DD form (rejects 2026-02-30)
+export const isValidIsoDate = (s?: string): s is string =>
+  Boolean(s && /^\d{4}-\d{2}-\d{2}$/.test(s) && toIso(toDate(s)) === s);
+
+// Today's date in an IANA timezone; UTC if the zone is missing or unknown
+export const todayIn = (timeZone?: string, now = new Date()): { today: string; timeZone: string } => {
+  if (timeZone) {
+    try {
+      // en-CA formats as YYYY-MM-DD
+      return { today: new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now), timeZone };
+    } catch {
+      // Unknown zone - fall through to UTC
+    }
+  }
+  return { today: toIso(now), timeZone: "UTC" };
+};
+
+// Minutes ahead of UTC in an IANA timezone at noon UTC on a date (so DST on that date counts); null if unknown
+export const utcOffsetMinutes = (timeZone: string, iso: string): number | null => {
+  try {
+    const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+      .formatToParts(new Date(`${iso}T12:00:00Z`)).find(p => p.type === "timeZoneName")?.value || "";
+    const match = name.match(/GMT(?:([+-])(\d{2}):(\d{2}))?$/);
+    if (!match) return null;
+    return match[1] ? (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+  } catch {
+    return null;
+  }
+};
+
+// Next Saturday strictly after today, plus whole weeks
+const nextSaturday = (today: string, weeksAhead: number) => {
+  const dow = toDate(today).getUTCDay();
+  let daysUntil = 6 - dow;
+  if (daysUntil <= 0) daysUntil += 7;
+  return addDays(today, daysUntil + weeksAhead * 7);
+};
+
+const firstOfMonthFrom = (today: string, monthsAhead: number) => {
+  const d = toDate(today);
+  return toIso(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + monthsAhead, 1)));
+};
+
+// The next 1st of the named month; this year's only if it hasn't started yet
+const firstOfNamedMonth = (today: string, month: number) => {
+  const d = toDate(today);
+  const passed = month < d.getUTCMonth() || (month === d.getUTCMonth() && d.getUTCDate() > 1);
+  return toIso(new Date(Date.UTC(d.getUTCFullYear() + (passed ? 1 : 0), month, 1)));
+};
+
+// Start offsets leave some prep time: "in two weeks" starts a week out, matching how the widget always read it
+const RELATIVE_STARTS: Record<DepartureTiming, (today: string) => string> = {
+  this_week: today => addDays(today, 1),
+  next_week: today => addDays(today, 7),
+  in_two_weeks: today => addDays(today, 7),
+  in_three_weeks: today => addDays(today, 14),
+  this_weekend: today => nextSaturday(today, 0),
+  next_weekend: today => nextSaturday(today, 1),
+  next_month: today => firstOfMonthFrom(today, 1),
+  in_two_months: today => firstOfMonthFrom(today, 2),
+};
+
+// Priority: exact dates, then relative timing, then the travel month, then "starts tomorrow" when only a length is known
+export const resolveTripDates = (input: TripDateInput, timeZone?: string, now = new Date()): ResolvedTripDates => {
+  const { today, timeZone: zone } = todayIn(timeZone, now);
+  const warnings: string[] = [];
+  const weekend = input.departureTiming === "this_weekend" || input.departureTiming === "next_weekend";
+  let duration = input.tripDuration && input.tripDuration > 0 ? Math.round(input.tripDuration) : weekend ? WEEKEND_DURATION : DEFAULT_DURATION;
+
+  let startDate: string | null = null;
+  let endDate: string | null = null;
+  let source: ResolvedTripDates["source"] = "none";
+
+  if (input.startDate && !isValidIsoDate(input.startDate)) warnings.push(`Ignored start date "${input.startDate}": expected a real date as YYYY-MM-DD.`);
+  if (input.endDate && !isValidIsoDate(input.endDate)) warnings.push(`Ignored end date "${input.endDate}": expected a real date as YYYY-MM-DD.`);
+
+  if (isValidIsoDate(input.startDate)) {
+    startDate = input.startDate;
+    source = "exact";
+    if (isValidIsoDate(input.endDate)) {
+      if (daysBetween(startDate, input.endDate) >= 0) {
+        endDate = input.endDate;
+        duration = daysBetween(startDate, endDate) + 1;
+      } else {
+        warnings.push(`End date ${input.endDate} is before start date ${startDate}; used a ${duration}-day trip instead.`);
+      }
+    }
+  } else if (input.departureTiming && RELATIVE_STARTS[input.departureTiming]) {
+    startDate = RELATIVE_STARTS[input.departureTiming](today);
+    source = "relative";
+  } else if (parseMonthName(input.tripMonth) !== undefined) {
+    startDate = firstOfNamedMonth(today, parseMonthName(input.tripMonth)!);
+    source = "month";
+  } else if (input.tripDuration) {
+    startDate = addDays(today, 1);
+    source = "duration";
+  }
+
+  if (startDate && !endDate) endDate = addDays(startDate, duration - 1);
+  if (startDate && daysBetween(today, startDate) < 0) warnings.push(`Start date ${startDate} is in the past.`);
+
+  return { startDate, endDate, tripDuration: duration, source, today, timeZone: zone, warnings };
+};
@@ -0,0 +1,276 @@
+// Entry requirements by nationality and destination country.
+// Visa / travel-authorization / passport-validity rules live in shared/data/entry-requirements.json;
+// this module resolves them for a trip and turns them into document items and pre-departure tasks.
+import { z } from "zod";
+import entryFile from "./data/entry-requirements.json" with { type: "json" };
+import { lookupDestination, normalizePlaceName } from "./gazetteer.js";
+import { addDays, isValidIsoDate } from "./dates.js";
+import type { ChecklistItem } from "./checklist.js";
+
+export type EntryType = "none" | "id_card" | "eta" | "evisa" | "visa_on_arrival" | "visa";
+
+const requirementSchema = z.object({
+  for: z.array(z.string()).min(1),
+  type: z.enum(["none", "id_card", "eta", "evisa", "visa_on_arrival", "visa"]),
+  name: z.string().optional(),
+  leadDays: z.number().int().nonnegative().optional(),
+  maxStayDays: z.number().int().positive().optional(),
+  url: z.string().url().optional(),
+  note: z.string().optional(),
+}).strict();
+
+const extraSchema = z.object({
+  name: z.string(),
+  leadDays: z.number().int().nonnegative(),
+  essential: z.boolean(),
+  note: z.string().optional(),
+  for: z.array(z.string()).optional(),
+}).strict();
+
+const passportSchema = z.object({
+  validity: z.union([
+    z.literal("stay"),
+    z.object({ months: z.number().int().positive(), from: z.enum(["arrival", "departure"]) }).strict(),
+  ]),
+  blankPages: z.number().int().nonnegative(),
+  note: z.string().optional(),
+}).strict();
+
+const destinationSchema = z.union([
+  z.object({ passport: passportSchema, requirements: z.array(requirementSchema).min(1), extras: z.array(extraSchema).optional() }).strict(),
+  z.object({ zone: z.string() }).strict(),
+  z.object({ territoryOf: z.string() }).strict(),
+]);
+
+const entryFileSchema = z.object({
+  version: z.literal(1),
+  countries: z.record(z.string().regex(/^[A-Z]{2}$/), z.object({ name: z.string(), demonym: z.string(), aliases: z.array(z.string()) }).strict()),
+  groups: z.record(z.string(), z.array(z.string())),
+  destinations: z.record(z.string(), destinationSchema),
+}).strict();
+
+type EntryData = z.infer<typeof entryFileSchema>;
+export type EntryRequirement = z.infer<typeof requirementSchema>;
+export type PassportRule = z.infer<typeof passportSchema>;
+export type EntryExtra = z.infer<typeof extraSchema>;
+
+// Parse, then check every cross-reference (groups, zones, nationality codes) so typos fail at load
+const loadEntryData = (raw: unknown): EntryData => {
+  const parsed = entryFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/entry-requirements.json: ${issues.join("; ")}`);
+  }
+  const data = parsed.data;
+  const problems: string[] = [];
+  const checkCodes = (codes: string[], at: string) => codes.forEach(c => {
+    if (c === "*") return;
+    if (c.startsWith("@") ? !data.groups[c.slice(1)] : !data.countries[c]) problems.push(`${at}: unknown ${c.startsWith("@") ? "group" : "country"} "${c}"`);
+  });
+  Object.entries(data.groups).forEach(([g, codes]) => checkCodes(codes, `groups.${g}`));
+  Object.entries(data.destinations).forEach(([code, dest]) => {
+    if ("zone" in dest && !data.destinations[dest.zone]) problems.push(`destinations.${code}: unknown zone "${dest.zone}"`);
+    if ("territoryOf" in dest && !data.destinations[dest.territoryOf]) problems.push(`destinations.${code}: unknown country "${dest.territoryOf}"`);
+    if ("requirements" in dest) {
+      dest.requirements.forEach((r, i) => checkCodes(r.for, `destinations.${code}.requirements[${i}].for`));
+      if (!dest.requirements.some(r => r.for.includes("*"))) problems.push(`destinations.${code}: needs a catch-all "*" requirement`);
+    }
+  });
+  if (problems.length > 0) throw new Error(`Invalid shared/data/entry-requirements.json:\n  ${problems.join("\n  ")}`);
+  return data;
+};
+
+const ENTRY_DATA = loadEntryData(entryFile);
+
+export const COUNTRIES = ENTRY_DATA.countries;
+
+// ============ COUNTRY RESOLUTION ============
+const countryIndex = new Map<string, string>();
+Object.entries(COUNTRIES).forEach(([code, c]) => {
+  [code, c.name, c.demonym, ...c.aliases].forEach(n => countryIndex.set(normalizePlaceName(n), code));
+});
+
+// "US", "usa", "American", "United States" -> "US"
+export const resolveCountry = (text?: string): string | null => {
+  if (!text) return null;
+  return countryIndex.get(normalizePlaceName(text)) ?? null;
+};
+
+// Destination country from free text: gazetteer first, then any comma part naming a country
+export const destinationCountryOf = (destination: string): string | null => {
+  const place = lookupDestination(destination);
+  if (place?.countryCode) return place.countryCode;
+  const parts = (destination || "").split(",").map(p => p.trim()).reverse();
+  for (const part of parts) {
+    const code = resolveCountry(part);
+    if (code) return code;
+  }
+  return null;
+};
+
+const expandGroup = (codes: string[], seen = new Set<string>()): string[] =>
+  codes.flatMap(c => {
+    if (!c.startsWith("@")) return [c];
+    if (seen.has(c)) return [];
+    seen.add(c);
+    return expandGroup(ENTRY_DATA.groups[c.slice(1)], seen);
+  });
+
+// Country groups ("@EU", "@EEA") for other data files to refer to
+export const COUNTRY_GROUPS = ENTRY_DATA.groups;
+export const expandCountryCodes = (codes: string[]): string[] => expandGroup(codes);
+
+// ============ RESOLUTION ============
+export interface EntryCheck {
+  nationality: { code: string; name: string } | null;
+  destination: { code: string; name: string } | null;
+  known: boolean;      // Both countries are covered by the dataset
+  domestic: boolean;   // Citizens travelling within their own country
+  requirement: EntryRequirement | null;
+  passport: (PassportRule & { validUntil?: string; summary: string }) | null;
+  extras: EntryExtra[];
+  summary: string;
+}
+
+const addMonths = (iso: string, months: number) => {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+};
+
+const describePassport = (rule: PassportRule) => {
+  const validity = rule.validity === "stay"
+    ? "valid for your whole stay"
+    : `valid ${rule.validity.months} month${rule.validity.months === 1 ? "" : "s"} beyond ${rule.validity.from === "arrival" ? "arrival" : "departure"}`;
+  return rule.blankPages > 1 ? `${validity}, ${rule.blankPages} blank pages` : validity;
+};
+
+const ENTRY_LABELS: Record<EntryType, string> = {
+  none: "No visa needed",
+  id_card: "National ID card accepted",
+  eta: "Electronic travel authorization required",
+  evisa: "e-Visa required",
+  visa_on_arrival: "Visa on arrival",
+  visa: "Visa required",
+};
+
+export const checkEntryRequirements = (
+  nationalityCode: string,
+  destinationCode: string,
+  dates: { startDate?: string; endDate?: string } = {}
+): EntryCheck => {
+  const nat = COUNTRIES[nationalityCode];
+  const destCountry = COUNTRIES[destinationCode];
+  const nationality = nat ? { code: nationalityCode, name: nat.name } : null;
+  const destination = destCountry ? { code: destinationCode, name: destCountry.name } : null;
+
+  let entry = ENTRY_DATA.destinations[destinationCode];
+  let sovereign = destinationCode;
+  if (entry && "territoryOf" in entry) {
+    sovereign = entry.territoryOf;
+    entry = ENTRY_DATA.destinations[sovereign];
+  }
+  if (entry && "zone" in entry) entry = ENTRY_DATA.destinations[entry.zone];
+
+  const empty = { requirement: null, passport: null, extras: [] };
+  if (!nationality || !destination || !entry || !("requirements" in entry)) {
+    return { nationality, destination, known: false, domestic: false, ...empty, summary: "No entry-requirement data for this combination; check the destination's official immigration site." };
+  }
+  if (nationalityCode === sovereign) {
+    return { nationality, destination, known: true, domestic: true, ...empty, summary: `${nat.name} citizens don't need a visa for ${destCountry.name}.` };
+  }
+
+  const requirement = entry.requirements.find(r => r.for.includes("*") || expandGroup(r.for).includes(nationalityCode))!;
+  const extras = (entry.extras || []).filter(x => !x.for || expandGroup(x.for).includes(nationalityCode));
+
+  let validUntil: string | undefined;
+  const { validity } = entry.passport;
+  if (validity === "stay") {
+    if (isValidIsoDate(dates.endDate)) validUntil = dates.endDate;
+  } else {
+    const base = validity.from === "arrival" ? dates.startDate : dates.endDate;
+    if (isValidIsoDate(base)) validUntil = addMonths(base, validity.months);
+  }
+  const passport = { ...entry.passport, validUntil, summary: describePassport(entry.passport) };
+
+  const what = requirement.name ? `${ENTRY_LABELS[requirement.type]}: ${requirement.name}` : ENTRY_LABELS[requirement.type];
+  const stay = requirement.maxStayDays ? ` (stays up to ${requirement.maxStayDays} days)` : "";
+  const summary = `${nat.name} citizens visiting ${destCountry.name}: ${what}${stay}. Passport ${passport.summary}.`;
+
+  return { nationality, destination, known: true, domestic: false, requirement, passport, extras, summary };
+};
+
+// ============ CHECKLIST ITEMS ============
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+export const shortDate = (iso: string) => `${MONTHS[Number(iso.slice(5, 7)) - 1]} ${Number(iso.slice(8, 10))}, ${iso.slice(0, 4)}`;
+
+// Passport renewals can take weeks, so flag validity problems well ahead of the trip
+const PASSPORT_CHECK_LEAD_DAYS = 42;
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+// Document items and pre-departure tasks for one nationality
+export const entryChecklistItems = (check: EntryCheck, startDate?: string): ChecklistItem[] => {
+  if (!check.known || check.domestic || !check.requirement || !check.passport) return [];
+  const { requirement, passport } = check;
+  const due = (leadDays: number) => {
+    if (!isValidIsoDate(startDate)) return { reason: `At least ${leadDays} day${leadDays === 1 ? "" : "s"} before departure` };
+    const dueDate = addDays(startDate, -leadDays);
+    return { dueDate, reason: `Do by ${shortDate(dueDate)} (${leadDays} day${leadDays === 1 ? "" : "s"} before departure)` };
+  };
+  const items: ChecklistItem[] = [];
+
+  items.push({
+    id: "doc-passport",
+    name: requirement.type === "id_card" ? "Passport or national ID card" : "Passport",
+    category: "documents",
+    essential: true,
+    checked: false,
+    reason: [
+      passport.validUntil ? `Must be valid until at least ${shortDate(passport.validUntil)}` : `Must be ${passport.summary}`,
+      passport.blankPages > 1 && passport.validUntil ? `${passport.blankPages} blank pages` : "",
+      passport.note || "",
+    ].filter(Boolean).join(". "),
+  });
+
+  if (requirement.type !== "none" && requirement.type !== "id_card") {
+    const name = requirement.name || "Visa";
+    const docName = {
+      eta: `${name} approval`,
+      evisa: `${name} (printed approval)`,
+      visa: `${name} in passport`,
+      visa_on_arrival: "Return ticket & hotel booking (needed for visa on arrival)",
+    }[requirement.type];
+    items.push({ id: "doc-entry", name: docName, category: "documents", essential: true, checked: false, ...(requirement.note ? { reason: requirement.note } : {}) });
+    if (requirement.leadDays !== undefined) {
+      items.push({ id: "pre-entry-apply", name: `Apply for ${name}`, category: "preDeparture", essential: true, checked: false, ...due(requirement.leadDays) });
+    }
+  }
+
+  if (passport.validity !== "stay") {
+    items.push({
+      id: "pre-passport-validity",
+      name: "Check passport expiry",
+      category: "preDeparture",
+      essential: true,
+      checked: false,
+      ...due(PASSPORT_CHECK_LEAD_DAYS),
+      reason: `${check.destination!.name} requires it to be ${passport.summary}. ${due(PASSPORT_CHECK_LEAD_DAYS).reason}`,
+    });
+  }
+
+  check.extras.forEach(extra => {
+    const timing = due(extra.leadDays);
+    items.push({
+      id: `pre-entry-${slug(extra.name).slice(0, 40)}`,
+      name: `Submit ${extra.name}`,
+      category: "preDeparture",
+      essential: extra.essential,
+      checked: false,
+      ...timing,
+      reason: [extra.note, timing.reason].filter(Boolean).join(" "),
+    });
+  });
+
+  return items;
+};
@@ -0,0 +1,347 @@
+// Offline destination gazetteer.
+// Bundled place data (shared/data/gazetteer.json) with location, elevation, coast and monthly
+// climate normals, so destination classification doesn't depend on string matching or the network.
+import { z } from "zod";
+import gazetteerFile from "./data/gazetteer.json" with { type: "json" };
+
+export type Hemisphere = "north" | "south";
+export type PlaceKind = "city" | "resort" | "region" | "range" | "country";
+
+export interface MonthlyNormals {
+  tempC: number[];    // Mean temperature per month, Jan..Dec
+  precipMm: number[]; // Mean precipitation per month, Jan..Dec
+  humidity: number[]; // Mean relative humidity per month (%), Jan..Dec
+}
+
+export interface Destination {
+  id: string;
+  name: string;
+  kind: PlaceKind;
+  country: string;     // "" for areas spanning several countries (e.g. the Alps)
+  countryCode: string; // ISO 3166-1 alpha-2, "" when country is ""
+  region: string;      // State / province, or the wider area for country-level entries
+  lat: number;
+  lon: number;
+  hemisphere: Hemisphere;
+  elevation: number;   // Meters
+  timeZone: string;    // IANA zone, for the medication schedule's time difference
+  coastal: boolean;
+  tags: string[];      // "beach", "island", "ski", "mountain"
+  aliases: string[];
+  normals: MonthlyNormals;
+}
+
+const twelve = z.array(z.number()).length(12);
+
+const isKnownTimeZone = (zone: string) => {
+  try { new Intl.DateTimeFormat("en-US", { timeZone: zone }); return true; } catch { return false; }
+};
+
+const placeSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  kind: z.enum(["city", "resort", "region", "range", "country"]),
+  country: z.string(),
+  countryCode: z.string().regex(/^([A-Z]{2})?$/),
+  region: z.string(),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  elevation: z.number(),
+  timeZone: z.string().refine(isKnownTimeZone, "unknown IANA timezone"),
+  coastal: z.boolean(),
+  tags: z.array(z.enum(["beach", "island", "ski", "mountain"])),
+  aliases: z.array(z.string()),
+  normals: z.object({ tempC: twelve, precipMm: twelve, humidity: z.array(z.number().min(0).max(100)).length(12) }).strict(),
+}).strict();
+
+// Countries and their states / provinces, only for reading the rest of a query ("Paris, Texas, USA").
+// Countries the places are in are known already; these add other names for them and the subdivisions.
+const areaSchema = z.object({
+  name: z.string().min(1),
+  countryCode: z.string().regex(/^[A-Z]{2}$/),
+  kind: z.enum(["country", "region"]),
+  aliases: z.array(z.string()),
+}).strict();
+
+export type Area = z.infer<typeof areaSchema>;
+
+const gazetteerSchema = z.object({
+  version: z.literal(1),
+  places: z.array(placeSchema),
+  areas: z.array(areaSchema),
+}).strict();
+
+// The id of a raw places entry, to name it in errors
+const rawPlaceId = (raw: unknown, index: string | number | undefined) => {
+  const places = raw && typeof raw === "object" && "places" in raw ? raw.places : undefined;
+  const place: unknown = Array.isArray(places) && typeof index === "number" ? places[index] : undefined;
+  return place && typeof place === "object" && "id" in place && typeof place.id === "string" ? place.id : undefined;
+};
+
+const loadGazetteer = (raw: unknown): { places: Destination[]; areas: Area[] } => {
+  const parsed = gazetteerSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => {
+      const [list, index, ...rest] = i.path;
+      const place = list === "places" ? rawPlaceId(raw, index) : undefined;
+      return `${place ? `places[${index}] "${place}"` : i.path.slice(0, 2).join(".")}${rest.length ? "." + rest.join(".") : ""}: ${i.message}`;
+    });
+    throw new Error(`Invalid shared/data/gazetteer.json: ${issues.join("; ")}`);
+  }
+  return {
+    places: parsed.data.places.map(p => ({ ...p, hemisphere: p.lat < 0 ? "south" : "north" })),
+    areas: parsed.data.areas,
+  };
+};
+
+const GAZETTEER = loadGazetteer(gazetteerFile);
+
+export const DESTINATIONS: Destination[] = GAZETTEER.places;
+
+// ============ LOOKUP ============
+export const normalizePlaceName = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+    .replace(/[^a-z0-9,\s-]/g, " ").replace(/\s+/g, " ").trim();
+
+// Display label, matching the "City, Country" / "City, State, USA" format the autocomplete uses
+export const formatDestination = (d: Destination): string => {
+  if (d.kind === "country" || !d.country) return d.name;
+  if (d.countryCode === "US") return d.kind === "city" || d.kind === "resort" ? `${d.name}, ${d.region}, USA` : `${d.name}, USA`;
+  return `${d.name}, ${d.country}`;
+};
+
+const namesOf = (d: Destination) => [d.name, ...d.aliases].map(normalizePlaceName);
+
+const byName = new Map<string, Destination[]>();
+const byLabel = new Map<string, Destination>();
+DESTINATIONS.forEach(d => {
+  namesOf(d).forEach(n => byName.set(n, [...(byName.get(n) || []), d]));
+  byLabel.set(normalizePlaceName(formatDestination(d)), d);
+});
+
+// Everything a country or region is called, so "Texas", "TX", "USA" and "Canada" can be told apart
+const byArea = new Map<string, Area[]>();
+const addArea = (name: string, area: Area) => {
+  const key = normalizePlaceName(name);
+  byArea.set(key, [...(byArea.get(key) || []), area]);
+};
+GAZETTEER.areas.forEach(area => [area.name, ...area.aliases].forEach(n => addArea(n, area)));
+new Map(DESTINATIONS.filter(d => d.countryCode).map(d => [d.countryCode, d.country])).forEach((country, countryCode) => {
+  const area = { name: country, countryCode, kind: "country" as const, aliases: [] };
+  [country, countryCode].forEach(n => addArea(n, area));
+});
+
+// The countries or regions a comma part or phrase names ("Georgia" is both); empty if it isn't one
+export const lookupAreas = (text: string): Area[] => byArea.get(normalizePlaceName(text || "")) || [];
+
+// Places spanning several countries (the Alps) can't be ruled out by a country
+const isIn = (d: Destination, areas: Area[]) =>
+  !d.countryCode || areas.some(a => a.countryCode === d.countryCode && (a.kind === "country" || normalizePlaceName(a.name) === normalizePlaceName(d.region)));
+
+// The first candidate in every country or region the rest of the query names. Parts that aren't
+// countries or regions say nothing; with none of those this is the first candidate, and it's null
+// when the query places the name somewhere none of the candidates are ("Paris, Texas").
+const pickCandidate = (candidates: Destination[], context: Area[][]) =>
+  candidates.find(d => context.every(areas => isIn(d, areas))) || null;
+
+// Countries and regions right after a name in free text ("Bali Indonesia", "Paris Texas USA").
+// Two-letter codes don't count here, so "Rome in June" isn't Rome, Indiana.
+const areasAfter = (rest: string) => {
+  const context: Area[][] = [];
+  for (let words = rest.trim().split(" "); words.length > 0;) {
+    const n = [4, 3, 2, 1].find(n => n <= words.length && words.slice(0, n).join(" ").length >= 3 && byArea.has(words.slice(0, n).join(" ")));
+    if (!n) break;
+    context.push(byArea.get(words.slice(0, n).join(" "))!);
+    words = words.slice(n);
+  }
+  return context;
+};
+
+// Names that are also everyday words ("Nice weather") need their country or region next to them in free text
+const EVERYDAY_WORDS = new Set(["nice"]);
+
+// Resolve free text ("Miami, Florida, USA", "Paris France", "ski week in Zermatt") to a gazetteer entry
+export const lookupDestination = (query: string): Destination | null => {
+  const q = normalizePlaceName(query || "");
+  if (!q) return null;
+  if (byLabel.has(q)) return byLabel.get(q)!;
+
+  // Comma-separated parts, most specific first
+  const parts = q.split(",").map(p => p.trim()).filter(Boolean);
+  for (let i = 0; i < parts.length; i++) {
+    const candidates = byName.get(parts[i]);
+    if (candidates) return pickCandidate(candidates, parts.slice(i + 1).map(lookupAreas).filter(areas => areas.length > 0));
+  }
+
+  // Otherwise the longest known name that appears as whole words anywhere in the text
+  // ("Bali Indonesia", "ski week in Zermatt"). Short names only count at the start,
+  // so "a nice beach town" doesn't land in Nice.
+  const words = ` ${q.replace(/,/g, " ").replace(/\s+/g, " ")} `;
+  let best: { name: string; places: Destination[] } | null = null;
+  for (const [name, places] of byName) {
+    const fits = words.startsWith(` ${name} `) ? name.length >= 3 : name.length >= 5 && words.includes(` ${name} `);
+    if (fits && (!best || name.length > best.name.length)) best = { name, places };
+  }
+  if (!best) return null;
+  const context = areasAfter(words.slice(words.indexOf(` ${best.name} `) + best.name.length + 1));
+  if (EVERYDAY_WORDS.has(best.name) && context.length === 0) return null;
+  return pickCandidate(best.places, context);
+};
+
+// Offline suggestions for the destination autocomplete, best matches first
+export const searchGazetteer = (query: string, limit = 8): Destination[] => {
+  const q = normalizePlaceName(query || "");
+  if (q.length < 2) return [];
+  const scored: { d: Destination; score: number }[] = [];
+  DESTINATIONS.forEach(d => {
+    const names = namesOf(d);
+    let score = 0;
+    if (names[0] === q) score = 4;
+    else if (names[0].startsWith(q)) score = 3;
+    else if (names.some(n => n.startsWith(q))) score = 2;
+    else if (normalizePlaceName(formatDestination(d)).startsWith(q) || names.some(n => n.includes(` ${q}`))) score = 1;
+    if (score > 0) scored.push({ d, score });
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit).map(s => s.d);
+};
+
+// ============ CLASSIFICATION ============
+export interface DestinationClimate {
+  isCold: boolean;     // Freezing-ish: pack for winter
+  isBeach: boolean;    // Beach destination in beach weather
+  isTropical: boolean; // Inside the tropics and warm
+  tempC: number;       // Mean temperature for the month (or the year if no month)
+  precipMm: number;
+}
+
+// Classify a destination for a month (0-11). Without a month, annual means are used.
+export const classifyDestination = (d: Destination, month?: number): DestinationClimate => {
+  const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const known = month !== undefined && month >= 0 && month < 12;
+  const tempC = known ? d.normals.tempC[month] : avg(d.normals.tempC);
+  const precipMm = known ? d.normals.precipMm[month] : avg(d.normals.precipMm);
+  const isTropical = Math.abs(d.lat) <= 23.5 && tempC >= 22;
+  return {
+    isCold: tempC <= 5,
+    isBeach: d.coastal && d.tags.includes("beach") && (!known || tempC >= 20),
+    isTropical,
+    tempC,
+    precipMm,
+  };
+};
+
+// Month (0-11) of an ISO date string, if there is one
+export const monthOf = (isoDate?: string): number | undefined => {
+  const m = /^\d{4}-(\d{2})/.exec(isoDate || "");
+  return m ? Number(m[1]) - 1 : undefined;
+};
+
+const MONTH_NAMES = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+// Month (0-11) from a name or abbreviation ("December", "dec", "Sept")
+export const parseMonthName = (text?: string): number | undefined => {
+  const t = (text || "").trim().toLowerCase().replace(/\.$/, "");
+  const index = t.length >= 3 ? MONTH_NAMES.findIndex(m => m.startsWith(t)) : -1;
+  return index >= 0 ? index : undefined;
+};
+
+// ============ CLIMATE RESOLUTION ============
+export type ResolvedSeason = "summer" | "winter" | "spring" | "tropical";
+
+export interface ClimateResolution {
+  climate: ResolvedSeason;
+  month: number;          // 0-11
+  monthAssumed: boolean;  // No travel month given; the current month was used
+  hemisphere: Hemisphere;
+  calendarSeason: "winter" | "spring" | "summer" | "autumn";
+  tempC: number;
+  explanation: string;    // One line for the UI / assistant
+}
+
+const CALENDAR_SEASONS = ["winter", "winter", "spring", "spring", "spring", "summer", "summer", "summer", "autumn", "autumn", "autumn", "winter"] as const;
+const PACKING_LABELS: Record<ResolvedSeason, string> = {
+  summer: "warm weather",
+  winter: "cold weather",
+  spring: "mild weather",
+  tropical: "hot, humid weather",
+};
+
+// Calendar season at a place: southern-hemisphere seasons are six months off the northern ones
+export const calendarSeasonOf = (hemisphere: Hemisphere, month: number) =>
+  CALENDAR_SEASONS[hemisphere === "south" ? (month + 6) % 12 : month];
+
+// What to pack for at a place in a month, from its normals rather than the month's name:
+// Sydney in December is summer, Quito is mild all year, Zermatt in June is still chilly at altitude.
+export const resolveClimate = (d: Destination, month: number | undefined, fallbackMonth: number): ClimateResolution => {
+  const monthAssumed = month === undefined;
+  const m = month ?? fallbackMonth;
+  const normals = classifyDestination(d, m);
+  const climate: ResolvedSeason = normals.isTropical ? "tropical" : normals.isCold ? "winter" : normals.tempC >= 20 ? "summer" : "spring";
+  const calendarSeason = calendarSeasonOf(d.hemisphere, m);
+  const monthName = MONTH_NAMES[m][0].toUpperCase() + MONTH_NAMES[m].slice(1);
+  const when = monthAssumed ? `${monthName} (no travel dates yet)` : monthName;
+  const season = Math.abs(d.lat) <= 23.5 ? "the tropics" : `${calendarSeason} in the ${d.hemisphere}ern hemisphere`;
+  return {
+    climate,
+    month: m,
+    monthAssumed,
+    hemisphere: d.hemisphere,
+    calendarSeason,
+    tempC: Math.round(normals.tempC),
+    explanation: `${d.name} in ${when}: ${season}, averaging ${Math.round(normals.tempC)}°C. Packing for ${PACKING_LABELS[climate]}.`,
+  };
+};
+
+// ============ MONTHLY CLIMATE ============
+// Typical weather for a month at a place, for trips beyond the forecast horizon
+export interface MonthClimate {
+  month: number;        // 0-11
+  tempC: number;        // Mean
+  minTemp: number;      // Typical low
+  maxTemp: number;      // Typical high
+  precipMm: number;
+  rainChance: number;   // Rough daily chance of rain, %
+  humidity: number;     // Relative humidity, %
+  daylightHours: number;
+}
+
+// Hours from sunrise to sunset in the middle of a month (0-11), from latitude alone
+export const daylightHours = (lat: number, month: number): number => {
+  const dayOfYear = 15 + month * 30.4;
+  const declination = 23.44 * Math.sin((2 * Math.PI * (284 + dayOfYear)) / 365);
+  const cosHourAngle = -Math.tan((lat * Math.PI) / 180) * Math.tan((declination * Math.PI) / 180);
+  // Beyond ±1 the sun doesn't set (midnight sun) or doesn't rise (polar night)
+  const hourAngle = Math.acos(Math.max(-1, Math.min(1, cosHourAngle)));
+  return Math.round(((2 * hourAngle * 180) / Math.PI / 15) * 10) / 10;
+};
+
+export const monthClimate = (d: Destination, month: number): MonthClimate => {
+  const tempC = d.normals.tempC[month];
+  const humidity = d.normals.humidity[month];
+  // Dry air swings more between day and night than humid air
+  const halfRange = humidity < 50 ? 7 : humidity < 70 ? 5 : 4;
+  return {
+    month,
+    tempC: Math.round(tempC),
+    minTemp: Math.round(tempC - halfRange),
+    maxTemp: Math.round(tempC + halfRange),
+    precipMm: d.normals.precipMm[month],
+    // 150 mm a month is about one day in two
+    rainChance: Math.min(90, Math.round(d.normals.precipMm[month] / 3)),
+    humidity,
+    daylightHours: daylightHours(d.lat, month),
+  };
+};
+
+// The closest bundled place to a geocoded point, if it's near enough to share its climate
+export const nearestDestination = (lat: number, lon: number, maxKm = 250): Destination | null => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const km = (d: Destination) => {
+    const a = Math.sin(rad(d.lat - lat) / 2) ** 2 + Math.cos(rad(lat)) * Math.cos(rad(d.lat)) * Math.sin(rad(d.lon - lon) / 2) ** 2;
+    return 12742 * Math.asin(Math.sqrt(a));
+  };
+  // Cities over the regions and countries that contain them
+  const candidates = DESTINATIONS.filter(d => d.kind === "city" || d.kind === "resort").map(d => ({ d, km: km(d) }));
+  const best = candidates.sort((a, b) => a.km - b.km)[0];
+  return best && best.km <= maxKm ? best.d : null;
+};
@@ -0,0 +1,81 @@
+// Laundry-aware clothing quantities.
+// A trip is packed for one wash cycle, not for every day: with weekly laundry a 21-day trip needs the
+// same underwear as a 7-day one, and with no laundry at all it needs 21 days' worth. Garments that can
+// be worn more than once between washes (jeans, sweaters) are divided by their rewear factor.
+
+export type LaundryFrequency = "none" | "weekly" | "every_n_days" | "hotel";
+
+export const LAUNDRY_OPTIONS: { value: LaundryFrequency; label: string }[] = [
+  { value: "none", label: "No laundry" },
+  { value: "weekly", label: "Weekly" },
+  { value: "every_n_days", label: "Every few days" },
+  { value: "hotel", label: "Hotel laundry" },
+];
+
+export const DEFAULT_LAUNDRY: LaundryFrequency = "weekly";
+const DEFAULT_EVERY_DAYS = 4;
+// Hotel laundry goes out one day and is back the next, so one load covers about three days
+const HOTEL_INTERVAL = 3;
+
+// Days between washes, before capping to the trip
+export const washIntervalDays = (frequency: LaundryFrequency = DEFAULT_LAUNDRY, everyDays?: number): number => {
+  switch (frequency) {
+    case "none": return Infinity;
+    case "weekly": return 7;
+    case "hotel": return HOTEL_INTERVAL;
+    case "every_n_days": return Math.max(2, Math.round(everyDays || DEFAULT_EVERY_DAYS));
+  }
+};
+
+export interface LaundryPlan {
+  frequency: LaundryFrequency;
+  intervalDays: number | null; // null when there's no laundry
+  wearDays: number;            // Days of clothing to carry: one cycle, or the whole trip
+  washes: number;              // Loads done during the trip
+}
+
+export const planLaundry = (tripDuration: number, frequency: LaundryFrequency = DEFAULT_LAUNDRY, everyDays?: number): LaundryPlan => {
+  const days = Math.max(1, Math.round(tripDuration || 1));
+  const interval = washIntervalDays(frequency, everyDays);
+  const wearDays = Math.min(days, interval);
+  return {
+    frequency,
+    intervalDays: Number.isFinite(interval) ? interval : null,
+    wearDays,
+    washes: wearDays < days ? Math.ceil(days / wearDays) - 1 : 0,
+  };
+};
+
+// share:  fraction of days this garment is the one being worn (dresses alternate with other outfits)
+// rewear: days worn before it needs washing
+// spare:  extra pieces on top of one cycle's worth
+interface GarmentWear { share: number; rewear: number; spare: number }
+
+export const GARMENTS = {
+  underwear: { share: 1, rewear: 1, spare: 1 },
+  socks: { share: 1, rewear: 1, spare: 1 },
+  bra: { share: 1, rewear: 2, spare: 1 },
+  top: { share: 1, rewear: 1, spare: 0 },
+  blouse: { share: 1, rewear: 2, spare: 0 },
+  tank: { share: 0.5, rewear: 1, spare: 0 },
+  shorts: { share: 1, rewear: 2, spare: 0 },
+  pants: { share: 1, rewear: 2, spare: 0 },
+  sweater: { share: 1, rewear: 2, spare: 0 },
+  layer: { share: 1, rewear: 1, spare: 0 },
+  dress: { share: 1 / 3, rewear: 1, spare: 0 },
+  skirt: { share: 1 / 4, rewear: 1, spare: 0 },
+  workout: { share: 1, rewear: 1, spare: 0 },
+} satisfies Record<string, GarmentWear>;
+
+export type GarmentType = keyof typeof GARMENTS;
+export const GARMENT_TYPES = Object.keys(GARMENTS) as [GarmentType, ...GarmentType[]];
+
+// Pieces of a garment worn on `daysWorn` days of one wash cycle
+export const garmentQuantityForDays = (garment: GarmentType, daysWorn: number): number => {
+  const { rewear, spare } = GARMENTS[garment];
+  return Math.max(1, Math.ceil(daysWorn / rewear) + spare);
+};
+
+// Pieces of a garment needed for one wash cycle of `wearDays`, when there's no outfit plan
+export const garmentQuantity = (garment: GarmentType, wearDays: number): number =>
+  garmentQuantityForDays(garment, wearDays * GARMENTS[garment].share);
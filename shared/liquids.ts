@@ -0,0 +1,88 @@
+// Carry-on liquids check (TSA 3-1-1 and the equivalent 100 ml rule elsewhere).
+// Each traveler gets one quart-size bag of containers up to 100 ml. Items tagged with a `liquid` spec in
+// shared/data/item-specs.json are sorted into what goes in the bag as is, what to decant into travel
+// bottles, what to buy at the destination and what has to go in checked baggage.
+import type { ChecklistItem, PackingConstraint } from "./checklist.js";
+import { getItemSpec, itemCount } from "./luggage.js";
+
+export const CONTAINER_LIMIT_ML = 100; // 3.4 oz
+export const QUART_BAG_ML = 950;       // What a quart bag holds once the containers are in it
+
+export type LiquidAction = "bag" | "decant" | "buy_there" | "check" | "declare";
+
+export interface LiquidLine {
+  id: string;
+  name: string;
+  form: "liquid" | "gel" | "aerosol";
+  ml: number;     // Full-size container
+  count: number;
+  action: LiquidAction;
+  bagMl: number;  // Space taken in the quart bag, for all pieces
+}
+
+export interface LiquidsCheck {
+  bags: number;       // One quart bag per traveler
+  capacityMl: number;
+  bagMl: number;      // After the suggested moves
+  neededMl: number;   // If everything that could go in the bag did
+  fits: boolean;      // Everything that can travel in the bag (as is or decanted) fits
+  lines: LiquidLine[];
+  summary: string;
+}
+
+// Cabin-only plans (carry-on only, or a backpack) are the ones the liquids rule constrains
+export const liquidsApply = (constraint: PackingConstraint) => constraint !== "checked_bags";
+
+export const checkLiquids = (items: ChecklistItem[], bags = 1): LiquidsCheck => {
+  const capacityMl = QUART_BAG_ML * Math.max(1, bags);
+  const lines: LiquidLine[] = [];
+  const buyable = new Set<string>();
+  items.forEach(item => {
+    const liquid = getItemSpec(item).liquid;
+    if (!liquid) return;
+    const count = itemCount(item);
+    const base = { id: item.id, name: item.name, form: liquid.form, ml: liquid.ml, count };
+    if (liquid.buy_there) buyable.add(item.id);
+    if (liquid.exempt) lines.push({ ...base, action: "declare", bagMl: 0 });
+    else if (liquid.ml <= CONTAINER_LIMIT_ML) lines.push({ ...base, action: "bag", bagMl: liquid.ml * count });
+    // A full-size sunscreen is cheaper to buy there than to ration into travel bottles
+    else if (liquid.buy_there) lines.push({ ...base, action: "buy_there", bagMl: 0 });
+    // Pressurised cans can't be decanted
+    else if (liquid.form === "aerosol") lines.push({ ...base, action: "check", bagMl: 0 });
+    else lines.push({ ...base, action: "decant", bagMl: CONTAINER_LIMIT_ML * count });
+  });
+
+  const neededMl = lines.reduce((sum, l) => sum + l.bagMl, 0);
+  let bagMl = neededMl;
+  // Over the bag: move out what can be bought there first, then the biggest containers
+  if (bagMl > capacityMl) {
+    const movable = lines
+      .filter(l => l.bagMl > 0)
+      .sort((a, b) => Number(buyable.has(b.id)) - Number(buyable.has(a.id)) || b.bagMl - a.bagMl);
+    for (const line of movable) {
+      if (bagMl <= capacityMl) break;
+      bagMl -= line.bagMl;
+      line.action = buyable.has(line.id) ? "buy_there" : "check";
+      line.bagMl = 0;
+    }
+  }
+
+  const fits = neededMl <= capacityMl;
+  const quart = bags > 1 ? `${bags} quart bags` : "one quart bag";
+  const moved = lines.filter(l => l.action === "buy_there" || l.action === "check").length;
+  const summary = lines.length === 0
+    ? "No liquids on the list."
+    : fits
+      ? `Liquids fit ${quart} (${neededMl} of ${capacityMl} ml)${moved ? `, with ${moved} full-size item${moved === 1 ? "" : "s"} bought there or checked` : ""}.`
+      : `Liquids need ${neededMl} ml but ${quart} holds ${capacityMl} ml; ${moved} item${moved === 1 ? "" : "s"} to buy there or check.`;
+
+  return { bags: Math.max(1, bags), capacityMl, bagMl, neededMl, fits, lines, summary };
+};
+
+export const LIQUID_ACTION_LABELS: Record<LiquidAction, string> = {
+  bag: "In the quart bag",
+  decant: `Decant into a ${CONTAINER_LIMIT_ML} ml bottle`,
+  buy_there: "Buy at the destination",
+  check: "Move to checked baggage",
+  declare: "Exempt: declare at security",
+};
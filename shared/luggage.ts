@@ -0,0 +1,144 @@
+// Luggage weight and volume estimates.
+// Typical per-unit weight and packed volume for catalog items live in shared/data/item-specs.json
+// (with per-category fallbacks for free-form items); this module totals a list against a bag's
+// capacity and, when it's over, picks the non-essential items to leave behind first.
+import { z } from "zod";
+import specsFile from "./data/item-specs.json" with { type: "json" };
+import type { ChecklistItem, PackingConstraint } from "./checklist.js";
+
+const specSchema = z.object({
+  grams: z.number().nonnegative(),
+  liters: z.number().nonnegative(),
+  carried: z.boolean().optional(), // Worn or carried separately on travel day (coat, boots, pet carrier)
+  // Liquids, gels and aerosols in their usual full-size container, for the carry-on liquids check (shared/liquids.ts)
+  liquid: z.object({
+    form: z.enum(["liquid", "gel", "aerosol"]),
+    ml: z.number().positive(),
+    buy_there: z.boolean().optional(),            // Cheap and sold everywhere
+    exempt: z.enum(["medical", "infant"]).optional(), // Allowed over the limit if declared at screening
+  }).strict().optional(),
+}).strict();
+
+const specsFileSchema = z.object({
+  version: z.literal(1),
+  categoryDefaults: z.record(z.string(), specSchema),
+  items: z.record(z.string().regex(/^[a-z0-9-]+$/), specSchema),
+}).strict();
+
+export type ItemSpec = z.infer<typeof specSchema>;
+
+const loadItemSpecs = (raw: unknown) => {
+  const parsed = specsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/item-specs.json: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+};
+
+const ITEM_SPECS = loadItemSpecs(specsFile);
+const FALLBACK_SPEC: ItemSpec = { grams: 200, liters: 0.5 };
+
+// Per-traveler lists prefix ids ("adult-1-cloth-bras", "adult-f-1-" on migrated trips); merged and labelled
+// items add suffixes ("tech-adapter-leg2", "doc-visa-gb"), so trailing segments are dropped until a known id matches
+export const getItemSpec = (item: Pick<ChecklistItem, "id" | "category">): ItemSpec => {
+  let id = item.id.replace(/^(?:adult|child|infant|senior|pet)-(?:[mf]-)?\d+-/, "");
+  while (id) {
+    if (ITEM_SPECS.items[id]) return ITEM_SPECS.items[id];
+    const cut = id.lastIndexOf("-");
+    if (cut <= 0) break;
+    id = id.slice(0, cut);
+  }
+  return ITEM_SPECS.categoryDefaults[item.category] ?? FALLBACK_SPEC;
+};
+
+export const itemCount = (item: Pick<ChecklistItem, "quantity">) => Math.max(1, parseInt(item.quantity || "", 10) || 1);
+
+// ============ BAGS ============
+export type BagSize = "personal_item" | "backpack" | "carry_on" | "checked";
+
+// cm is a typical bag of that size, for checking against airline dimension limits
+export const BAGS: Record<BagSize, { label: string; liters: number; kg: number; cm: [number, number, number] }> = {
+  personal_item: { label: "Personal item (under the seat)", liters: 20, kg: 7, cm: [40, 30, 17] },
+  backpack: { label: "Travel backpack", liters: 30, kg: 8, cm: [50, 30, 20] },
+  carry_on: { label: "Carry-on suitcase", liters: 40, kg: 10, cm: [55, 36, 20] },
+  checked: { label: "Checked suitcase", liters: 100, kg: 23, cm: [75, 50, 27] },
+};
+
+export const defaultBagFor = (constraint: PackingConstraint): BagSize =>
+  constraint === "carry_on_only" ? "carry_on" : constraint === "minimal" ? "backpack" : "checked";
+
+// ============ ESTIMATE ============
+export interface LoadLine {
+  id: string;
+  name: string;
+  count: number;
+  grams: number;  // For all pieces
+  liters: number;
+}
+
+export interface LoadEstimate {
+  bag: BagSize;
+  bags: number;
+  weightKg: number;
+  volumeL: number;
+  capacityKg: number;
+  capacityL: number;
+  overWeight: boolean;
+  overVolume: boolean;
+  fits: boolean;
+  carried: string[];     // Names of items left out of the totals because they're worn or carried
+  dropFirst: LoadLine[]; // Non-essential items to leave behind, in order, until the list fits
+  fitsAfterDrops: boolean;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Total a list against `bags` bags of one size. Pre-departure tasks weigh nothing.
+export const estimateLoad = (items: ChecklistItem[], bag: BagSize, bags = 1): LoadEstimate => {
+  const capacity = { grams: BAGS[bag].kg * 1000 * bags, liters: BAGS[bag].liters * bags };
+  const carried: string[] = [];
+  const lines: (LoadLine & { essential: boolean })[] = [];
+  items.forEach(item => {
+    const spec = getItemSpec(item);
+    if (spec.carried) { carried.push(item.name); return; }
+    const count = itemCount(item);
+    if (spec.grams === 0 && spec.liters === 0) return;
+    lines.push({ id: item.id, name: item.name, count, grams: spec.grams * count, liters: spec.liters * count, essential: item.essential });
+  });
+
+  const total = lines.reduce((sum, l) => ({ grams: sum.grams + l.grams, liters: sum.liters + l.liters }), { grams: 0, liters: 0 });
+  const overWeight = total.grams > capacity.grams;
+  const overVolume = total.liters > capacity.liters;
+
+  // Drop the non-essential items that do the most for whichever limit is exceeded
+  const dropFirst: LoadLine[] = [];
+  const remaining = { ...total };
+  if (overWeight || overVolume) {
+    const share = (l: LoadLine) => (overWeight ? l.grams / capacity.grams : 0) + (overVolume ? l.liters / capacity.liters : 0);
+    const candidates = lines.filter(l => !l.essential).sort((a, b) => share(b) - share(a));
+    for (const line of candidates) {
+      if (remaining.grams <= capacity.grams && remaining.liters <= capacity.liters) break;
+      if (share(line) === 0) continue;
+      const { essential: _essential, ...drop } = line;
+      dropFirst.push({ ...drop, grams: Math.round(drop.grams), liters: round1(drop.liters) });
+      remaining.grams -= line.grams;
+      remaining.liters -= line.liters;
+    }
+  }
+
+  return {
+    bag,
+    bags,
+    weightKg: round1(total.grams / 1000),
+    volumeL: round1(total.liters),
+    capacityKg: round1(capacity.grams / 1000),
+    capacityL: round1(capacity.liters),
+    overWeight,
+    overVolume,
+    fits: !overWeight && !overVolume,
+    carried,
+    dropFirst,
+    fitsAfterDrops: remaining.grams <= capacity.grams && remaining.liters <= capacity.liters,
+  };
+};
@@ -0,0 +1,126 @@
+// Medical devices and accessibility needs: what a CPAP, oxygen concentrator, wheelchair, insulin pump
+// or hearing aids add to a traveler's list, the documents that go with them and what to arrange with
+// the airline and the hotel beforehand. The items and lead times live in shared/data/medical-needs.json.
+import { z } from "zod";
+import medicalFile from "./data/medical-needs.json" with { type: "json" };
+import type { ChecklistItem } from "./checklist.js";
+import { addDays, isValidIsoDate } from "./dates.js";
+import { shortDate } from "./entry-requirements.js";
+
+export const MEDICAL_NEEDS = ["cpap", "portableOxygen", "wheelchair", "insulinPump", "hearingAids"] as const;
+export type MedicalNeed = typeof MEDICAL_NEEDS[number];
+
+export const MEDICAL_NEED_LABELS: Record<MedicalNeed, string> = {
+  cpap: "CPAP",
+  portableOxygen: "Portable oxygen",
+  wheelchair: "Wheelchair",
+  insulinPump: "Insulin pump / CGM",
+  hearingAids: "Hearing aids",
+};
+
+export const isMedicalNeed = (value: unknown): value is MedicalNeed =>
+  MEDICAL_NEEDS.includes(value as MedicalNeed);
+
+// ============ DATA ============
+const id = z.string().regex(/^med-[a-z0-9-]+$/, `ids start with "med-" and are lowercase letters, digits and dashes`);
+
+const itemSchema = z.object({
+  id,
+  name: z.string().min(1),
+  category: z.enum(["documents", "toiletries", "health", "tech", "personal"]),
+  essential: z.boolean(),
+  flying: z.boolean().optional(),        // Only matters on a flight
+  international: z.boolean().optional(), // Only for trips abroad
+  note: z.string().optional(),
+}).strict();
+
+const taskSchema = z.object({
+  id,
+  name: z.string().min(1),
+  leadDays: z.number().int().nonnegative(), // Latest: this many days before departure
+  flying: z.boolean().optional(),
+  international: z.boolean().optional(),
+  note: z.string().optional(),
+}).strict();
+
+const needSchema = z.object({
+  keywords: z.array(z.string().min(1)).min(1), // Words in personal notes that mean this need
+  items: z.array(itemSchema).min(1),
+  tasks: z.array(taskSchema),
+}).strict();
+
+const medicalFileSchema = z.object({
+  version: z.literal(1),
+  needs: z.record(z.string(), needSchema),
+}).strict();
+
+type NeedData = z.infer<typeof needSchema>;
+
+const loadMedicalNeeds = (raw: unknown): Record<MedicalNeed, NeedData> => {
+  const parsed = medicalFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/medical-needs.json: ${issues.join("; ")}`);
+  }
+  const { needs } = parsed.data;
+  const problems: string[] = [];
+  MEDICAL_NEEDS.forEach(need => { if (!needs[need]) problems.push(`needs: missing "${need}"`); });
+  Object.keys(needs).forEach(key => { if (!isMedicalNeed(key)) problems.push(`needs.${key}: not one of ${MEDICAL_NEEDS.join(", ")}`); });
+  const seen = new Set<string>();
+  Object.entries(needs).forEach(([key, need]) => [...need.items, ...need.tasks].forEach(entry => {
+    if (seen.has(entry.id)) problems.push(`needs.${key}: duplicate id "${entry.id}"`);
+    seen.add(entry.id);
+  }));
+  if (problems.length > 0) throw new Error(`Invalid shared/data/medical-needs.json:\n  ${problems.join("\n  ")}`);
+  return needs as Record<MedicalNeed, NeedData>;
+};
+
+const MEDICAL_DATA = loadMedicalNeeds(medicalFile);
+
+// ============ NOTES ============
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const KEYWORD_PATTERNS = MEDICAL_NEEDS.map(need =>
+  [need, new RegExp(`\\b(${MEDICAL_DATA[need].keywords.map(escape).join("|")})\\b`, "i")] as const);
+
+// Needs mentioned in free text ("I use a CPAP", "hearing aids"); whole words only, so "pocket" isn't a POC
+export const detectMedicalNeeds = (text: string): MedicalNeed[] =>
+  KEYWORD_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([need]) => need);
+
+// ============ CHECKLIST ITEMS ============
+export interface MedicalTrip {
+  isInternational: boolean;
+  airline?: string;
+  startDate?: string;
+}
+
+// Trips abroad and trips with an airline set are flights; otherwise we can't tell, so flight-only
+// entries stay on the list with a hint instead of being dropped
+const isFlying = (trip?: MedicalTrip) => Boolean(trip && (trip.isInternational || trip.airline));
+
+const due = (startDate: string | undefined, leadDays: number) => {
+  const days = `${leadDays} day${leadDays === 1 ? "" : "s"} before departure`;
+  if (!isValidIsoDate(startDate)) return { reason: `At least ${days}` };
+  const dueDate = addDays(startDate, -leadDays);
+  return { dueDate, reason: `Do by ${shortDate(dueDate)} (${days})` };
+};
+
+const applies = (entry: { international?: boolean }, trip?: MedicalTrip) => !entry.international || !trip || trip.isInternational;
+const flightHint = (entry: { flying?: boolean }, trip?: MedicalTrip) => entry.flying && !isFlying(trip) ? "If you're flying" : "";
+
+// Devices, supplies and documents for one need. Without a trip (items picked up from notes) everything
+// is listed, with the flight-only ones marked as such.
+export const medicalNeedItems = (need: MedicalNeed, trip?: MedicalTrip): ChecklistItem[] =>
+  MEDICAL_DATA[need].items.filter(entry => applies(entry, trip)).map(entry => {
+    const reason = [flightHint(entry, trip), entry.note].filter(Boolean).join(": ");
+    return { id: entry.id, name: entry.name, category: entry.category, essential: entry.essential, checked: false, ...(reason ? { reason } : {}) };
+  });
+
+// What to arrange before leaving: airline notice and approvals, airport assistance, the hotel room
+export const medicalNeedTasks = (need: MedicalNeed, trip: MedicalTrip): ChecklistItem[] =>
+  MEDICAL_DATA[need].tasks.filter(entry => applies(entry, trip)).map(entry => {
+    const timing = due(trip.startDate, entry.leadDays);
+    const hint = flightHint(entry, trip);
+    const when = hint ? `${hint}, ${timing.reason[0].toLowerCase()}${timing.reason.slice(1)}` : timing.reason;
+    const reason = [when, entry.note].filter(Boolean).join(". ");
+    return { id: entry.id, name: entry.name, category: "preDeparture", essential: true, checked: false, ...timing, reason };
+  });
@@ -0,0 +1,251 @@
+// Medication planner: each traveler's medications with their dose and how often they take them, the
+// quantity to pack for the trip plus spare days, prescription copies for controlled substances on trips
+// abroad and a dosing schedule that moves to the destination's clock a little each day.
+// Controlled substances are listed in shared/data/controlled-medications.json.
+import { z } from "zod";
+import controlledFile from "./data/controlled-medications.json" with { type: "json" };
+import type { ChecklistItem } from "./checklist.js";
+import { addDays, isValidIsoDate, utcOffsetMinutes } from "./dates.js";
+import { shortDate } from "./entry-requirements.js";
+
+export const MEDICATION_FREQUENCIES = ["daily", "twiceDaily", "threeTimesDaily", "fourTimesDaily", "weekly"] as const;
+export type MedicationFrequency = typeof MEDICATION_FREQUENCIES[number];
+
+export const FREQUENCY_LABELS: Record<MedicationFrequency, string> = {
+  daily: "Once a day",
+  twiceDaily: "Twice a day",
+  threeTimesDaily: "3 times a day",
+  fourTimesDaily: "4 times a day",
+  weekly: "Once a week",
+};
+
+// Home clock times when the traveler hasn't given their own
+const DEFAULT_DOSE_TIMES: Record<MedicationFrequency, string[]> = {
+  daily: ["08:00"],
+  twiceDaily: ["08:00", "20:00"],
+  threeTimesDaily: ["08:00", "14:00", "20:00"],
+  fourTimesDaily: ["08:00", "12:00", "16:00", "20:00"],
+  weekly: ["08:00"],
+};
+
+// Spare days packed on top of the trip, for delays; the trip profile can set its own
+export const DEFAULT_MEDICATION_BUFFER_DAYS = 3;
+
+// Doses move at most this much a day toward the destination's clock
+const MAX_SHIFT_PER_DAY = 120;
+
+// Old saved profiles only have a name; everything else is optional so they still load
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1),
+  dose: z.string().trim().min(1).optional(),             // "50 mcg", as on the label
+  unitsPerDose: z.number().positive().optional(),        // Tablets, puffs or injections per dose; 1 if unset
+  unit: z.string().trim().min(1).optional(),             // "tablet"; "dose" if unset
+  frequency: z.enum(MEDICATION_FREQUENCIES).optional(),  // Unset: no count, just "enough for the trip"
+  times: z.array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "times are HH:MM")).optional(), // Home clock
+  controlled: z.boolean().optional(),                    // Set by the traveler; listed substances are flagged anyway
+}).strict();
+
+export type Medication = z.infer<typeof medicationSchema>;
+
+// ============ DATA ============
+const controlledFileSchema = z.object({
+  version: z.literal(1),
+  substances: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    names: z.array(z.string().regex(/^[a-z0-9 -]+$/, "names are lowercase")).min(1), // Generic and brand names
+    note: z.string().min(1),
+  }).strict()),
+}).strict();
+
+type ControlledSubstance = z.infer<typeof controlledFileSchema>["substances"][number];
+
+const loadControlledSubstances = (raw: unknown): ControlledSubstance[] => {
+  const parsed = controlledFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/controlled-medications.json: ${issues.join("; ")}`);
+  }
+  const problems: string[] = [];
+  const seen = new Map<string, string>();
+  parsed.data.substances.forEach(s => s.names.forEach(name => {
+    if (seen.has(name)) problems.push(`substances.${s.id}: "${name}" is also listed under ${seen.get(name)}`);
+    seen.set(name, s.id);
+  }));
+  if (problems.length > 0) throw new Error(`Invalid shared/data/controlled-medications.json:\n  ${problems.join("\n  ")}`);
+  return parsed.data.substances;
+};
+
+const CONTROLLED_SUBSTANCES = loadControlledSubstances(controlledFile);
+
+// Why a medication is controlled, or null. Names match as whole words ("Adderall XR 20 mg").
+export const controlledNote = (medication: Medication): string | null => {
+  const words = ` ${medication.name.toLowerCase().replace(/[^a-z0-9]+/g, " ")} `;
+  const listed = CONTROLLED_SUBSTANCES.find(s => s.names.some(name => words.includes(` ${name} `)));
+  if (listed) return listed.note;
+  return medication.controlled ? "Marked as a controlled substance." : null;
+};
+
+// ============ QUANTITY ============
+const DOSES_PER_DAY: Record<MedicationFrequency, number> = { daily: 1, twiceDaily: 2, threeTimesDaily: 3, fourTimesDaily: 4, weekly: 1 / 7 };
+
+// Units to pack for the trip plus the spare days; null when the frequency isn't known
+export const medicationQuantity = (medication: Medication, tripDuration: number, bufferDays = DEFAULT_MEDICATION_BUFFER_DAYS): number | null => {
+  if (!medication.frequency) return null;
+  const days = tripDuration + bufferDays;
+  const doses = medication.frequency === "weekly" ? Math.ceil(days / 7) : days * DOSES_PER_DAY[medication.frequency];
+  return Math.ceil(doses * (medication.unitsPerDose ?? 1));
+};
+
+const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 || unit.endsWith("s") ? "" : "s"}`;
+
+// ============ SCHEDULE ============
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const toClock = (minutes: number) => {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+};
+const joinTimes = (times: string[]) => times.length === 1 ? times[0] : `${times.slice(0, -1).join(", ")} and ${times[times.length - 1]}`;
+
+// The traveler's own times if there's one per dose, the frequency's defaults otherwise
+export const doseTimes = (medication: Medication): string[] => {
+  if (!medication.frequency) return [];
+  const defaults = DEFAULT_DOSE_TIMES[medication.frequency];
+  const own = medication.times && medication.times.length === defaults.length ? medication.times : defaults;
+  return [...own].sort();
+};
+
+// Minutes the destination's clock is ahead of home on the travel date (negative when behind);
+// null if either timezone is unknown
+export const timeShiftMinutes = (homeTimeZone: string | undefined, destinationTimeZone: string | undefined, date: string): number | null => {
+  if (!homeTimeZone || !destinationTimeZone) return null;
+  const home = utcOffsetMinutes(homeTimeZone, date);
+  const destination = utcOffsetMinutes(destinationTimeZone, date);
+  return home === null || destination === null ? null : destination - home;
+};
+
+export interface DoseSchedule {
+  homeTimes: string[];    // When they're taken at home
+  arrivalTimes: string[]; // The same moments on the destination's clock
+  days: string[][];       // Destination clock times on each day after arrival, ending on the home times
+  moves?: "earlier" | "later"; // Which way the doses move each day
+}
+
+// Doses keep their spacing on arrival, then move up to two hours a day until they're back on the usual
+// clock times, whichever way round the clock is shorter (14 hours ahead moves like 10 behind).
+// Weekly doses just stay on the same weekday.
+export const doseSchedule = (medication: Medication, shiftMinutes: number): DoseSchedule | null => {
+  const homeTimes = doseTimes(medication);
+  if (homeTimes.length === 0) return null;
+  const wrapped = ((shiftMinutes % 1440) + 1440) % 1440;
+  if (medication.frequency === "weekly" || wrapped === 0) return { homeTimes, arrivalTimes: homeTimes, days: [] };
+  const days: string[][] = [];
+  let remaining = wrapped > 720 ? wrapped - 1440 : wrapped;
+  const moves = remaining > 0 ? "earlier" : "later";
+  while (remaining !== 0) {
+    remaining -= Math.sign(remaining) * Math.min(Math.abs(remaining), MAX_SHIFT_PER_DAY);
+    days.push(homeTimes.map(t => toClock(toMinutes(t) + remaining)));
+  }
+  return { homeTimes, arrivalTimes: homeTimes.map(t => toClock(toMinutes(t) + shiftMinutes)), days, moves };
+};
+
+const hoursApart = (minutes: number) => {
+  const hours = Math.abs(minutes) / 60;
+  return `${hours} hour${hours === 1 ? "" : "s"} ${minutes > 0 ? "ahead" : "behind"}`;
+};
+
+const scheduleSummary = (medication: Medication, schedule: DoseSchedule, shiftMinutes: number | null, destinationName?: string): string => {
+  const usual = joinTimes(schedule.homeTimes);
+  if (medication.frequency === "weekly") return `Once a week at ${usual}, on the same weekday`;
+  if (shiftMinutes === null) return `Take at ${usual}`;
+  if (shiftMinutes === 0) return `Take at ${usual}; no time difference`;
+  const there = `On arrival that's ${joinTimes(schedule.arrivalTimes)}${destinationName ? ` in ${destinationName}` : ""} (${hoursApart(shiftMinutes)})`;
+  if (schedule.days.length === 1) return `Take at ${usual} home time. ${there}; switch to ${usual} local time from the first day`;
+  return `Take at ${usual} home time. ${there}; move the doses up to 2 hours ${schedule.moves} each day to be back on ${usual} by day ${schedule.days.length}`;
+};
+
+// ============ PLAN ============
+export interface MedicationTrip {
+  tripDuration: number;
+  bufferDays?: number;
+  isInternational: boolean;
+  startDate?: string;
+  homeTimeZone?: string;
+  destinationTimeZone?: string;
+  destinationName?: string;    // City or country, for the schedule
+  destinationCountry?: string; // For the permit task
+}
+
+export interface MedicationPlan {
+  medication: Medication;
+  quantity: number | null;   // Units for the trip plus the buffer; null without a frequency
+  controlled: string | null; // Why it's controlled, when it is
+  prescriptionCopy: boolean; // Controlled and leaving the country
+  shiftMinutes: number | null;
+  schedule: DoseSchedule | null;
+  summary: string;
+}
+
+export const planMedication = (medication: Medication, trip: MedicationTrip): MedicationPlan => {
+  const bufferDays = trip.bufferDays ?? DEFAULT_MEDICATION_BUFFER_DAYS;
+  const date = isValidIsoDate(trip.startDate) ? trip.startDate : new Date().toISOString().slice(0, 10);
+  const shiftMinutes = timeShiftMinutes(trip.homeTimeZone, trip.destinationTimeZone, date);
+  const schedule = doseSchedule(medication, shiftMinutes ?? 0);
+  const controlled = controlledNote(medication);
+  const summary = schedule
+    ? scheduleSummary(medication, schedule, shiftMinutes, trip.destinationName)
+    : `Enough for the trip plus ${plural(bufferDays, "spare day")}`;
+  return {
+    medication,
+    quantity: medicationQuantity(medication, trip.tripDuration, bufferDays),
+    controlled,
+    prescriptionCopy: Boolean(controlled) && trip.isInternational,
+    shiftMinutes,
+    schedule,
+    summary,
+  };
+};
+
+// ============ CHECKLIST ITEMS ============
+// Controlled medicines can need an import permit, which takes weeks
+const PERMIT_LEAD_DAYS = 30;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+const due = (startDate: string | undefined, leadDays: number) => {
+  const days = `${leadDays} days before departure`;
+  if (!isValidIsoDate(startDate)) return { reason: `At least ${days}` };
+  const dueDate = addDays(startDate, -leadDays);
+  return { dueDate, reason: `Do by ${shortDate(dueDate)} (${days})` };
+};
+
+// The medication itself, and for a controlled one abroad, the prescription copy and the permit check.
+// `owner` labels the items on a group list that has several people's medications.
+export const medicationItems = (plan: MedicationPlan, trip: MedicationTrip, owner?: string): ChecklistItem[] => {
+  const { medication } = plan;
+  const id = `rx-${slug(medication.name)}${owner ? `-${slug(owner)}` : ""}`;
+  const label = `${medication.name}${medication.dose ? ` ${medication.dose}` : ""}`;
+  const whose = owner ? ` (${owner})` : "";
+  const items: ChecklistItem[] = [{
+    id,
+    name: `${label}${whose}`,
+    category: "health",
+    essential: true,
+    checked: false,
+    ...(plan.quantity !== null ? { quantity: plural(plan.quantity, medication.unit || "dose") } : {}),
+    reason: plan.prescriptionCopy ? `${plan.summary}. Keep it in the original labelled packaging` : plan.summary,
+  }];
+  if (plan.prescriptionCopy) {
+    items.push(
+      { id: `${id}-prescription`, name: `Prescription copy for ${medication.name}${whose}`, category: "documents", essential: true, checked: false, reason: plan.controlled! },
+      {
+        id: `${id}-permit`,
+        name: `Check whether ${trip.destinationCountry || "your destination"} needs a permit for ${medication.name}${whose}`,
+        category: "preDeparture",
+        essential: true,
+        checked: false,
+        ...due(trip.startDate, PERMIT_LEAD_DAYS),
+      },
+    );
+  }
+  return items;
+};
@@ -0,0 +1,169 @@
+// Day-by-day outfit planner.
+// Each trip day gets an outfit from that day's weather (the forecast when the widget has one, otherwise the
+// destination's climate normals for the month) and what's planned for it. The clothing quantities in the
+// checklist come from the plan: how many days each garment is worn within one wash cycle.
+import type { Season, TripProfile } from "./checklist.js";
+import { addDays, daysBetween, isValidIsoDate } from "./dates.js";
+import { lookupDestination, monthClimate, monthOf } from "./gazetteer.js";
+import { DEFAULT_LAUNDRY, GARMENT_TYPES, planLaundry, type GarmentType } from "./laundry.js";
+
+// One day of a forecast (Open-Meteo daily series)
+export interface DailyWeather {
+  date: string;          // ISO date
+  minTemp: number;       // °C
+  maxTemp: number;       // °C
+  precipitation: number; // Chance of rain, %
+}
+
+export type Warmth = "hot" | "warm" | "mild" | "cool" | "cold" | "freezing";
+
+export const WARMTH_LABELS: Record<Warmth, string> = {
+  hot: "Hot",
+  warm: "Warm",
+  mild: "Mild",
+  cool: "Cool",
+  cold: "Cold",
+  freezing: "Freezing",
+};
+
+// By the day's high
+export const warmthOf = (maxTemp: number): Warmth =>
+  maxTemp >= 27 ? "hot" : maxTemp >= 22 ? "warm" : maxTemp >= 15 ? "mild" : maxTemp >= 8 ? "cool" : maxTemp >= 0 ? "cold" : "freezing";
+
+export interface OutfitDay {
+  day: number;           // 1-based
+  date?: string;         // When the trip has dates
+  destination: string;
+  weather: Omit<DailyWeather, "date">;
+  source: "forecast" | "normals" | "climate";
+  warmth: Warmth;
+  activity?: string;     // "travel", "business", or one of the trip's activities
+  outfit: string[];      // What to wear, in words
+  garments: GarmentType[];
+}
+
+export interface OutfitPlan {
+  days: OutfitDay[];
+  // Most days each garment is worn within one wash cycle: what the clothing quantities are packed for
+  garmentDays: Record<GarmentType, number>;
+}
+
+// Typical highs and lows when there's neither a forecast nor gazetteer normals
+const CLIMATE_WEATHER: Record<Season, Omit<DailyWeather, "date">> = {
+  tropical: { minTemp: 24, maxTemp: 31, precipitation: 40 },
+  summer: { minTemp: 18, maxTemp: 27, precipitation: 20 },
+  spring: { minTemp: 9, maxTemp: 19, precipitation: 35 },
+  variable: { minTemp: 7, maxTemp: 16, precipitation: 40 },
+  winter: { minTemp: -3, maxTemp: 4, precipitation: 40 },
+};
+
+// Activities that call for workout clothes on the day
+const SPORTY_ACTIVITIES = ["hiking", "skiing", "camping", "gym", "running", "cycling", "climbing"];
+
+const RAINY_CHANCE = 50;
+
+// Where each day is spent: legs in order, by their days or dates, the last leg taking what's left
+const destinationsByDay = (profile: TripProfile, days: number): { destination: string; climate: Season; purpose: TripProfile["purpose"] }[] => {
+  const legs = profile.legs && profile.legs.length >= 2 ? profile.legs : [];
+  if (legs.length === 0) return Array.from({ length: days }, () => ({ destination: profile.destination, climate: profile.climate, purpose: profile.purpose }));
+  const result: ReturnType<typeof destinationsByDay> = [];
+  legs.forEach((leg, i) => {
+    const remaining = days - result.length;
+    const dated = isValidIsoDate(leg.startDate) && isValidIsoDate(leg.endDate) ? daysBetween(leg.startDate, leg.endDate) : 0;
+    const count = i === legs.length - 1 ? remaining : Math.min(remaining, leg.days || dated || Math.round(days / legs.length));
+    for (let d = 0; d < count; d++) result.push({ destination: leg.destination, climate: leg.climate, purpose: leg.purpose || profile.purpose });
+  });
+  return result;
+};
+
+// The day's weather: the forecast for that date, else the month's normals at the destination, else the climate's
+const weatherFor = (destination: string, climate: Season, date: string | undefined, forecast: DailyWeather[]): Pick<OutfitDay, "weather" | "source"> => {
+  const day = date ? forecast.find(f => f.date === date) : undefined;
+  if (day) return { weather: { minTemp: day.minTemp, maxTemp: day.maxTemp, precipitation: day.precipitation }, source: "forecast" };
+  const place = lookupDestination(destination);
+  const month = monthOf(date);
+  if (place && month !== undefined) {
+    const { minTemp, maxTemp, rainChance } = monthClimate(place, month);
+    return { weather: { minTemp, maxTemp, precipitation: rainChance }, source: "normals" };
+  }
+  return { weather: CLIMATE_WEATHER[climate], source: "climate" };
+};
+
+// What's on each day: travel on the first and last, planned activities alternating with free days between
+const activityFor = (day: number, days: number, purpose: TripProfile["purpose"], activities: string[]): string | undefined => {
+  if (days > 1 && (day === 0 || day === days - 1)) return "travel";
+  if (purpose === "business") return "business";
+  if (activities.length === 0) return purpose === "beach" ? "beach" : undefined;
+  const middle = day - (days > 1 ? 1 : 0);
+  return middle % 2 === 0 ? activities[(middle / 2) % activities.length] : undefined;
+};
+
+export const planOutfits = (profile: TripProfile): OutfitPlan => {
+  const days = Math.max(1, profile.tripDuration || 1);
+  const forecast = profile.forecast || [];
+  const start = isValidIsoDate(profile.startDate) ? profile.startDate : undefined;
+  const stops = destinationsByDay(profile, days);
+  let skirtOrDressDay = 0;
+  let hotDay = 0;
+
+  const outfitDays = stops.map((stop, i): OutfitDay => {
+    const date = start ? addDays(start, i) : undefined;
+    const { weather, source } = weatherFor(stop.destination, stop.climate, date, forecast);
+    const warmth = warmthOf(weather.maxTemp);
+    const activity = activityFor(i, days, stop.purpose, profile.activities);
+    const garments: GarmentType[] = ["underwear", "socks", "bra", "blouse"];
+    const outfit: string[] = [];
+
+    const warmDay = warmth === "hot" || warmth === "warm";
+    if (warmth === "hot" && hotDay++ % 2 === 1) garments.push("tank");
+    else garments.push("top");
+    garments.push(weather.maxTemp >= 22 ? "shorts" : "pants");
+    if (warmth === "mild" || (warmDay && weather.minTemp < 15)) garments.push("layer");
+    if (!warmDay && warmth !== "mild") garments.push("sweater");
+    // Dresses and skirts on some of the days that aren't cold
+    if (warmDay || warmth === "mild") {
+      if (skirtOrDressDay % 3 === 0) garments.push("dress");
+      if (skirtOrDressDay % 4 === 1) garments.push("skirt");
+      skirtOrDressDay++;
+    }
+    if (activity && SPORTY_ACTIVITIES.includes(activity)) garments.push("workout");
+
+    if (activity === "business") outfit.push("Business outfit");
+    outfit.push(garments.includes("tank") ? "Tank top" : warmth === "cold" || warmth === "freezing" ? "Long-sleeve shirt" : "T-shirt");
+    outfit.push(garments.includes("shorts") ? "Shorts" : "Pants");
+    if (garments.includes("dress")) outfit.push("Or a dress");
+    else if (garments.includes("skirt")) outfit.push("Or a skirt");
+    if (garments.includes("layer")) outfit.push(warmDay ? "Light layer for the evening" : "Light layer");
+    if (garments.includes("sweater")) outfit.push("Sweater");
+    if (warmth === "cold" || warmth === "freezing") outfit.push("Warm coat");
+    if (warmth === "freezing") outfit.push("Hat and gloves");
+    if (garments.includes("workout")) outfit.push(`Workout clothes for ${activity}`);
+    if (activity === "beach") outfit.push("Swimwear");
+    if (weather.precipitation >= RAINY_CHANCE) outfit.push("Rain jacket");
+    if (activity === "travel") outfit.push("Bulkiest shoes and layers (wear them on the way)");
+
+    return {
+      day: i + 1,
+      ...(date ? { date } : {}),
+      destination: stop.destination,
+      weather,
+      source,
+      warmth,
+      ...(activity ? { activity } : {}),
+      outfit,
+      garments,
+    };
+  });
+
+  // Clothes are packed for one wash cycle: count each garment's days per cycle and keep the busiest cycle
+  const cycle = planLaundry(days, profile.laundry || DEFAULT_LAUNDRY, profile.laundryEveryDays).wearDays;
+  const garmentDays = Object.fromEntries(GARMENT_TYPES.map(g => [g, 0])) as Record<GarmentType, number>;
+  for (let from = 0; from < days; from += cycle) {
+    const chunk = outfitDays.slice(from, from + cycle);
+    GARMENT_TYPES.forEach(g => {
+      garmentDays[g] = Math.max(garmentDays[g], chunk.filter(d => d.garments.includes(g)).length);
+    });
+  }
+
+  return { days: outfitDays, garmentDays };
+};
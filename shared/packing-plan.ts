@@ -0,0 +1,98 @@
+// Multi-bag packing plan: which bag each checklist item goes in.
+// Bags are user-defined on TripProfile.bags (defaults follow the packing constraint, plus a backpack for
+// each child). Items carry the id of their bag; anything unassigned gets a default by category, keeping
+// documents, medication and batteries in the cabin and clothing in the biggest bag.
+import type { ChecklistItem, IndividualTraveler, TripProfile } from "./checklist.js";
+import { BAGS, defaultBagFor, getItemSpec, type BagSize } from "./luggage.js";
+
+export interface PackingBag {
+  id: string;
+  name: string;
+  size: BagSize;
+  owner?: string; // Individual traveler id; unowned bags are shared
+}
+
+// Not a bag: coats and boots go on the traveler, pre-departure tasks aren't packed
+export const WORN_BAG = "worn";
+export const NO_BAG = "none";
+
+export const BAG_NAMES: Record<BagSize, string> = {
+  personal_item: "Personal item",
+  backpack: "Backpack",
+  carry_on: "Carry-on",
+  checked: "Checked bag",
+};
+
+// The main bag from the packing constraint (or the chosen bag size), a personal item with it,
+// a carry-on next to a checked bag, and each child's own backpack
+export const defaultPackingBags = (profile: TripProfile, individuals: IndividualTraveler[]): PackingBag[] => {
+  const main = profile.bag ?? defaultBagFor(profile.packingConstraint);
+  const sizes: BagSize[] = main === "personal_item" ? [main] : main === "checked" ? ["personal_item", "carry_on", main] : ["personal_item", main];
+  return [
+    ...sizes.map(size => ({ id: size, name: BAG_NAMES[size], size })),
+    ...individuals
+      .filter(t => t.type === "child")
+      .map(t => ({ id: `${t.id}-backpack`, name: `${t.label}'s backpack`, size: "backpack" as const, owner: t.id })),
+  ];
+};
+
+export const getPackingBags = (profile: TripProfile, individuals: IndividualTraveler[]): PackingBag[] =>
+  profile.bags && profile.bags.length > 0 ? profile.bags : defaultPackingBags(profile, individuals);
+
+// Bag sizes to try in order, by category. Lithium batteries aren't allowed in checked bags.
+const CABIN_FIRST: BagSize[] = ["personal_item", "backpack", "carry_on", "checked"];
+const BIGGEST_FIRST: BagSize[] = ["checked", "carry_on", "backpack", "personal_item"];
+const PREFERRED_SIZES: Record<string, BagSize[]> = {
+  documents: CABIN_FIRST,
+  health: CABIN_FIRST,
+  tech: CABIN_FIRST,
+  clothing: BIGGEST_FIRST,
+  workout: BIGGEST_FIRST,
+  toiletries: BIGGEST_FIRST,
+  activity: BIGGEST_FIRST,
+  family: ["backpack", "carry_on", "personal_item", "checked"],
+  personal: ["carry_on", "backpack", "checked", "personal_item"],
+};
+const CABIN_ITEM = /(?:^|-)(?:comfort|tech)-/;
+
+// Where an item goes by default. `travelerId` is whose list it's on (undefined for the shared list):
+// their own bags come first, then shared bags, then anyone else's.
+export const defaultBagId = (item: Pick<ChecklistItem, "id" | "category">, bags: PackingBag[], travelerId?: string): string => {
+  if (item.category === "preDeparture") return NO_BAG;
+  if (getItemSpec(item).carried) return WORN_BAG;
+  if (bags.length === 0) return NO_BAG;
+  const sizes = CABIN_ITEM.test(item.id) ? CABIN_FIRST : PREFERRED_SIZES[item.category] || BIGGEST_FIRST;
+  const rank = (bag: PackingBag) => (bag.owner === travelerId ? 0 : bag.owner ? 2 : 1) * 10 + sizes.indexOf(bag.size);
+  return [...bags].sort((a, b) => rank(a) - rank(b))[0].id;
+};
+
+// The item's bag, falling back to the default when it's unassigned or its bag was removed
+export const bagOf = (item: ChecklistItem, bags: PackingBag[], travelerId?: string): string =>
+  item.bag && (item.bag === WORN_BAG || item.bag === NO_BAG || bags.some(b => b.id === item.bag))
+    ? item.bag
+    : defaultBagId(item, bags, travelerId);
+
+export interface BagGroup {
+  id: string;
+  name: string;
+  bag?: PackingBag; // Undefined for the worn / not-packed groups
+  items: ChecklistItem[];
+  checked: number;
+}
+
+// Items grouped by bag, in bag order, followed by what's worn and what isn't packed
+export const groupByBag = (items: ChecklistItem[], bags: PackingBag[], travelerId?: string): BagGroup[] => {
+  const groups: BagGroup[] = [
+    ...bags.map(bag => ({ id: bag.id, name: bag.name, bag, items: [] as ChecklistItem[], checked: 0 })),
+    { id: WORN_BAG, name: "Wear on travel day", items: [], checked: 0 },
+    { id: NO_BAG, name: "Not packed", items: [], checked: 0 },
+  ];
+  items.forEach(item => {
+    const group = groups.find(g => g.id === bagOf(item, bags, travelerId))!;
+    group.items.push(item);
+    if (item.checked) group.checked++;
+  });
+  return groups.filter(g => g.bag || g.items.length > 0);
+};
+
+export const describeBag = (bag: PackingBag) => `${bag.name} (${BAGS[bag.size].liters} L)`;
@@ -0,0 +1,137 @@
+// Personal traveler profiles: what one person always packs (medications, glasses or contacts, devices,
+// diet, sleep aids, presets), saved once and attached to a traveler on any trip. The widget keeps the
+// saved profiles apart from the trip, and families share them as an exported JSON file.
+import { z } from "zod";
+import { TRAVELER_ATTRIBUTES } from "./attributes.js";
+import { MEDICAL_NEEDS } from "./medical.js";
+import { medicationSchema } from "./medications.js";
+import type { ChecklistItem } from "./checklist.js";
+
+export const VISION_AIDS = ["glasses", "contacts", "both"] as const;
+export const DIETS = ["vegetarian", "vegan", "glutenFree", "lactoseFree", "nutAllergy", "diabetic", "halal", "kosher"] as const;
+export const SLEEP_AIDS = ["eyeMask", "earplugs", "travelPillow", "melatonin", "whiteNoise"] as const;
+export type VisionAid = typeof VISION_AIDS[number];
+export type Diet = typeof DIETS[number];
+export type SleepAid = typeof SLEEP_AIDS[number];
+
+export const VISION_LABELS: Record<VisionAid, string> = {
+  glasses: "Glasses",
+  contacts: "Contact lenses",
+  both: "Glasses & contacts",
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  glutenFree: "Gluten-free",
+  lactoseFree: "Lactose-free",
+  nutAllergy: "Nut allergy",
+  diabetic: "Diabetic",
+  halal: "Halal",
+  kosher: "Kosher",
+};
+
+export const SLEEP_AID_LABELS: Record<SleepAid, string> = {
+  eyeMask: "Eye mask",
+  earplugs: "Earplugs",
+  travelPillow: "Travel pillow",
+  melatonin: "Melatonin",
+  whiteNoise: "White noise",
+};
+
+const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  medications: z.array(medicationSchema),
+  vision: z.enum(VISION_AIDS).optional(),
+  devices: z.array(z.string().trim().min(1)),
+  presets: z.array(z.string()),
+  diet: z.array(z.enum(DIETS)),
+  sleepAids: z.array(z.enum(SLEEP_AIDS)),
+  attributes: z.array(z.enum(TRAVELER_ATTRIBUTES)).optional(),
+  medical: z.array(z.enum(MEDICAL_NEEDS)).optional(),
+  notes: z.string().optional(),
+}).strict();
+
+const profilesFileSchema = z.object({
+  version: z.literal(1),
+  profiles: z.array(profileSchema),
+}).strict();
+
+export type PersonalProfile = z.infer<typeof profileSchema>;
+
+export const emptyPersonalProfile = (id: string, name: string): PersonalProfile =>
+  ({ id, name, medications: [], devices: [], presets: [], diet: [], sleepAids: [] });
+
+// ============ IMPORT / EXPORT ============
+export const exportPersonalProfiles = (profiles: PersonalProfile[]): string =>
+  JSON.stringify({ version: 1, profiles }, null, 2);
+
+// Profiles from an exported file; throws with the offending field named
+export const parsePersonalProfiles = (text: string): PersonalProfile[] => {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { throw new Error("Invalid profiles file: not JSON"); }
+  const parsed = profilesFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid profiles file: ${issues.join("; ")}`);
+  }
+  return parsed.data.profiles;
+};
+
+// Imported profiles replace saved ones with the same id and are added otherwise
+export const mergePersonalProfiles = (saved: PersonalProfile[], imported: PersonalProfile[]): PersonalProfile[] => [
+  ...saved.map(p => imported.find(i => i.id === p.id) || p),
+  ...imported.filter(i => !saved.some(p => p.id === i.id)),
+];
+
+// ============ CHECKLIST ITEMS ============
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+const item = (id: string, name: string, category: string, extra: Partial<ChecklistItem> = {}): ChecklistItem =>
+  ({ id, name, category, essential: false, checked: false, ...extra });
+
+const DIET_ITEMS: Record<Diet, ChecklistItem[]> = {
+  vegetarian: [item("pp-diet-snacks", "Snacks that fit your diet", "personal")],
+  vegan: [item("pp-diet-snacks", "Snacks that fit your diet", "personal")],
+  glutenFree: [item("pp-diet-snacks", "Snacks that fit your diet", "personal"), item("pp-diet-card", "Dietary card in the local language", "documents")],
+  lactoseFree: [item("pp-diet-lactase", "Lactase tablets", "health")],
+  nutAllergy: [
+    item("pp-diet-epipen", "Epinephrine auto-injectors", "health", { quantity: "2", essential: true, reason: "Carry both in your personal item" }),
+    item("pp-diet-card", "Dietary card in the local language", "documents"),
+  ],
+  diabetic: [
+    item("pp-diet-glucose", "Glucose tablets or sweets", "health", { essential: true }),
+    item("pp-diet-snacks", "Snacks that fit your diet", "personal"),
+  ],
+  halal: [item("pp-diet-snacks", "Snacks that fit your diet", "personal")],
+  kosher: [item("pp-diet-snacks", "Snacks that fit your diet", "personal")],
+};
+
+const SLEEP_ITEMS: Record<SleepAid, ChecklistItem> = {
+  eyeMask: item("pp-sleep-eyemask", "Eye mask", "personal"),
+  earplugs: item("pp-sleep-earplugs", "Earplugs", "personal"),
+  travelPillow: item("pp-sleep-pillow", "Travel pillow", "personal"),
+  melatonin: item("pp-sleep-melatonin", "Melatonin", "health"),
+  whiteNoise: item("pp-sleep-whitenoise", "White noise machine or app", "tech"),
+};
+
+// What one profile adds to a list. Medications go through the planner with the traveler's own
+// (shared/medications.ts); presets, attributes and medical needs are copied onto the traveler instead.
+export const personalProfileItems = (profile: PersonalProfile, tripDuration: number): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  if (profile.vision === "glasses" || profile.vision === "both") {
+    items.push(item("pp-vision-glasses", "Glasses", "personal", { essential: true }), item("pp-vision-case", "Glasses case", "personal"));
+  }
+  if (profile.vision === "contacts" || profile.vision === "both") {
+    items.push(
+      item("pp-vision-contacts", "Contact lenses", "toiletries", { essential: true, quantity: `${tripDuration + 2} pairs` }),
+      item("pp-vision-solution", "Contact lens solution", "toiletries"),
+      item("pp-vision-lenscase", "Contact lens case", "toiletries"),
+    );
+    if (profile.vision === "contacts") items.push(item("pp-vision-backup", "Backup glasses", "personal"));
+  }
+  profile.devices.forEach(d => items.push(item(`pp-device-${slug(d)}`, d, "tech")));
+  profile.diet.forEach(d => DIET_ITEMS[d].forEach(i => { if (!items.some(x => x.id === i.id)) items.push(i); }));
+  profile.sleepAids.forEach(s => items.push(SLEEP_ITEMS[s]));
+  return items;
+};
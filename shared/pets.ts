@@ -0,0 +1,217 @@
+// Pet travel: each pet's species, size and how it travels, and the documents and vet appointments
+// an international trip needs for it. Import rules by destination live in shared/data/pet-travel.json;
+// cabin carrier limits come from the airline data (shared/data/airline-baggage.json).
+import { z } from "zod";
+import petFile from "./data/pet-travel.json" with { type: "json" };
+import { AIRLINES } from "./airlines.js";
+import type { ChecklistItem } from "./checklist.js";
+import { addDays, isValidIsoDate } from "./dates.js";
+import { COUNTRIES, COUNTRY_GROUPS, expandCountryCodes, shortDate } from "./entry-requirements.js";
+
+export const PET_SPECIES = ["dog", "cat"] as const;
+export const PET_SIZES = ["small", "medium", "large"] as const;
+export const PET_TRAVEL_MODES = ["cabin", "hold", "car"] as const;
+export type PetSpecies = typeof PET_SPECIES[number];
+export type PetSize = typeof PET_SIZES[number];
+export type PetTravelMode = typeof PET_TRAVEL_MODES[number];
+
+export const PET_SIZE_LABELS: Record<PetSize, string> = {
+  small: "Small (under 8 kg)",
+  medium: "Medium (8-25 kg)",
+  large: "Large (over 25 kg)",
+};
+
+export const PET_TRAVEL_LABELS: Record<PetTravelMode, string> = {
+  cabin: "In the cabin",
+  hold: "In the hold",
+  car: "By car",
+};
+
+// What the user set for one pet; anything unset falls back to defaultPetDetails
+export interface PetDetails {
+  size?: PetSize;
+  travel?: PetTravelMode;
+}
+
+export interface Pet {
+  id: string;      // Individual traveler id ("pet-1")
+  label: string;
+  species: PetSpecies;
+  size: PetSize;
+  travel: PetTravelMode;
+}
+
+// Cats are small and dogs medium unless set. Small pets fly in the cabin, bigger ones in the hold;
+// domestic trips go by car.
+export const defaultPetDetails = (species: PetSpecies, isInternational: boolean, details: PetDetails = {}): Required<PetDetails> => {
+  const size = details.size || (species === "cat" ? "small" : "medium");
+  return { size, travel: details.travel || (!isInternational ? "car" : size === "small" ? "cabin" : "hold") };
+};
+
+// ============ DATA ============
+const requirementSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "ids are lowercase letters, digits and dashes"),
+  document: z.string().min(1),
+  species: z.array(z.enum(PET_SPECIES)).min(1).optional(),
+  from: z.array(z.string()).min(1).optional(),    // Only for pets coming from these countries
+  notFrom: z.array(z.string()).min(1).optional(), // Not for pets coming from these countries
+  task: z.object({
+    name: z.string().min(1),
+    leadDays: z.number().int().nonnegative(),        // Latest: this many days before departure
+    windowDays: z.number().int().positive().optional(), // Earliest, for certificates that expire
+  }).strict().optional(),
+  note: z.string().optional(),
+}).strict();
+
+const petFileSchema = z.object({
+  version: z.literal(1),
+  groups: z.record(z.string(), z.array(z.string())),
+  // Keyed by country code, "@group" or the "*" fallback; a country gets its own rules and its groups'
+  destinations: z.record(z.string(), z.array(requirementSchema).min(1)),
+}).strict();
+
+type PetData = z.infer<typeof petFileSchema>;
+export type PetRequirement = z.infer<typeof requirementSchema>;
+
+// "@group" references resolve against this file's groups first, then the entry-requirement groups
+const expandCodes = (codes: string[], groups: PetData["groups"]): string[] =>
+  codes.flatMap(c => (c.startsWith("@") && groups[c.slice(1)] ? expandCodes(groups[c.slice(1)], groups) : expandCountryCodes([c])));
+
+const loadPetData = (raw: unknown): PetData => {
+  const parsed = petFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/pet-travel.json: ${issues.join("; ")}`);
+  }
+  const data = parsed.data;
+  const problems: string[] = [];
+  const checkCodes = (codes: string[], at: string) => codes.forEach(c => {
+    if (c === "*") return;
+    if (c.startsWith("@") ? !data.groups[c.slice(1)] && !COUNTRY_GROUPS[c.slice(1)] : !COUNTRIES[c]) {
+      problems.push(`${at}: unknown ${c.startsWith("@") ? "group" : "country"} "${c}"`);
+    }
+  });
+  Object.entries(data.groups).forEach(([g, codes]) => checkCodes(codes, `groups.${g}`));
+  Object.entries(data.destinations).forEach(([key, requirements]) => {
+    checkCodes([key], `destinations.${key}`);
+    requirements.forEach((r, i) => {
+      const at = `destinations.${key}[${i}]`;
+      if (r.from) checkCodes(r.from, `${at}.from`);
+      if (r.notFrom) checkCodes(r.notFrom, `${at}.notFrom`);
+      if (r.task?.windowDays !== undefined && r.task.windowDays <= r.task.leadDays) problems.push(`${at}.task: windowDays must be more than leadDays`);
+    });
+  });
+  if (!data.destinations["*"]) problems.push(`destinations: needs a catch-all "*" entry`);
+  if (problems.length > 0) throw new Error(`Invalid shared/data/pet-travel.json:\n  ${problems.join("\n  ")}`);
+  return data;
+};
+
+const PET_DATA = loadPetData(petFile);
+
+// ============ RESOLUTION ============
+export interface PetEntryCheck {
+  origin: { code: string; name: string } | null; // null when the home country isn't known
+  destination: { code: string; name: string };
+  requirements: PetRequirement[];
+  summary: string;
+}
+
+const inCodes = (code: string, codes: string[]) => codes.includes("*") || expandCodes(codes, PET_DATA.groups).includes(code);
+
+// Import rules for one pet; null for trips within one country or unknown destinations.
+// Without a home country, rules that depend on where the pet comes from are left out.
+export const checkPetEntry = (pet: Pick<Pet, "species" | "label">, originCode: string | undefined, destinationCode: string): PetEntryCheck | null => {
+  const dest = COUNTRIES[destinationCode];
+  if (!dest || originCode === destinationCode) return null;
+  const origin = originCode && COUNTRIES[originCode] ? { code: originCode, name: COUNTRIES[originCode].name } : null;
+
+  // Group rules first, so the country's own rule with the same id wins
+  const keys = Object.keys(PET_DATA.destinations).filter(k => k.startsWith("@") && inCodes(destinationCode, [k]));
+  if (PET_DATA.destinations[destinationCode]) keys.push(destinationCode);
+  const byId = new Map<string, PetRequirement>();
+  (keys.length > 0 ? keys : ["*"]).forEach(k => PET_DATA.destinations[k].forEach(r => byId.set(r.id, r)));
+
+  const requirements = [...byId.values()].filter(r => {
+    if (r.species && !r.species.includes(pet.species)) return false;
+    if (!origin) return !r.from && !r.notFrom;
+    if (r.from && !inCodes(origin.code, r.from)) return false;
+    if (r.notFrom && inCodes(origin.code, r.notFrom)) return false;
+    return true;
+  });
+
+  const from = origin ? ` from ${origin.name}` : "";
+  const lead = Math.max(0, ...requirements.map(r => r.task?.leadDays ?? 0));
+  const summary = [
+    `${pet.label}${from} to ${dest.name}: ${requirements.map(r => r.document).join(", ")}.`,
+    lead >= 60 ? `Start at least ${lead} days before departure.` : "",
+    origin ? "" : "Set your home country to see the rules that depend on where your pet comes from.",
+  ].filter(Boolean).join(" ");
+  return { origin, destination: { code: destinationCode, name: dest.name }, requirements, summary };
+};
+
+// ============ CHECKLIST ITEMS ============
+const due = (startDate: string | undefined, leadDays: number, windowDays?: number) => {
+  const days = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+  const window = windowDays ? `${days(windowDays)} to ${days(leadDays)} before departure` : `${days(leadDays)} before departure`;
+  if (!isValidIsoDate(startDate)) return { reason: windowDays ? `Between ${window}` : `At least ${window}` };
+  const dueDate = addDays(startDate, -leadDays);
+  const reason = windowDays
+    ? `Between ${shortDate(addDays(startDate, -windowDays))} and ${shortDate(dueDate)} (${window})`
+    : `Do by ${shortDate(dueDate)} (${window})`;
+  return { dueDate, reason };
+};
+
+// Documents to carry and the vet appointments before them
+export const petEntryItems = (check: PetEntryCheck, startDate?: string): ChecklistItem[] =>
+  check.requirements.flatMap(r => {
+    const items: ChecklistItem[] = [
+      { id: `doc-pet-${r.id}`, name: r.document, category: "documents", essential: true, checked: false, ...(r.note ? { reason: r.note } : {}) },
+    ];
+    if (r.task) {
+      const timing = due(startDate, r.task.leadDays, r.task.windowDays);
+      items.push({ id: `pre-pet-${r.id}`, name: r.task.name, category: "preDeparture", essential: true, checked: false, ...timing });
+    }
+    return items;
+  });
+
+// Pet spots on a flight are limited, so book them with the tickets
+const PET_FLIGHT_LEAD_DAYS = 30;
+
+export interface PetFlightAdvice {
+  items: ChecklistItem[];
+  carrierNote?: string; // The airline's cabin carrier limits, for the carrier item
+}
+
+// Booking task and the airline's limits for a pet that flies; nothing for car trips
+export const petFlightAdvice = (pet: Pet, airlineCode: string | undefined, startDate?: string): PetFlightAdvice => {
+  if (pet.travel === "car") return { items: [] };
+  const airline = airlineCode ? AIRLINES[airlineCode] : undefined;
+  const policy = airline?.pets;
+  const notes: string[] = [];
+  let carrierNote: string | undefined;
+  if (airline && policy) {
+    if (pet.travel === "cabin" && policy.cabin) {
+      const { cm, kg } = policy.cabin;
+      carrierNote = `${airline.name}: soft carrier up to ${cm.join("×")} cm${kg ? `, ${kg} kg with your pet` : ""}`;
+      if (pet.size !== "small") notes.push(`Only small pets fit under the seat; ${pet.size} pets usually fly in the hold`);
+    } else if (pet.travel === "cabin") {
+      notes.push(`${airline.name} doesn't take pets in the cabin${policy.hold ? "; book a spot in the hold instead" : ""}`);
+    }
+    if ((pet.travel === "hold" || (pet.travel === "cabin" && !policy.cabin)) && !policy.hold) {
+      notes.push(`${airline.name} doesn't take pets in the hold; they have to fly as cargo`);
+    }
+  }
+  const timing = due(startDate, PET_FLIGHT_LEAD_DAYS);
+  return {
+    items: [{
+      id: `pre-pet-flight-${pet.travel}`,
+      name: `Book ${pet.label.toLowerCase()}'s spot ${pet.travel === "cabin" ? "in the cabin" : "in the hold"}`,
+      category: "preDeparture",
+      essential: true,
+      checked: false,
+      ...timing,
+      reason: [...notes, timing.reason].join(". "),
+    }],
+    ...(carrierNote ? { carrierNote } : {}),
+  };
+};
@@ -0,0 +1,143 @@
+// Plug types, mains voltage and frequency by country.
+// The table lives in shared/data/power-standards.json; this module compares the traveler's home
+// country with the destination to decide which plug adapter (if any) and whether a converter is needed.
+import { z } from "zod";
+import powerFile from "./data/power-standards.json" with { type: "json" };
+import { COUNTRIES } from "./entry-requirements.js";
+import type { ChecklistItem } from "./checklist.js";
+
+const PLUG_TYPES = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J", "K", "L", "M", "N", "O"] as const;
+export type PlugType = typeof PLUG_TYPES[number];
+
+const powerFileSchema = z.object({
+  version: z.literal(1),
+  countries: z.record(z.string().regex(/^[A-Z]{2}$/), z.object({
+    plugs: z.array(z.enum(PLUG_TYPES)).min(1), // Most useful adapter type first
+    voltage: z.array(z.number().int().positive()).min(1),
+    frequency: z.array(z.union([z.literal(50), z.literal(60)])).min(1),
+    note: z.string().optional(),
+  }).strict()),
+}).strict();
+
+export type PowerStandard = z.infer<typeof powerFileSchema>["countries"][string];
+
+const loadPowerData = (raw: unknown) => {
+  const parsed = powerFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Invalid shared/data/power-standards.json: ${issues.join("; ")}`);
+  }
+  return parsed.data.countries;
+};
+
+export const POWER_STANDARDS = loadPowerData(powerFile);
+
+// Plugs each socket type physically accepts. Europlugs (C) fit most round-pin sockets,
+// and Schuko/French plugs are sold as E/F hybrids that fit both.
+const SOCKET_ACCEPTS: Record<PlugType, PlugType[]> = {
+  A: ["A"], B: ["A", "B"], C: ["C"], D: ["D"], E: ["C", "E", "F"], F: ["C", "E", "F"],
+  G: ["G"], H: ["C", "H"], I: ["I"], J: ["C", "J"], K: ["C", "K"], L: ["C", "L"],
+  M: ["M"], N: ["C", "N"], O: ["C", "O"],
+};
+
+// 100-127V and 220-240V mains; devices rated for one band burn out or underperform on the other
+const isLowVoltage = (volts: number) => volts < 200;
+
+export interface PowerAdvice {
+  origin: { code: string; name: string } | null; // null when the home country isn't known
+  destination: { code: string; name: string };
+  standard: PowerStandard;
+  adapterTypes: PlugType[];   // Empty when home plugs already fit
+  unmatchedPlugs: PlugType[]; // Home plug types that don't fit any local socket
+  voltageChange: "none" | "up" | "down" | "mixed";
+  frequencyDiffers: boolean;
+  summary: string;
+}
+
+const countryName = (code: string) => COUNTRIES[code]?.name ?? code;
+const formatTypes = (types: string[]) => `Type ${types.join("/")}`;
+const formatVoltage = (s: PowerStandard) => `${s.voltage.join("/")}V ${s.frequency.join("/")}Hz`;
+
+export const comparePower = (originCode: string | undefined, destinationCode: string): PowerAdvice | null => {
+  const standard = POWER_STANDARDS[destinationCode];
+  if (!standard) return null;
+  const destination = { code: destinationCode, name: countryName(destinationCode) };
+  const home = originCode ? POWER_STANDARDS[originCode] : undefined;
+  const local = `${formatTypes(standard.plugs)}, ${formatVoltage(standard)}`;
+
+  if (!home || !originCode) {
+    return {
+      origin: null, destination, standard, adapterTypes: standard.plugs.slice(0, 2), unmatchedPlugs: [],
+      voltageChange: "none", frequencyDiffers: false,
+      summary: `Sockets in ${destination.name}: ${local}.`,
+    };
+  }
+
+  const origin = { code: originCode, name: countryName(originCode) };
+  const accepted = new Set(standard.plugs.flatMap(s => SOCKET_ACCEPTS[s]));
+  const unmatchedPlugs = home.plugs.filter(p => !accepted.has(p));
+  const adapterTypes = unmatchedPlugs.length > 0 ? standard.plugs.slice(0, 2) : [];
+
+  const homeLow = home.voltage.every(isLowVoltage);
+  const homeHigh = !home.voltage.some(isLowVoltage);
+  const destLow = standard.voltage.every(isLowVoltage);
+  const destHigh = !standard.voltage.some(isLowVoltage);
+  const voltageChange = homeLow && destHigh ? "up" : homeHigh && destLow ? "down" : homeLow === destLow && homeHigh === destHigh && (homeLow || homeHigh) ? "none" : "mixed";
+  const frequencyDiffers = !home.frequency.some(f => standard.frequency.includes(f));
+
+  const parts = [
+    adapterTypes.length > 0
+      ? `${origin.name} plugs (${formatTypes(home.plugs)}) don't fit sockets in ${destination.name} (${formatTypes(standard.plugs)}); bring a ${formatTypes(adapterTypes)} adapter.`
+      : `${origin.name} plugs fit sockets in ${destination.name}; no adapter needed.`,
+    voltageChange !== "none"
+      ? `Mains is ${formatVoltage(standard)} vs ${formatVoltage(home)} at home: only use devices rated for both.`
+      : frequencyDiffers ? `Mains frequency is ${standard.frequency.join("/")}Hz vs ${home.frequency.join("/")}Hz at home (matters only for motor-driven clocks and appliances).` : "",
+  ];
+  return { origin, destination, standard, adapterTypes, unmatchedPlugs, voltageChange, frequencyDiffers, summary: parts.filter(Boolean).join(" ") };
+};
+
+// High-wattage heating appliances that are often single-voltage; chargers are almost always 100-240V
+export const SINGLE_VOLTAGE_DEVICE_IDS = ["toil-hairtools", "note-hairdryer", "note-straightener"];
+
+// Adapter / converter items for the trip
+export const powerChecklistItems = (advice: PowerAdvice, hasSingleVoltageDevices: boolean): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  const { standard, destination } = advice;
+  if (advice.adapterTypes.length > 0) {
+    const reasons = advice.origin
+      ? [`Sockets in ${destination.name} are ${formatTypes(standard.plugs)}; your ${formatTypes(advice.unmatchedPlugs)} plugs won't fit`]
+      : [`Sockets in ${destination.name} are ${formatTypes(standard.plugs)} (${formatVoltage(standard)})`];
+    if (advice.voltageChange !== "none") reasons.push("Phone and laptop chargers are usually 100-240V and only need the adapter");
+    if (standard.note) reasons.push(standard.note);
+    items.push({
+      id: "tech-adapter",
+      name: `${advice.origin ? "Plug adapter" : "Power adapter"} (${formatTypes(advice.adapterTypes)})`,
+      category: "tech",
+      essential: true,
+      checked: false,
+      reason: reasons.join(". "),
+    });
+  }
+  if (advice.voltageChange !== "none" && hasSingleVoltageDevices) {
+    items.push({
+      id: "tech-converter",
+      name: "Voltage converter (for single-voltage hair tools)",
+      category: "tech",
+      essential: false,
+      checked: false,
+      reason: `Mains in ${destination.name} is ${standard.voltage.join("/")}V. Skip it if your hair tools are dual-voltage (100-240V) or you buy travel versions`,
+    });
+  }
+  return items;
+};
+
+// Warning for a single-voltage appliance, or undefined if the voltage is the same as at home
+export const voltageWarning = (advice: PowerAdvice): string | undefined => {
+  const volts = `${advice.standard.voltage.join("/")}V`;
+  switch (advice.voltageChange) {
+    case "up": return `Check the label says 100-240V: a 110-120V-only model will burn out on ${volts} mains in ${advice.destination.name}`;
+    case "down": return `Check the label says 100-240V: a 220-240V-only model will run weak or not at all on ${volts} mains in ${advice.destination.name}`;
+    case "mixed": return `Check the label says 100-240V: mains voltage in ${advice.destination.name} (${volts}) differs from home`;
+    default: return undefined;
+  }
+};
@@ -0,0 +1,394 @@
+// Declarative checklist rules.
+// Rules live in shared/data/checklist-rules.json and are validated when this module loads,
+// so a bad rule fails fast on server start / widget build instead of silently dropping items.
+import { z } from "zod";
+import type { ChecklistItem, TravelerType } from "./checklist.js";
+import { GARMENT_TYPES, garmentQuantity, garmentQuantityForDays, type GarmentType } from "./laundry.js";
+import { TRAVELER_ATTRIBUTES } from "./attributes.js";
+import { MEDICAL_NEEDS } from "./medical.js";
+
+export const RULES_FORMAT_VERSION = 1;
+
+// Facts a rule condition or quantity formula can refer to, derived from the TripProfile
+const ENUM_FACTS = {
+  climate: ["summer", "winter", "spring", "tropical", "variable"],
+  purpose: ["leisure", "business", "adventure", "beach", "city"],
+  packingConstraint: ["carry_on_only", "checked_bags", "minimal"],
+  laundry: ["none", "weekly", "every_n_days", "hotel"],
+} as const;
+
+// List facts whose values are a fixed set
+const LIST_VALUES: Record<string, readonly string[]> = {
+  attributes: TRAVELER_ATTRIBUTES,
+  medicalNeeds: MEDICAL_NEEDS,
+};
+
+const FACT_KINDS: Record<string, "boolean" | "number" | "string" | "enum" | "list"> = {
+  destination: "string",
+  isInternational: "boolean",
+  climate: "enum",
+  purpose: "enum",
+  packingConstraint: "enum",
+  tripDuration: "number",
+  baseOutfits: "number",
+  travelerCount: "number",
+  activities: "list",
+  presets: "list",
+  hasChildren: "boolean",
+  hasInfants: "boolean",
+  hasPets: "boolean",
+  hasSeniors: "boolean",
+  childAgeBands: "list",
+  petSpecies: "list",
+  petTravel: "list",
+  attributes: "list",
+  medicalNeeds: "list",
+  hasMedications: "boolean",
+  isCarryOnOnly: "boolean",
+  isBeachDestination: "boolean",
+  isColdDestination: "boolean",
+  isCoastal: "boolean",
+  entryRequirementsKnown: "boolean",
+  powerStandardsKnown: "boolean",
+  mixedClimates: "boolean",
+  laundry: "enum",
+  wearDays: "number",
+  washes: "number",
+};
+
+export type RuleFacts = {
+  destination: string;
+  isInternational: boolean;
+  climate: (typeof ENUM_FACTS.climate)[number];
+  purpose: (typeof ENUM_FACTS.purpose)[number];
+  packingConstraint: (typeof ENUM_FACTS.packingConstraint)[number];
+  tripDuration: number;
+  baseOutfits: number;
+  travelerCount: number;
+  activities: string[];
+  presets: string[];
+  hasChildren: boolean;
+  hasInfants: boolean;
+  hasPets: boolean;
+  hasSeniors: boolean;
+  childAgeBands: string[]; // "toddler", "school-age", "teen", for children with a known age
+  petSpecies: string[]; // "dog", "cat" (shared/pets.ts)
+  petTravel: string[];  // "cabin", "hold", "car"
+  attributes: string[]; // Everyone's traveler attributes (shared/attributes.ts)
+  medicalNeeds: string[]; // Medical devices and accessibility needs (shared/medical.ts)
+  hasMedications: boolean; // Someone entered their medications, so the planner lists them
+  isCarryOnOnly: boolean;
+  isBeachDestination: boolean;
+  isColdDestination: boolean;
+  isCoastal: boolean;
+  entryRequirementsKnown: boolean;
+  powerStandardsKnown: boolean;
+  mixedClimates: boolean;
+  laundry: (typeof ENUM_FACTS.laundry)[number];
+  wearDays: number; // Days of clothing packed: one wash cycle, capped to the trip
+  washes: number;   // Laundry loads during the trip
+  // Days each garment is worn per wash cycle, from the outfit plan (shared/outfits.ts). Not a condition
+  // fact: it only sets garment quantities, which fall back to wearDays without it.
+  garmentDays?: Record<GarmentType, number>;
+  // Whose list is being generated: a traveler type for one traveler's own list, unset for the group's list.
+  // Not a condition fact either: it picks the rules by their "for" field.
+  listFor?: TravelerType;
+};
+
+// ============ CONDITIONS ============
+// A condition maps fact names to matchers; all entries must match.
+//   scalar        -> equals (for list facts: list contains the value)
+//   array         -> equals any of (for list facts: lists intersect)
+//   { gt, gte, lt, lte, not } -> comparison / negated matcher
+// The special keys "any", "all" and "not" combine nested conditions.
+type Scalar = string | number | boolean;
+type Matcher = Scalar | Scalar[] | { gt?: number; gte?: number; lt?: number; lte?: number; not?: Scalar | Scalar[] };
+export type RuleCondition = {
+  any?: RuleCondition[];
+  all?: RuleCondition[];
+  not?: RuleCondition;
+  [fact: string]: Matcher | RuleCondition | RuleCondition[] | undefined;
+};
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+const matcherSchema = z.union([
+  scalarSchema,
+  z.array(scalarSchema).min(1),
+  z.object({
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+    lt: z.number().optional(),
+    lte: z.number().optional(),
+    not: z.union([scalarSchema, z.array(scalarSchema).min(1)]).optional(),
+  }).strict(),
+]);
+const conditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.record(z.string(), z.union([matcherSchema, conditionSchema, z.array(conditionSchema)]))
+) as z.ZodType<RuleCondition>;
+
+// Whose lists a rule's item goes on ("for"). Rules without it are for people, not infants or pets.
+const RULE_TRAVELERS = ["adult", "child", "infant", "senior", "pet"] as const;
+const PEOPLE: TravelerType[] = ["adult", "child", "senior"];
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "ids are lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  category: z.string().min(1),
+  essential: z.boolean(),
+  quantity: z.union([z.number().int().positive(), z.string().min(1)]).optional(),
+  garment: z.enum(GARMENT_TYPES).optional(), // Quantity from the wash cycle and this garment's rewear factor
+  for: z.array(z.enum(RULE_TRAVELERS)).min(1).optional(),
+  when: conditionSchema.optional(),
+}).strict();
+
+const ruleFileSchema = z.object({
+  version: z.literal(RULES_FORMAT_VERSION, {
+    errorMap: () => ({ message: `unsupported rules format version (this build reads version ${RULES_FORMAT_VERSION})` }),
+  }),
+  rules: z.array(z.unknown()),
+}).strict();
+
+export type ChecklistRule = z.infer<typeof ruleSchema>;
+
+// ============ QUANTITY FORMULAS ============
+// Tiny arithmetic language: numbers, numeric facts, + - * / and parentheses,
+// plus min(), max(), ceil(), floor() and round(). No eval. Dividing by a constant zero is a load error;
+// dividing by a fact that is 0 (washes with no laundry) evaluates to 0 instead of Infinity or NaN.
+type Expr =
+  | { kind: "num"; value: number }
+  | { kind: "var"; name: string }
+  | { kind: "neg"; arg: Expr }
+  | { kind: "bin"; op: "+" | "-" | "*" | "/"; left: Expr; right: Expr }
+  | { kind: "call"; fn: string; args: Expr[] };
+
+const FORMULA_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min, max: Math.max, ceil: Math.ceil, floor: Math.floor, round: Math.round,
+};
+
+const isConstant = (expr: Expr): boolean =>
+  expr.kind === "num" ||
+  (expr.kind === "neg" && isConstant(expr.arg)) ||
+  (expr.kind === "bin" && isConstant(expr.left) && isConstant(expr.right)) ||
+  (expr.kind === "call" && expr.args.every(isConstant));
+
+export const parseFormula = (source: string): Expr => {
+  const tokens = source.match(/\d+(?:\.\d+)?|[A-Za-z_]\w*|[-+*/(),]|\S/g) || [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (tok: string) => {
+    if (tokens[pos] !== tok) throw new Error(`expected "${tok}" but found ${tokens[pos] ? `"${tokens[pos]}"` : "end of formula"}`);
+    pos++;
+  };
+
+  const parsePrimary = (): Expr => {
+    const tok = tokens[pos++];
+    if (tok === undefined) throw new Error("unexpected end of formula");
+    if (/^\d/.test(tok)) return { kind: "num", value: Number(tok) };
+    if (tok === "-") return { kind: "neg", arg: parsePrimary() };
+    if (tok === "(") {
+      const inner = parseSum();
+      expect(")");
+      return inner;
+    }
+    if (/^[A-Za-z_]/.test(tok)) {
+      if (peek() !== "(") {
+        if (FACT_KINDS[tok] !== "number") throw new Error(`unknown numeric fact "${tok}"`);
+        return { kind: "var", name: tok };
+      }
+      if (!FORMULA_FUNCTIONS[tok]) throw new Error(`unknown function "${tok}"`);
+      pos++;
+      const args: Expr[] = [parseSum()];
+      while (peek() === ",") { pos++; args.push(parseSum()); }
+      expect(")");
+      return { kind: "call", fn: tok, args };
+    }
+    throw new Error(`unexpected "${tok}"`);
+  };
+  const parseProduct = (): Expr => {
+    let left = parsePrimary();
+    while (peek() === "*" || peek() === "/") {
+      const op = tokens[pos++] as "*" | "/";
+      const right = parsePrimary();
+      if (op === "/" && isConstant(right) && evaluateFormula(right, {} as RuleFacts) === 0) throw new Error("division by zero");
+      left = { kind: "bin", op, left, right };
+    }
+    return left;
+  };
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      const op = tokens[pos++] as "+" | "-";
+      left = { kind: "bin", op, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const expr = parseSum();
+  if (pos < tokens.length) throw new Error(`unexpected "${tokens[pos]}"`);
+  return expr;
+};
+
+const evaluateNode = (expr: Expr, facts: RuleFacts): number => {
+  switch (expr.kind) {
+    case "num": return expr.value;
+    case "var": return facts[expr.name as keyof RuleFacts] as number;
+    case "neg": return -evaluateFormula(expr.arg, facts);
+    case "call": return FORMULA_FUNCTIONS[expr.fn](...expr.args.map(a => evaluateFormula(a, facts)));
+    case "bin": {
+      const l = evaluateFormula(expr.left, facts);
+      const r = evaluateFormula(expr.right, facts);
+      if (expr.op === "+") return l + r;
+      if (expr.op === "-") return l - r;
+      if (expr.op === "*") return l * r;
+      return l / r;
+    }
+  }
+};
+
+export const evaluateFormula = (expr: Expr, facts: RuleFacts): number => {
+  const value = evaluateNode(expr, facts);
+  return Number.isFinite(value) ? value : 0;
+};
+
+// ============ LOADING ============
+export interface CompiledRule extends ChecklistRule {
+  quantityExpr?: Expr;
+}
+
+export interface RuleSet {
+  version: number;
+  rules: CompiledRule[];
+}
+
+const describeRule = (index: number, raw: unknown) => {
+  const id = raw && typeof raw === "object" && "id" in raw && typeof raw.id === "string" ? ` "${raw.id}"` : "";
+  return `rules[${index}]${id}`;
+};
+
+// Check fact names and value types inside a condition; returns human-readable problems
+const checkCondition = (cond: RuleCondition, path: string, problems: string[]) => {
+  Object.entries(cond).forEach(([key, value]) => {
+    const at = `${path}.${key}`;
+    if (key === "any" || key === "all") {
+      if (!Array.isArray(value) || value.length === 0) { problems.push(`${at}: expected a non-empty list of conditions`); return; }
+      value.forEach((c, i) => checkCondition(c as RuleCondition, `${at}[${i}]`, problems));
+      return;
+    }
+    if (key === "not") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) { problems.push(`${at}: expected a condition object`); return; }
+      checkCondition(value as RuleCondition, at, problems);
+      return;
+    }
+    const kind = FACT_KINDS[key];
+    if (!kind) { problems.push(`${at}: unknown fact "${key}" (known facts: ${Object.keys(FACT_KINDS).join(", ")})`); return; }
+
+    const checkScalar = (v: unknown) => {
+      if (kind === "boolean" && typeof v !== "boolean") problems.push(`${at}: "${key}" is true/false, got ${JSON.stringify(v)}`);
+      if (kind === "number" && typeof v !== "number") problems.push(`${at}: "${key}" is a number, got ${JSON.stringify(v)}`);
+      if ((kind === "string" || kind === "list") && typeof v !== "string") problems.push(`${at}: "${key}" takes text values, got ${JSON.stringify(v)}`);
+      if (kind === "enum" || LIST_VALUES[key]) {
+        const allowed = (LIST_VALUES[key] || ENUM_FACTS[key as keyof typeof ENUM_FACTS]) as readonly string[];
+        if (!allowed.includes(v as string)) problems.push(`${at}: unknown ${key} ${JSON.stringify(v)} (expected one of ${allowed.join(", ")})`);
+      }
+    };
+
+    if (Array.isArray(value)) {
+      value.forEach(checkScalar);
+    } else if (value !== null && typeof value === "object") {
+      const m = value as Exclude<Matcher, Scalar | Scalar[]>;
+      if ((m.gt ?? m.gte ?? m.lt ?? m.lte) !== undefined && kind !== "number") problems.push(`${at}: comparisons only work on numeric facts`);
+      if (m.not !== undefined) (Array.isArray(m.not) ? m.not : [m.not]).forEach(checkScalar);
+    } else {
+      checkScalar(value);
+    }
+  });
+};
+
+// Validate and compile a rules file. Throws one Error listing every bad rule.
+export const loadChecklistRules = (raw: unknown, source = "checklist rules"): RuleSet => {
+  const file = ruleFileSchema.safeParse(raw);
+  if (!file.success) {
+    const issues = file.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid ${source}: ${issues.join("; ")}`);
+  }
+
+  const problems: string[] = [];
+  const seenIds = new Set<string>();
+  const rules: CompiledRule[] = [];
+
+  file.data.rules.forEach((rawRule, index) => {
+    const label = describeRule(index, rawRule);
+    const parsed = ruleSchema.safeParse(rawRule);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(i => problems.push(`${label}${i.path.length ? "." + i.path.join(".") : ""}: ${i.message}`));
+      return;
+    }
+    const rule: CompiledRule = { ...parsed.data };
+
+    if (seenIds.has(rule.id)) problems.push(`${label}: duplicate id`);
+    seenIds.add(rule.id);
+
+    if (rule.when) checkCondition(rule.when, `${label}.when`, problems);
+
+    if (rule.garment && rule.quantity !== undefined) problems.push(`${label}: set either "garment" or "quantity", not both`);
+    if (typeof rule.quantity === "string") {
+      try {
+        rule.quantityExpr = parseFormula(rule.quantity);
+      } catch (e) {
+        problems.push(`${label}.quantity: bad formula "${rule.quantity}": ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    rules.push(rule);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${source} (${problems.length} problem${problems.length === 1 ? "" : "s"}):\n  ${problems.join("\n  ")}`);
+  }
+  return { version: file.data.version, rules };
+};
+
+// ============ EVALUATION ============
+const matchScalar = (actual: unknown, expected: Scalar) =>
+  Array.isArray(actual) ? actual.includes(expected) : actual === expected;
+
+const matchValue = (actual: unknown, matcher: Matcher): boolean => {
+  if (Array.isArray(matcher)) return matcher.some(m => matchScalar(actual, m));
+  if (matcher !== null && typeof matcher === "object") {
+    const n = actual as number;
+    if (matcher.gt !== undefined && !(n > matcher.gt)) return false;
+    if (matcher.gte !== undefined && !(n >= matcher.gte)) return false;
+    if (matcher.lt !== undefined && !(n < matcher.lt)) return false;
+    if (matcher.lte !== undefined && !(n <= matcher.lte)) return false;
+    if (matcher.not !== undefined && matchValue(actual, matcher.not)) return false;
+    return true;
+  }
+  return matchScalar(actual, matcher);
+};
+
+export const matchesCondition = (cond: RuleCondition | undefined, facts: RuleFacts): boolean => {
+  if (!cond) return true;
+  return Object.entries(cond).every(([key, value]) => {
+    if (key === "any") return (value as RuleCondition[]).some(c => matchesCondition(c, facts));
+    if (key === "all") return (value as RuleCondition[]).every(c => matchesCondition(c, facts));
+    if (key === "not") return !matchesCondition(value as RuleCondition, facts);
+    return matchValue(facts[key as keyof RuleFacts], value as Matcher);
+  });
+};
+
+// The group's list takes every matching rule; one traveler's list only the rules for their type
+export const evaluateRules = (ruleSet: RuleSet, facts: RuleFacts): ChecklistItem[] =>
+  ruleSet.rules
+    .filter(rule => !facts.listFor || (rule.for || PEOPLE).includes(facts.listFor))
+    .filter(rule => matchesCondition(rule.when, facts))
+    .map(rule => {
+      const item: ChecklistItem = { id: rule.id, name: rule.name, category: rule.category, essential: rule.essential, checked: false };
+      if (typeof rule.quantity === "number") item.quantity = `${rule.quantity}`;
+      else if (rule.quantityExpr) item.quantity = `${Math.max(1, Math.round(evaluateFormula(rule.quantityExpr, facts)))}`;
+      else if (rule.garment) {
+        const quantity = facts.garmentDays
+          ? garmentQuantityForDays(rule.garment, facts.garmentDays[rule.garment])
+          : garmentQuantity(rule.garment, facts.wearDays);
+        item.quantity = `${quantity}`;
+      }
+      return item;
+    });
@@ -29,6 +29,45 @@ import {
   type Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import {
+  CATEGORY_NAMES,
+  DEFAULT_PROFILE,
+  generateChecklist,
+  getBag,
+  getEntryChecks,
+  getLaundryPlan,
+  getLegProfiles,
+  getAgeBand,
+  getPets,
+  getPowerAdvice,
+  ageOn,
+  generateIndividualChecklists,
+  addTraveler,
+  getIndividualTravelers,
+  getTravelerAttributes,
+  getMedicationPlans,
+  getTravelerTotal,
+  groupByCategory,
+  setTravelerCount,
+  type ChecklistItem,
+  type TravelerDetails,
+  type TravelerInfo,
+  type TravelerType,
+  type TripProfile,
+} from "../shared/checklist.js";
+import { daysBetween, isValidIsoDate, resolveTripDates, type ResolvedTripDates } from "../shared/dates.js";
+import { lookupDestination, monthOf, parseMonthName, resolveClimate, type ClimateResolution } from "../shared/gazetteer.js";
+import { checkEntryRequirements, destinationCountryOf, entryChecklistItems, resolveCountry, type EntryCheck } from "../shared/entry-requirements.js";
+import { BAGS, estimateLoad } from "../shared/luggage.js";
+import { AIRLINES, checkBaggageAllowance, resolveAirline } from "../shared/airlines.js";
+import { CONTAINER_LIMIT_ML, checkLiquids, liquidsApply } from "../shared/liquids.js";
+import { planOutfits } from "../shared/outfits.js";
+import { PET_SIZES, PET_SPECIES, PET_TRAVEL_MODES, checkPetEntry, petEntryItems, type PetDetails } from "../shared/pets.js";
+import { TRAVELER_ATTRIBUTES } from "../shared/attributes.js";
+import { MEDICAL_NEEDS } from "../shared/medical.js";
+import { MEDICATION_FREQUENCIES } from "../shared/medications.js";
+import { explicitProvenance, fillDefaults, inferred, mergeParsedFields, parseTripText } from "./trip-parser.js";
+import { createLiveProvider, createRateLimiter, createWeatherProxy, loadFixtureProvider, type ProxyResult } from "./weather-proxy.js";
 
 type TravelChecklistWidget = {
   id: string;
@@ -123,32 +162,290 @@ function classifyDevice(userAgent?: string | null): string {
   return "Other";
 }
 
-function computeSummary(args: any) {
-  // Compute travel checklist summary
-  const destination = args.destination || "Not specified";
-  const tripDuration = Number(args.trip_duration) || 5;
-  const isInternational = Boolean(args.is_international);
-  const climate = args.climate || "summer";
-  const purpose = args.purpose || "leisure";
-  const travelers = Number(args.travelers) || 1;
-  
-  // Estimate checklist items based on trip profile
-  let estimatedItems = 25; // Base items
-  if (isInternational) estimatedItems += 5; // Extra documents
-  if (tripDuration > 7) estimatedItems += 5; // More clothing
-  if (purpose === "business") estimatedItems += 3;
-  if (purpose === "adventure") estimatedItems += 8;
-  if (travelers > 1) estimatedItems += 5;
-  
+// Map tool arguments onto the same TripProfile the widget builds during hydration
+function buildTripProfile(args: z.infer<typeof toolInputParser>): TripProfile {
+  let tripDuration = 7;
+  if (args.trip_duration) {
+    tripDuration = Number(args.trip_duration);
+  } else if (args.trip_weeks) {
+    tripDuration = Number(args.trip_weeks) * 7;
+  } else if (args.start_date && args.end_date) {
+    const diff = Math.round((Date.parse(args.end_date) - Date.parse(args.start_date)) / (1000 * 60 * 60 * 24)) + 1;
+    if (diff > 0) tripDuration = diff;
+  }
+
+  let travelers: TravelerInfo[] = [];
+  const setCount = (type: TravelerType, count: number) => { travelers = setTravelerCount(travelers, type, count); };
+
+  let hasTravelerData = false;
+  // Nobody is counted by gender; what each person packs for comes from the attributes they opt into
+  if (args.adults && args.adults > 0) { setCount("adult", args.adults); hasTravelerData = true; }
+  if (args.children && args.children > 0) { setCount("child", args.children); hasTravelerData = true; }
+  if (args.infants && args.infants > 0) { setCount("infant", args.infants); hasTravelerData = true; }
+  if (args.seniors && args.seniors > 0) { setCount("senior", args.seniors); hasTravelerData = true; }
+  if (args.has_children && !args.children) { setCount("child", 1); hasTravelerData = true; }
+  if (args.has_infants && !args.infants) { setCount("infant", 1); hasTravelerData = true; }
+  // Each pet is a traveler of its own species, in the order given
+  const pets: Record<string, PetDetails> = {};
+  const travelerDetails: Record<string, TravelerDetails> = {};
+  if (args.pets && args.pets.length > 0) {
+    args.pets.forEach((pet) => {
+      const added = addTraveler(travelers, "pet", pet.species);
+      travelers = added.travelers;
+      pets[added.traveler.id] = {
+        ...(pet.size ? { size: pet.size } : {}),
+        ...(pet.travel ? { travel: pet.travel } : {}),
+      };
+      if (pet.name) travelerDetails[added.traveler.id] = { name: pet.name };
+    });
+    hasTravelerData = true;
+  } else if (args.has_pets) { setCount("pet", 1); hasTravelerData = true; }
+  // Described travelers are the first of their type not described yet, or one more of that type
+  (args.traveler_details || []).forEach((person) => {
+    let traveler = travelers.find((t) => t.type === person.type && !travelerDetails[t.id]);
+    if (!traveler) ({ traveler, travelers } = addTraveler(travelers, person.type));
+    travelerDetails[traveler.id] = {
+      ...(person.name ? { name: person.name } : {}),
+      ...(person.age !== undefined ? { age: person.age } : {}),
+      ...(person.birth_date ? { birthDate: person.birth_date } : {}),
+      ...(person.attributes ? { attributes: person.attributes } : {}),
+      ...(person.medical ? { medical: person.medical } : {}),
+      ...(person.medications ? {
+        medications: person.medications.map((m) => ({
+          name: m.name,
+          ...(m.dose ? { dose: m.dose } : {}),
+          ...(m.units_per_dose ? { unitsPerDose: m.units_per_dose } : {}),
+          ...(m.unit ? { unit: m.unit } : {}),
+          ...(m.frequency ? { frequency: m.frequency } : {}),
+          ...(m.times ? { times: m.times } : {}),
+          ...(m.controlled !== undefined ? { controlled: m.controlled } : {}),
+        })),
+      } : {}),
+    };
+    hasTravelerData = true;
+  });
+  // Bare ages ("kids aged 4 and 9") go to the children not described above, in id order
+  if (args.child_ages && args.child_ages.length > 0) {
+    const undescribed = () => travelers.filter((t) => t.type === "child" && !travelerDetails[t.id]);
+    const missing = args.child_ages.length - undescribed().length;
+    if (missing > 0) setCount("child", getTravelerTotal(travelers, "child") + missing);
+    const children = undescribed();
+    args.child_ages.forEach((age, i) => { travelerDetails[children[i].id] = { age }; });
+    hasTravelerData = true;
+  }
+  // A total larger than the breakdown adds the remaining people as adults ("me, my wife and 2 kids" = 4)
+  const people = travelers.filter((t) => t.type !== "pet").length;
+  if (args.travelers && args.travelers > people) { setCount("adult", getTravelerTotal(travelers, "adult") + args.travelers - people); hasTravelerData = true; }
+  if (!hasTravelerData) setCount("adult", 1);
+
   return {
-    destination,
-    trip_duration: tripDuration,
-    is_international: isInternational,
-    climate,
-    purpose,
+    ...DEFAULT_PROFILE,
+    destination: args.destination || "",
+    isInternational: Boolean(args.is_international),
+    climate: args.climate || DEFAULT_PROFILE.climate,
+    tripDuration,
+    startDate: args.start_date || "",
+    endDate: args.end_date || "",
     travelers,
-    estimated_items: estimatedItems,
-    trip_type: isInternational ? "International" : "Domestic"
+    purpose: args.purpose || DEFAULT_PROFILE.purpose,
+    packingConstraint: args.packing_constraint || DEFAULT_PROFILE.packingConstraint,
+    ...(args.bag ? { bag: args.bag } : {}),
+    ...(resolveAirline(args.airline) ? { airline: resolveAirline(args.airline) } : {}),
+    ...(args.laundry ? { laundry: args.laundry } : {}),
+    ...(args.laundry_every_days ? { laundryEveryDays: args.laundry_every_days } : {}),
+    activities: args.activities || [],
+    presets: args.presets || [],
+    nationality: resolveCountry(args.nationality) || "",
+    homeCountry: resolveCountry(args.home_country) || "",
+    ...(args.home_time_zone ? { homeTimeZone: args.home_time_zone } : {}),
+    ...(args.medication_buffer_days !== undefined ? { medicationBufferDays: args.medication_buffer_days } : {}),
+    travelerDetails,
+    pets,
+    legs: (args.legs || []).map((leg) => ({
+      destination: leg.destination,
+      startDate: leg.start_date || "",
+      endDate: leg.end_date || "",
+      ...(leg.days ? { days: leg.days } : {}),
+      climate: leg.climate || args.climate || DEFAULT_PROFILE.climate,
+      ...(leg.purpose ? { purpose: leg.purpose } : {}),
+    })),
+  };
+}
+
+// What each traveler packs into their own bag. A solo traveler's bag holds the main list (which has the presets).
+// Pets have a list but no bag allowance of their own.
+function bagLists(profile: TripProfile, checklist: ChecklistItem[], individualLists: Record<string, ChecklistItem[]>) {
+  const individuals = getIndividualTravelers(profile.travelers, profile.travelerDetails);
+  const people = individuals.filter((t) => t.type !== "pet");
+  return individuals.length <= 1
+    ? [{ id: individuals[0]?.id || "shared", label: individuals[0]?.label || "You", items: checklist }]
+    : people.map((t) => ({ id: t.id, label: t.label, items: individualLists[t.id] || [] }));
+}
+
+// Each traveler's list against their bag
+function serializeLuggage(profile: TripProfile, checklist: ChecklistItem[], individualLists: Record<string, ChecklistItem[]>) {
+  const bag = getBag(profile);
+  const lists = bagLists(profile, checklist, individualLists);
+  return {
+    bag,
+    bag_label: BAGS[bag].label,
+    capacity_kg: BAGS[bag].kg,
+    capacity_l: BAGS[bag].liters,
+    travelers: lists.map(({ id, label, items }) => {
+      const load = estimateLoad(items, bag);
+      return {
+        id,
+        label,
+        weight_kg: load.weightKg,
+        volume_l: load.volumeL,
+        fits: load.fits,
+        over: [...(load.overWeight ? ["weight"] : []), ...(load.overVolume ? ["volume"] : [])],
+        drop_first: load.dropFirst.map((line) => line.name),
+        fits_after_drops: load.fitsAfterDrops,
+      };
+    }),
+  };
+}
+
+// Carry-on liquids for the shared list (one quart bag per person) and each traveler's own list; null with checked bags
+function serializeLiquids(profile: TripProfile, checklist: ChecklistItem[], individualLists: Record<string, ChecklistItem[]>) {
+  if (!liquidsApply(profile.packingConstraint)) return null;
+  const individuals = getIndividualTravelers(profile.travelers, profile.travelerDetails);
+  const people = individuals.filter((t) => t.type !== "pet").length;
+  const lists = individuals.length <= 1
+    ? bagLists(profile, checklist, individualLists).map((l) => ({ ...l, bags: 1 }))
+    : [
+        { id: "shared", label: "Shared list", items: checklist, bags: people },
+        ...individuals.filter((t) => t.type !== "pet").map((t) => ({ id: t.id, label: t.label, items: individualLists[t.id] || [], bags: 1 })),
+      ];
+  return {
+    container_limit_ml: CONTAINER_LIMIT_ML,
+    lists: lists.map(({ id, label, items, bags }) => {
+      const check = checkLiquids(items, bags);
+      return {
+        id,
+        label,
+        bags: check.bags,
+        capacity_ml: check.capacityMl,
+        needed_ml: check.neededMl,
+        bag_ml: check.bagMl,
+        fits: check.fits,
+        items: check.lines.map((l) => ({ id: l.id, name: l.name, form: l.form, ml: l.ml, count: l.count, action: l.action })),
+        summary: check.summary,
+      };
+    }),
+  };
+}
+
+// Each traveler's carry-on-only or minimal plan against the airline's cabin allowance; null without an airline
+function serializeBaggageAllowance(profile: TripProfile, requestedAirline: string | undefined, checklist: ChecklistItem[], individualLists: Record<string, ChecklistItem[]>) {
+  const code = profile.airline;
+  if (!code) {
+    return requestedAirline
+      ? { known: false, airline: null, summary: `No baggage data for "${requestedAirline}"; check the airline's website for cabin limits.` }
+      : null;
+  }
+  const airline = AIRLINES[code];
+  const bag = getBag(profile);
+  const checks = bagLists(profile, checklist, individualLists).map(({ id, label, items }) => ({
+    id,
+    label,
+    check: checkBaggageAllowance(code, profile.packingConstraint, bag, estimateLoad(items, bag)),
+  }));
+  const failing = checks.find(({ check }) => check && !check.ok);
+  const first = checks[0]?.check;
+  const checkedBag = `${airline.name} checked bags: up to ${airline.checked.kg} kg${airline.checked.included ? "" : " (extra fee on the cheapest fares)"}.`;
+  return {
+    known: true,
+    airline: { code, name: airline.name, budget: Boolean(airline.budget) },
+    constraint: profile.packingConstraint,
+    pieces: (first?.pieces || []).map((p) => ({ kind: p.kind, cm: p.cm, kg: p.kg, included: p.included })),
+    cabin_total_kg: airline.cabin_total_kg ?? null,
+    checked_bag: { kg: airline.checked.kg, linear_cm: airline.checked.linear_cm ?? null, included: airline.checked.included },
+    fees: first?.fees || [],
+    note: airline.note || null,
+    travelers: checks.flatMap(({ id, label, check }) => check
+      ? [{
+          id,
+          label,
+          ok: check.ok,
+          bag_fits: check.bagFits,
+          weight_ok: check.weightOk,
+          volume_ok: check.volumeOk,
+          limit_kg: check.limitKg,
+          limit_l: check.limitL,
+          issues: check.issues,
+        }]
+      : []),
+    summary: first ? (failing?.check || first).summary : checkedBag,
+  };
+}
+
+// Entry requirements in tool-result form (shared by the checklist tool and the entry-requirements tool)
+function serializeEntryCheck(check: EntryCheck, startDate?: string) {
+  return {
+    nationality: check.nationality,
+    destination: check.destination,
+    known: check.known,
+    domestic: check.domestic,
+    requirement: check.requirement
+      ? {
+          type: check.requirement.type,
+          name: check.requirement.name ?? null,
+          lead_days: check.requirement.leadDays ?? null,
+          max_stay_days: check.requirement.maxStayDays ?? null,
+          url: check.requirement.url ?? null,
+          note: check.requirement.note ?? null,
+        }
+      : null,
+    passport: check.passport
+      ? { rule: check.passport.summary, valid_until: check.passport.validUntil ?? null, blank_pages: check.passport.blankPages }
+      : null,
+    tasks: entryChecklistItems(check, startDate).map((i) => ({
+      name: i.name,
+      category: i.category,
+      ...(i.reason ? { reason: i.reason } : {}),
+      ...(i.dueDate ? { due_date: i.dueDate } : {}),
+    })),
+    summary: check.summary,
+  };
+}
+
+// Compact, category-grouped form of a checklist for structuredContent
+function serializeChecklist(items: ChecklistItem[]) {
+  return {
+    total_items: items.length,
+    essential_items: items.filter((i) => i.essential).length,
+    categories: Object.entries(groupByCategory(items)).map(([category, categoryItems]) => ({
+      category,
+      name: CATEGORY_NAMES[category] || category,
+      items: categoryItems.map((i) => ({
+        id: i.id,
+        name: i.name,
+        ...(i.quantity ? { quantity: i.quantity } : {}),
+        essential: i.essential,
+        ...(i.reason ? { reason: i.reason } : {}),
+        ...(i.dueDate ? { due_date: i.dueDate } : {}),
+      })),
+    })),
+  };
+}
+
+function computeSummary(profile: TripProfile, checklist: ChecklistItem[]) {
+  const travelers = profile.travelers.filter((t) => t.type !== "pet").length;
+  const seniors = getTravelerTotal(profile.travelers, "senior");
+
+  return {
+    destination: profile.destination || "Not specified",
+    trip_duration: profile.tripDuration,
+    is_international: profile.isInternational,
+    climate: profile.climate,
+    purpose: profile.purpose,
+    travelers,
+    seniors,
+    total_items: checklist.length,
+    essential_items: checklist.filter((i) => i.essential).length,
+    trip_type: profile.isInternational ? "International" : "Domestic"
   };
 }
 
@@ -247,10 +544,7 @@ function widgetMeta(widget: TravelChecklistWidget, bustCache: boolean = false) {
     "openai/widgetPrefersBorder": true,
     "openai/widgetCSP": {
       connect_domains: [
-        "https://travel-checklist-q79n.onrender.com",
-        "https://nominatim.openstreetmap.org",
-        "https://api.open-meteo.com",
-        "https://geocoding-api.open-meteo.com"
+        "https://travel-checklist-q79n.onrender.com"
       ],
       resource_domains: [
         "https://travel-checklist-q79n.onrender.com"
@@ -291,25 +585,100 @@ const toolInputSchema = {
     destination: { type: "string", description: "Travel destination (city, country, or region)." },
     start_date: { type: "string", description: "Trip start date in YYYY-MM-DD format (use this only if user gives exact date)." },
     end_date: { type: "string", description: "Trip end date in YYYY-MM-DD format (use this only if user gives exact date)." },
-    trip_month: { type: "string", description: "Month of travel if user says 'in December', 'in January', etc. Use lowercase month name." },
+    trip_month: { type: "string", description: "Month of travel if user says 'in December', 'in January', etc. Use lowercase month name. The server works out the season at the destination from this, so don't translate it into a climate." },
     departure_timing: { type: "string", enum: ["this_week", "next_week", "in_two_weeks", "in_three_weeks", "this_weekend", "next_weekend", "next_month", "in_two_months"], description: "Relative departure timing like 'going in two weeks', 'leaving next week', 'this weekend'." },
     trip_duration: { type: "number", description: "Trip duration in days." },
     trip_weeks: { type: "number", description: "Trip duration in weeks if user says 'for one week', 'for two weeks', etc." },
     is_international: { type: "boolean", description: "Whether this is an international trip." },
-    climate: { type: "string", enum: ["summer", "winter", "spring", "tropical", "variable"], description: "Expected weather/climate at destination." },
+    climate: { type: "string", enum: ["summer", "winter", "spring", "tropical", "variable"], description: "Expected weather/climate at destination, only if the user describes it. When the destination and travel month are known, the server resolves this from climate normals (hemisphere-aware)." },
     purpose: { type: "string", enum: ["leisure", "business", "adventure", "beach", "city"], description: "Primary purpose of the trip." },
-    adult_males: { type: "number", description: "Number of adult male travelers." },
-    adult_females: { type: "number", description: "Number of adult female travelers." },
-    male_children: { type: "number", description: "Number of male children." },
-    female_children: { type: "number", description: "Number of female children." },
+    adults: { type: "number", description: "Number of adults, including the user. Words like 'wife' or 'partner' say who is coming, not what anyone packs; that comes from each person's attributes." },
+    children: { type: "number", description: "Number of children." },
     infants: { type: "number", description: "Number of infants." },
-    travelers: { type: "number", description: "Total number of travelers (if breakdown not specified, assume adult males)." },
+    seniors: { type: "number", description: "Number of seniors (grandparents, elderly travelers, roughly 65+)." },
+    travelers: { type: "number", description: "Total number of travelers, including children and seniors. Anyone not covered by the breakdown is counted as an adult." },
     packing_constraint: { type: "string", enum: ["carry_on_only", "checked_bags", "minimal"], description: "Luggage type constraint." },
+    bag: { type: "string", enum: ["personal_item", "backpack", "carry_on", "checked"], description: "Bag each traveler packs into, if the user names one. Defaults from packing_constraint (carry-on only: carry_on, minimal: backpack)." },
+    airline: { type: "string", description: "Airline the user is flying (name or IATA code, e.g. 'Ryanair', 'U2'). Carry-on only and minimal plans are checked against its cabin bag limits." },
+    laundry: { type: "string", enum: ["none", "weekly", "every_n_days", "hotel"], description: "How often the travelers can do laundry. Clothing is packed for one wash cycle; defaults to weekly." },
+    laundry_every_days: { type: "number", description: "Days between washes when laundry is 'every_n_days'." },
     has_children: { type: "boolean", description: "Whether traveling with children." },
     has_infants: { type: "boolean", description: "Whether traveling with infants." },
     has_pets: { type: "boolean", description: "Whether traveling with pets." },
+    traveler_details: {
+      type: "array",
+      description: "Travelers the user names, gives ages for or describes ('my daughter Mia, 7'). Each one fills the next traveler of that type in the counts above, or adds one.",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["adult", "child", "infant", "senior"] },
+          name: { type: "string" },
+          age: { type: "number", description: "Age in years." },
+          birth_date: { type: "string", description: "Birth date in YYYY-MM-DD format, if given instead of an age." },
+          attributes: { type: "array", items: { type: "string", enum: [...TRAVELER_ATTRIBUTES] }, description: "What this person packs for, only if the user says (e.g. shaves, wearsMakeup, menstruates). Items like period products or shaving gear are only packed for people with the attribute." },
+          medical: { type: "array", items: { type: "string", enum: [...MEDICAL_NEEDS] }, description: "Medical devices or accessibility needs the user mentions for this person (e.g. a CPAP for sleep apnea, a wheelchair, an insulin pump or CGM, hearing aids). Adds the devices, documents and airline arrangements." },
+          medications: {
+            type: "array",
+            description: "Medications the user says this person takes. Each one gets a trip quantity, a dosing schedule for the time difference and, abroad, a prescription copy if it's a controlled substance.",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "As on the label, e.g. 'Metformin' or 'Adderall XR'." },
+                dose: { type: "string", description: "Strength per dose, e.g. '500 mg'." },
+                units_per_dose: { type: "number", description: "Tablets, puffs or injections per dose. Default 1." },
+                unit: { type: "string", description: "What's counted, singular: 'tablet', 'capsule', 'pen'." },
+                frequency: { type: "string", enum: [...MEDICATION_FREQUENCIES] },
+                times: { type: "array", items: { type: "string" }, description: "Home clock times as HH:MM, one per dose, if given." },
+                controlled: { type: "boolean", description: "Only if the user says it's a controlled substance; well-known ones are flagged anyway." },
+              },
+              required: ["name"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["type"],
+        additionalProperties: false,
+      },
+    },
+    child_ages: { type: "array", items: { type: "number" }, description: "Ages of the children in years when the user gives them without names ('kids aged 4 and 9'). Toddlers, school-age children and teens get different items." },
+    pets: {
+      type: "array",
+      description: "Each pet coming along, when the user names them ('our small dog flies in the cabin'). Replaces has_pets.",
+      items: {
+        type: "object",
+        properties: {
+          species: { type: "string", enum: [...PET_SPECIES], description: "Dog or cat." },
+          size: { type: "string", enum: [...PET_SIZES], description: "small (under 8 kg), medium (8-25 kg) or large. Defaults to small for cats and medium for dogs." },
+          travel: { type: "string", enum: [...PET_TRAVEL_MODES], description: "How the pet travels. Defaults to car for domestic trips; abroad, small pets fly in the cabin and bigger ones in the hold." },
+          name: { type: "string", description: "The pet's name, if given." },
+        },
+        required: ["species"],
+        additionalProperties: false,
+      },
+    },
     activities: { type: "array", items: { type: "string" }, description: "Planned activities (hiking, beach, camping, etc.)." },
     presets: { type: "array", items: { type: "string", enum: ["lightSleeper", "gymRat", "yoga", "swimmer", "remoteWorker", "contentCreator", "gamer", "photographer"] }, description: "Traveler presets - lightSleeper (mentions sleep issues, light sleeper), gymRat (gym, workout, fitness), yoga, swimmer (swimming, pool), remoteWorker (remote work, digital nomad), contentCreator (influencer, content creator, vlogger), gamer (gaming), photographer (photography)." },
+    nationality: { type: "string", description: "Passport nationality of the travelers (country, nationality adjective or ISO code, e.g. 'US', 'British'). Only if the user states it." },
+    home_time_zone: { type: "string", description: "IANA timezone the travelers depart from (e.g. 'America/New_York'), for the medication schedule. Only if stated; otherwise taken from the user's location." },
+    medication_buffer_days: { type: "number", description: "Spare days of medication to pack on top of the trip. Default 3." },
+    home_country: { type: "string", description: "Country the travelers live in / depart from (name or ISO code), used for plug adapters and voltage. Only if stated; otherwise taken from the user's location." },
+    legs: {
+      type: "array",
+      description: "Stops of a multi-destination trip in travel order, e.g. '3 days Reykjavik then 5 days Lisbon'. Use when the user names two or more destinations; destination, dates and duration are then taken from the legs.",
+      items: {
+        type: "object",
+        properties: {
+          destination: { type: "string", description: "City, country, or region of this stop." },
+          start_date: { type: "string", description: "Arrival date at this stop in YYYY-MM-DD format, if known." },
+          end_date: { type: "string", description: "Departure date from this stop in YYYY-MM-DD format, if known." },
+          days: { type: "number", description: "Days spent at this stop." },
+          climate: { type: "string", enum: ["summer", "winter", "spring", "tropical", "variable"], description: "Only if the user describes the weather at this stop; otherwise resolved from climate normals." },
+          purpose: { type: "string", enum: ["leisure", "business", "adventure", "beach", "city"], description: "Purpose of this stop, if different from the trip's." },
+        },
+        required: ["destination"],
+        additionalProperties: false,
+      },
+    },
   },
   required: [],
   additionalProperties: false,
@@ -327,20 +696,91 @@ const toolInputParser = z.object({
   is_international: z.boolean().optional(),
   climate: z.enum(["summer", "winter", "spring", "tropical", "variable"]).optional(),
   purpose: z.enum(["leisure", "business", "adventure", "beach", "city"]).optional(),
-  adult_males: z.number().optional(),
-  adult_females: z.number().optional(),
-  male_children: z.number().optional(),
-  female_children: z.number().optional(),
+  adults: z.number().optional(),
+  children: z.number().optional(),
   infants: z.number().optional(),
+  seniors: z.number().optional(),
   travelers: z.number().optional(),
   packing_constraint: z.enum(["carry_on_only", "checked_bags", "minimal"]).optional(),
+  bag: z.enum(["personal_item", "backpack", "carry_on", "checked"]).optional(),
+  airline: z.string().optional(),
+  laundry: z.enum(["none", "weekly", "every_n_days", "hotel"]).optional(),
+  laundry_every_days: z.number().optional(),
   has_children: z.boolean().optional(),
   has_infants: z.boolean().optional(),
   has_pets: z.boolean().optional(),
+  pets: z.array(z.object({
+    species: z.enum(PET_SPECIES),
+    size: z.enum(PET_SIZES).optional(),
+    travel: z.enum(PET_TRAVEL_MODES).optional(),
+    name: z.string().optional(),
+  })).optional(),
+  traveler_details: z.array(z.object({
+    type: z.enum(["adult", "child", "infant", "senior"]),
+    name: z.string().optional(),
+    age: z.number().nonnegative().optional(),
+    birth_date: z.string().optional(),
+    attributes: z.array(z.enum(TRAVELER_ATTRIBUTES)).optional(),
+    medical: z.array(z.enum(MEDICAL_NEEDS)).optional(),
+    medications: z.array(z.object({
+      name: z.string().trim().min(1),
+      dose: z.string().optional(),
+      units_per_dose: z.number().positive().optional(),
+      unit: z.string().optional(),
+      frequency: z.enum(MEDICATION_FREQUENCIES).optional(),
+      times: z.array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)).optional(),
+      controlled: z.boolean().optional(),
+    })).optional(),
+  })).optional(),
+  child_ages: z.array(z.number().nonnegative()).optional(),
   activities: z.array(z.string()).optional(),
   presets: z.array(z.enum(["lightSleeper", "gymRat", "yoga", "swimmer", "remoteWorker", "contentCreator", "gamer", "photographer"])).optional(),
+  nationality: z.string().optional(),
+  home_country: z.string().optional(),
+  home_time_zone: z.string().optional(),
+  medication_buffer_days: z.number().int().nonnegative().optional(),
+  legs: z.array(z.object({
+    destination: z.string(),
+    start_date: z.string().optional(),
+    end_date: z.string().optional(),
+    days: z.number().optional(),
+    climate: z.enum(["summer", "winter", "spring", "tropical", "variable"]).optional(),
+    purpose: z.enum(["leisure", "business", "adventure", "beach", "city"]).optional(),
+  })).optional(),
 });
 
+const checklistOutputSchema = {
+  type: "object",
+  properties: {
+    total_items: { type: "number" },
+    essential_items: { type: "number" },
+    categories: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          category: { type: "string" },
+          name: { type: "string" },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                quantity: { type: "string" },
+                essential: { type: "boolean" },
+                reason: { type: "string" },
+                due_date: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
 const tools: Tool[] = widgets.map((widget) => ({
   name: widget.id,
   description:
@@ -358,6 +798,20 @@ const tools: Tool[] = widgets.map((widget) => ({
       purpose: { type: "string" },
       travelers: { type: "number" },
       input_source: { type: "string", enum: ["user", "default"] },
+      provenance: {
+        type: "object",
+        description: "Where each field's value came from, keyed by field name.",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            source: { type: "string", enum: ["explicit", "inferred", "default"] },
+            confidence: { type: "number" },
+            via: { type: "string", enum: ["text", "location", "dates", "legs", "normals"] },
+            evidence: { type: "string" },
+          },
+        },
+      },
+      ruled_out: { type: "array", items: { type: "string" } },
       summary: {
         type: "object",
         properties: {
@@ -367,10 +821,275 @@ const tools: Tool[] = widgets.map((widget) => ({
           climate: { type: ["string", "null"] },
           purpose: { type: ["string", "null"] },
           travelers: { type: ["number", "null"] },
-          estimated_items: { type: ["number", "null"] },
+          seniors: { type: ["number", "null"] },
+          total_items: { type: ["number", "null"] },
+          essential_items: { type: ["number", "null"] },
           trip_type: { type: ["string", "null"] },
         },
       },
+      legs: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            destination: { type: "string" },
+            start_date: { type: ["string", "null"] },
+            end_date: { type: ["string", "null"] },
+            days: { type: ["number", "null"] },
+            climate: { type: "string" },
+            purpose: { type: "string" },
+            climate_explanation: { type: ["string", "null"] },
+          },
+        },
+      },
+      entry_requirements: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            nationality: { type: ["object", "null"] },
+            destination: { type: ["object", "null"] },
+            known: { type: "boolean" },
+            domestic: { type: "boolean" },
+            requirement: { type: ["object", "null"] },
+            passport: { type: ["object", "null"] },
+            tasks: { type: "array", items: { type: "object" } },
+            summary: { type: "string" },
+          },
+        },
+      },
+      start_date: { type: "string" },
+      end_date: { type: "string" },
+      dates: {
+        type: ["object", "null"],
+        properties: {
+          start_date: { type: ["string", "null"] },
+          end_date: { type: ["string", "null"] },
+          trip_duration: { type: "number" },
+          source: { type: "string", enum: ["exact", "relative", "month", "duration", "none"] },
+          resolved_on: { type: "string" },
+          timezone: { type: "string" },
+          warnings: { type: "array", items: { type: "string" } },
+        },
+      },
+      climate_resolution: {
+        type: ["object", "null"],
+        properties: {
+          climate: { type: "string", enum: ["summer", "winter", "spring", "tropical"] },
+          month: { type: "number" },
+          month_assumed: { type: "boolean" },
+          hemisphere: { type: "string", enum: ["north", "south"] },
+          season: { type: "string" },
+          avg_temp_c: { type: "number" },
+          stated_climate: { type: ["string", "null"] },
+          explanation: { type: "string" },
+        },
+      },
+      pets: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            label: { type: "string" },
+            species: { type: "string", enum: [...PET_SPECIES] },
+            size: { type: "string", enum: [...PET_SIZES] },
+            travel: { type: "string", enum: [...PET_TRAVEL_MODES] },
+            entry_requirements: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  origin: { type: ["object", "null"] },
+                  destination: { type: "object" },
+                  documents: { type: "array", items: { type: "string" } },
+                  tasks: { type: "array", items: { type: "object" } },
+                  summary: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+      },
+      power: {
+        type: ["object", "null"],
+        properties: {
+          destination: { type: "object" },
+          home: { type: ["object", "null"] },
+          plug_types: { type: "array", items: { type: "string" } },
+          voltage: { type: "array", items: { type: "number" } },
+          frequency: { type: "array", items: { type: "number" } },
+          adapter_types: { type: "array", items: { type: "string" } },
+          voltage_change: { type: "string", enum: ["none", "up", "down", "mixed"] },
+          summary: { type: "string" },
+        },
+      },
+      laundry: {
+        type: "object",
+        properties: {
+          frequency: { type: "string", enum: ["none", "weekly", "every_n_days", "hotel"] },
+          interval_days: { type: ["number", "null"] },
+          wear_days: { type: "number" },
+          washes: { type: "number" },
+        },
+      },
+      outfit_plan: {
+        type: "object",
+        description: "What to wear each day, from the destination's climate normals for the travel dates and the planned activities. Clothing quantities are packed for garment_days.",
+        properties: {
+          days: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                day: { type: "number" },
+                date: { type: ["string", "null"] },
+                destination: { type: "string" },
+                min_temp_c: { type: "number" },
+                max_temp_c: { type: "number" },
+                rain_chance: { type: "number" },
+                source: { type: "string", enum: ["forecast", "normals", "climate"] },
+                warmth: { type: "string", enum: ["hot", "warm", "mild", "cool", "cold", "freezing"] },
+                activity: { type: ["string", "null"] },
+                outfit: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+          garment_days: { type: "object", description: "Most days each garment is worn within one wash cycle." },
+        },
+      },
+      luggage: {
+        type: "object",
+        description: "Estimated weight and volume of each traveler's list against their bag.",
+        properties: {
+          bag: { type: "string" },
+          bag_label: { type: "string" },
+          capacity_kg: { type: "number" },
+          capacity_l: { type: "number" },
+          travelers: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                label: { type: "string" },
+                weight_kg: { type: "number" },
+                volume_l: { type: "number" },
+                fits: { type: "boolean" },
+                over: { type: "array", items: { type: "string", enum: ["weight", "volume"] } },
+                drop_first: { type: "array", items: { type: "string" } },
+                fits_after_drops: { type: "boolean" },
+              },
+            },
+          },
+        },
+      },
+      liquids: {
+        type: ["object", "null"],
+        description: "Carry-on liquids (100 ml containers in one quart bag per traveler) for the shared and per-traveler lists; null with checked bags.",
+        properties: {
+          container_limit_ml: { type: "number" },
+          lists: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                label: { type: "string" },
+                bags: { type: "number" },
+                capacity_ml: { type: "number" },
+                needed_ml: { type: "number" },
+                bag_ml: { type: "number" },
+                fits: { type: "boolean" },
+                items: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      id: { type: "string" },
+                      name: { type: "string" },
+                      form: { type: "string", enum: ["liquid", "gel", "aerosol"] },
+                      ml: { type: "number" },
+                      count: { type: "number" },
+                      action: { type: "string", enum: ["bag", "decant", "buy_there", "check", "declare"] },
+                    },
+                  },
+                },
+                summary: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+      baggage_allowance: {
+        type: ["object", "null"],
+        description: "Carry-on only or minimal plans checked against the airline's cabin allowance (cheapest economy fare).",
+        properties: {
+          known: { type: "boolean" },
+          airline: { type: ["object", "null"] },
+          constraint: { type: "string", enum: ["carry_on_only", "checked_bags", "minimal"] },
+          pieces: { type: "array", items: { type: "object" } },
+          cabin_total_kg: { type: ["number", "null"] },
+          checked_bag: { type: "object" },
+          fees: { type: "array", items: { type: "string" } },
+          note: { type: ["string", "null"] },
+          travelers: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                label: { type: "string" },
+                ok: { type: "boolean" },
+                bag_fits: { type: "boolean" },
+                weight_ok: { type: "boolean" },
+                volume_ok: { type: "boolean" },
+                limit_kg: { type: ["number", "null"] },
+                limit_l: { type: "number" },
+                issues: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+          summary: { type: "string" },
+        },
+      },
+      checklist: checklistOutputSchema,
+      traveler_checklists: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            label: { type: "string" },
+            type: { type: "string" },
+            species: { type: ["string", "null"], enum: [...PET_SPECIES, null] },
+            age: { type: ["number", "null"] },
+            age_band: { type: ["string", "null"], enum: ["toddler", "school-age", "teen", null] },
+            attributes: { type: "array", items: { type: "string", enum: [...TRAVELER_ATTRIBUTES] } },
+            medical_needs: { type: "array", items: { type: "string", enum: [...MEDICAL_NEEDS] } },
+            medications: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  dose: { type: ["string", "null"] },
+                  quantity: { type: ["number", "null"] },
+                  unit: { type: "string" },
+                  controlled: { type: ["string", "null"] },
+                  prescription_copy: { type: "boolean" },
+                  time_difference_hours: { type: ["number", "null"] },
+                  home_times: { type: "array", items: { type: "string" } },
+                  arrival_times: { type: "array", items: { type: "string" } },
+                  schedule_days: { type: "array", items: { type: "array", items: { type: "string" } } },
+                  summary: { type: "string" },
+                },
+              },
+            },
+            checklist: checklistOutputSchema,
+          },
+        },
+      },
       suggested_followups: {
         type: "array",
         items: { type: "string" },
@@ -392,6 +1111,48 @@ const tools: Tool[] = widgets.map((widget) => ({
   },
 }));
 
+// Plain data tool (no widget) so the assistant can answer "do I need a visa for X?" directly
+const ENTRY_TOOL_NAME = "check-entry-requirements";
+
+const entryToolInputSchema = {
+  type: "object",
+  properties: {
+    nationality: { type: "string", description: "Traveler's passport nationality: country, nationality adjective or ISO code (e.g. 'US', 'British', 'India')." },
+    destination: { type: "string", description: "Destination city, region or country." },
+    start_date: { type: "string", description: "Arrival date in YYYY-MM-DD format, if known (used for passport validity and application deadlines)." },
+    end_date: { type: "string", description: "Departure date from the destination in YYYY-MM-DD format, if known." },
+  },
+  required: ["nationality", "destination"],
+  additionalProperties: false,
+  $schema: "http://json-schema.org/draft-07/schema#",
+} as const;
+
+const entryToolInputParser = z.object({
+  nationality: z.string(),
+  destination: z.string(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+});
+
+tools.push({
+  name: ENTRY_TOOL_NAME,
+  title: "Entry Requirements — Visa, travel authorization and passport validity",
+  description:
+    "Use this tool when the user asks whether they need a visa, ESTA/eTA/ETA/ETIAS or other travel authorization, or how long their passport must be valid for a destination. Returns the requirement for their nationality, passport validity and blank-page rules, and pre-departure tasks with deadlines. Requirements change; always suggest confirming with the official government site.",
+  inputSchema: entryToolInputSchema,
+  securitySchemes: [{ type: "noauth" }],
+  _meta: {
+    "openai/visibility": "public",
+    securitySchemes: [{ type: "noauth" }],
+  },
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+});
+
 const resources: Resource[] = widgets.map((widget) => ({
   uri: widget.templateUri,
   name: widget.title,
@@ -484,6 +1245,45 @@ function createTravelChecklistServer(): Server {
       console.log("Full request object:", JSON.stringify(request, null, 2));
       
       try {
+        if (request.params.name === ENTRY_TOOL_NAME) {
+          let entryArgs: z.infer<typeof entryToolInputParser>;
+          try {
+            entryArgs = entryToolInputParser.parse(request.params.arguments ?? {});
+          } catch (parseError: any) {
+            logAnalytics("parameter_parse_error", {
+              toolName: request.params.name,
+              params: request.params.arguments,
+              error: parseError.message,
+            });
+            throw parseError;
+          }
+
+          const nationalityCode = resolveCountry(entryArgs.nationality);
+          const destinationCode = destinationCountryOf(entryArgs.destination);
+          const check = checkEntryRequirements(nationalityCode || "", destinationCode || "", {
+            startDate: entryArgs.start_date,
+            endDate: entryArgs.end_date,
+          });
+          const structured = {
+            ...serializeEntryCheck(check, entryArgs.start_date),
+            query: { nationality: entryArgs.nationality, destination: entryArgs.destination },
+          };
+          if (!nationalityCode) structured.summary = `Couldn't recognise the nationality "${entryArgs.nationality}".`;
+          else if (!destinationCode) structured.summary = `Couldn't work out which country "${entryArgs.destination}" is in.`;
+
+          logAnalytics(check.known ? "tool_call_success" : "tool_call_empty", {
+            toolName: request.params.name,
+            responseTime: Date.now() - startTime,
+            params: request.params.arguments || {},
+            ...(check.known ? {} : { reason: structured.summary }),
+          });
+
+          return {
+            content: [{ type: "text", text: structured.summary }],
+            structuredContent: structured,
+          };
+        }
+
         const widget = widgetsById.get(request.params.name);
 
         if (!widget) {
@@ -518,6 +1318,16 @@ function createTravelChecklistServer(): Server {
         // Debug log
         console.log("Captured meta:", { userLocation, userLocale, userAgent });
 
+        // Climate worked out from the destination's normals for the travel month (see below)
+        let climateResolution: ClimateResolution | null = null;
+        let statedClimate: string | undefined;
+        const legClimateNotes: string[] = [];
+        // Concrete trip dates, resolved in the user's timezone (see below)
+        let resolvedDates: ResolvedTripDates | null = null;
+        // Where each field's value came from: explicit arguments, inference or defaults
+        const provenance = explicitProvenance(args);
+        let negatedTerms: string[] = [];
+
         // If ChatGPT didn't pass structured arguments, try to infer travel details from freeform text in meta
         try {
           const candidates: any[] = [
@@ -530,87 +1340,124 @@ function createTravelChecklistServer(): Server {
           ];
           const userText = candidates.find((t) => typeof t === "string" && t.trim().length > 0) || "";
 
-          // Try to infer destination from user text (e.g., "trip to Paris", "vacation in Hawaii")
-          if (args.destination === undefined) {
-            const destMatch = userText.match(/(?:trip|travel|going|vacation|visit|flying)\s+(?:to|in)\s+([A-Za-z\s,]+?)(?:\.|,|for|\s+\d|\s*$)/i);
-            if (destMatch) {
-              args.destination = destMatch[1].trim();
+          // Fill what the caller didn't pass from the user's own words, noting where each value came from
+          const parsed = parseTripText(userText);
+          mergeParsedFields(args, parsed, provenance);
+          negatedTerms = parsed.negated;
+
+          // Multi-destination trips: the first leg stands in for the destination, the legs span the dates
+          const legs = args.legs || [];
+          if (legs.length > 0) {
+            if (args.destination === undefined) {
+              args.destination = legs[0].destination;
+              provenance.destination = inferred("legs", provenance.legs?.confidence ?? 1, "first leg");
             }
-          }
-          
-          // Try to infer trip duration (e.g., "7 days", "2 weeks", "a week")
-          if (args.trip_duration === undefined) {
-            const durationMatch = userText.match(/(\d+)\s*(?:day|night)s?/i);
-            if (durationMatch) {
-              args.trip_duration = parseInt(durationMatch[1]);
-            } else if (/a\s+week|one\s+week/i.test(userText)) {
-              args.trip_duration = 7;
-            } else if (/two\s+weeks?|2\s+weeks?/i.test(userText)) {
-              args.trip_duration = 14;
+            if (args.start_date === undefined && legs[0].start_date) {
+              args.start_date = legs[0].start_date;
+              provenance.start_date = inferred("legs", 1, "first leg's start date");
+            }
+            if (args.end_date === undefined && legs[legs.length - 1].end_date) {
+              args.end_date = legs[legs.length - 1].end_date;
+              provenance.end_date = inferred("legs", 1, "last leg's end date");
+            }
+            if (args.trip_duration === undefined && !(args.start_date && args.end_date) && legs.every((leg) => leg.days)) {
+              args.trip_duration = legs.reduce((sum, leg) => sum + (leg.days || 0), 0);
+              provenance.trip_duration = inferred("legs", 1, "sum of leg days");
             }
           }
-          
-          // Infer international vs domestic
-          if (args.is_international === undefined) {
-            if (/international|abroad|overseas|passport/i.test(userText)) {
-              args.is_international = true;
-            } else if (/domestic|within|local/i.test(userText)) {
-              args.is_international = false;
+
+          // Relative timing ("next weekend") and trip_month become real dates, in the user's timezone
+          resolvedDates = resolveTripDates(
+            {
+              startDate: args.start_date,
+              endDate: args.end_date,
+              departureTiming: args.departure_timing,
+              tripMonth: args.trip_month,
+              tripDuration: args.trip_duration ?? (args.trip_weeks ? args.trip_weeks * 7 : undefined),
+            },
+            typeof userLocation?.timezone === "string" ? userLocation.timezone : undefined
+          );
+          if (resolvedDates.startDate && resolvedDates.endDate) {
+            if (resolvedDates.source !== "exact") {
+              // Dates worked out from timing, a month or a length are only as good as what they came from
+              const basis = provenance.departure_timing ?? provenance.trip_month ?? provenance.trip_duration ?? provenance.trip_weeks;
+              const confidence = Math.min(basis?.confidence ?? 1, resolvedDates.source === "duration" ? 0.5 : 0.8);
+              provenance.start_date = inferred("dates", confidence, `${resolvedDates.source} from ${resolvedDates.today}`);
+              provenance.end_date = inferred("dates", confidence, `${resolvedDates.tripDuration} days from the start`);
+            } else if (!provenance.end_date || args.end_date !== resolvedDates.endDate) {
+              provenance.end_date = inferred("dates", provenance.start_date?.confidence ?? 1, `${resolvedDates.tripDuration} days from the start`);
+            }
+            if (args.trip_duration === undefined && args.trip_weeks === undefined) {
+              provenance.trip_duration = inferred("dates", provenance.end_date.confidence, `${resolvedDates.startDate} to ${resolvedDates.endDate}`);
             }
+            args.start_date = resolvedDates.startDate;
+            args.end_date = resolvedDates.endDate;
+            args.trip_duration = resolvedDates.tripDuration;
+          } else {
+            // Keep malformed dates out of the profile
+            if (args.start_date) args.start_date = undefined;
+            if (args.end_date) args.end_date = undefined;
           }
-          
-          // Infer climate from keywords
-          if (args.climate === undefined) {
-            if (/beach|tropical|caribbean|hawaii|mexico|thailand|bali/i.test(userText)) args.climate = "tropical";
-            else if (/winter|cold|snow|ski|skiing|christmas|december|january|february/i.test(userText)) args.climate = "winter";
-            else if (/summer|hot|warm|july|august|june/i.test(userText)) args.climate = "summer";
-            else if (/spring|fall|autumn|mild/i.test(userText)) args.climate = "spring";
+
+          // Look the destination up in the bundled gazetteer
+          const place = args.destination ? lookupDestination(args.destination) : null;
+          const legPlaces = legs.map((leg) => lookupDestination(leg.destination));
+
+          // Home country (plugs / voltage) from the user's location unless stated
+          if (args.home_country === undefined && typeof userLocation?.country === "string") {
+            const code = resolveCountry(userLocation.country.trim());
+            if (code) {
+              args.home_country = code;
+              provenance.home_country = inferred("location", 0.8, userLocation.country);
+            }
           }
-          
-          // Infer purpose from keywords
-          if (args.purpose === undefined) {
-            if (/business|work|conference|meeting/i.test(userText)) args.purpose = "business";
-            else if (/beach|swim|ocean|resort/i.test(userText)) args.purpose = "beach";
-            else if (/hike|hiking|adventure|camping|outdoor/i.test(userText)) args.purpose = "adventure";
-            else if (/city|urban|sightseeing|museum/i.test(userText)) args.purpose = "city";
+
+          // Home timezone (medication schedule) likewise
+          if (args.home_time_zone === undefined && typeof userLocation?.timezone === "string" && userLocation.timezone) {
+            args.home_time_zone = userLocation.timezone;
+            provenance.home_time_zone = inferred("location", 0.8, userLocation.timezone);
           }
-          
-          // Infer presets from keywords
-          if (!args.presets || args.presets.length === 0) {
-            const inferredPresets: ("lightSleeper" | "gymRat" | "yoga" | "swimmer" | "remoteWorker" | "contentCreator" | "gamer" | "photographer")[] = [];
-            if (/light\s*sleeper|trouble\s*sleep|insomnia|sleep\s*issues|noise\s*sensitive/i.test(userText)) inferredPresets.push("lightSleeper");
-            if (/gym|workout|fitness|exercise|weight\s*train|lift\s*weight/i.test(userText)) inferredPresets.push("gymRat");
-            if (/yoga|meditat|stretch/i.test(userText)) inferredPresets.push("yoga");
-            if (/swim|pool|lap\s*swim/i.test(userText)) inferredPresets.push("swimmer");
-            if (/remote\s*work|digital\s*nomad|work\s*remote|laptop|home\s*office/i.test(userText)) inferredPresets.push("remoteWorker");
-            if (/content\s*creat|influencer|vlog|youtube|tiktok|social\s*media/i.test(userText)) inferredPresets.push("contentCreator");
-            if (/gamer|gaming|video\s*game|nintendo|switch|playstation|xbox/i.test(userText)) inferredPresets.push("gamer");
-            if (/photograph|camera|dslr|mirrorless|shoot\s*photo/i.test(userText)) inferredPresets.push("photographer");
-            if (inferredPresets.length > 0) args.presets = inferredPresets;
+
+          // Domestic vs international from the destination's country and the user's location
+          const knownPlaces = [place, ...legPlaces].filter((p) => p?.countryCode);
+          if (args.is_international === undefined && knownPlaces.length > 0) {
+            const homeCountry = typeof userLocation?.country === "string" ? userLocation.country.trim() : "";
+            if (homeCountry) {
+              args.is_international = knownPlaces.some((p) => !(homeCountry.toUpperCase() === p!.countryCode || homeCountry.toLowerCase() === p!.country.toLowerCase()));
+              provenance.is_international = inferred("location", 0.9, `${homeCountry} vs ${knownPlaces.map((p) => p!.country).join(", ")}`);
+            }
           }
           
-          // Infer travelers from relationship mentions
-          // "with my girlfriend/wife/partner" = 1 adult male (me) + 1 adult female
-          // "with my boyfriend/husband" = 1 adult female (me) + 1 adult male
-          if (!args.adult_males && !args.adult_females && !args.travelers) {
-            if (/\b(girlfriend|wife|gf)\b/i.test(userText)) {
-              // User is likely male, traveling with female partner
-              args.adult_males = 1;
-              args.adult_females = 1;
-            } else if (/\b(boyfriend|husband|bf)\b/i.test(userText)) {
-              // User is likely female, traveling with male partner
-              args.adult_females = 1;
-              args.adult_males = 1;
-            } else if (/\b(partner|spouse)\b/i.test(userText)) {
-              // Gender-neutral, assume 1 male + 1 female
-              args.adult_males = 1;
-              args.adult_females = 1;
-            } else if (/\bfor\s+(?:me|myself)\b/i.test(userText) && !(/\bwith\b/i.test(userText))) {
-              // Solo traveler - "for me", "for myself" without "with"
-              args.adult_males = 1;
+          // Travel month: dates first, then trip_month (the parser reads "in December" or Christmas into it).
+          // Month names are not seasons - December is summer in Sydney - so they only pick the month.
+          const travelMonth = monthOf(args.start_date) ?? parseMonthName(args.trip_month);
+
+          // The destination's normals for the travel month decide the climate when no season was given.
+          // A season the user stated is kept, with the normals reported next to it. Without dates the
+          // current month is assumed, in the user's timezone like the dates above.
+          const currentMonth = monthOf(resolvedDates.today)!;
+          const keeping = (stated: string, normal: string) => stated === normal ? "" : ` You said "${stated}", so the list is packed for that instead.`;
+          if (place) {
+            climateResolution = resolveClimate(place, travelMonth, currentMonth);
+            if (args.climate === undefined) {
+              args.climate = climateResolution.climate;
+              provenance.climate = inferred("normals", climateResolution.monthAssumed ? 0.6 : 0.9, climateResolution.explanation);
+            } else {
+              statedClimate = args.climate;
+              climateResolution.explanation += keeping(args.climate, climateResolution.climate);
             }
           }
 
+          // Each leg gets its own climate from its destination and dates, unless one was given for it
+          legs.forEach((leg, i) => {
+            const legPlace = legPlaces[i];
+            if (!legPlace) return;
+            const resolution = resolveClimate(legPlace, monthOf(leg.start_date) ?? travelMonth, currentMonth);
+            legClimateNotes[i] = resolution.explanation + (leg.climate ? keeping(leg.climate, resolution.climate) : "");
+            leg.climate ??= resolution.climate;
+          });
+          
+          fillDefaults(args, provenance);
         } catch (e) {
           console.warn("Parameter inference from meta failed", e);
         }
@@ -619,7 +1466,8 @@ function createTravelChecklistServer(): Server {
         const responseTime = Date.now() - startTime;
 
         // Check if we are using defaults (i.e. no arguments provided)
-        const usedDefaults = Object.keys(args).length === 0;
+        // (home_country and home_time_zone come from the user's location, not from anything they asked for)
+        const usedDefaults = Object.entries(args).filter(([k, v]) => v !== undefined && k !== "home_country" && k !== "home_time_zone").length === 0;
 
         // Infer likely user query from parameters
         const inferredQuery = [] as string[];
@@ -632,6 +1480,8 @@ function createTravelChecklistServer(): Server {
           toolName: request.params.name,
           params: args,
           inferredQuery: inferredQuery.length > 0 ? inferredQuery.join(", ") : "Travel Checklist",
+          provenance,
+          ruledOut: negatedTerms,
           responseTime,
 
           device: deviceCategory,
@@ -651,6 +1501,11 @@ function createTravelChecklistServer(): Server {
         const widgetMetadata = widgetMeta(widget, false);
         console.log(`[MCP] Tool called: ${request.params.name}, returning templateUri: ${(widgetMetadata as any)["openai/outputTemplate"]}`);
 
+        // Run the same rules engine as the widget so the assistant sees the real list
+        const profile = buildTripProfile(args);
+        const checklist = generateChecklist(profile);
+        const individualChecklists = generateIndividualChecklists(profile);
+
         // Build structured content once so we can log it and return it.
         // For the travel checklist, expose fields relevant to trip details
         const structured = {
@@ -658,8 +1513,137 @@ function createTravelChecklistServer(): Server {
           timestamp: new Date().toISOString(),
           ...args,
           input_source: usedDefaults ? "default" : "user",
+          // Per-field source (explicit / inferred / default) and confidence, plus anything the user ruled out
+          provenance,
+          ruled_out: negatedTerms,
           // Summary + follow-ups for natural language UX
-          summary: computeSummary(args),
+          summary: computeSummary(profile, checklist),
+          dates: resolvedDates
+            ? {
+                start_date: resolvedDates.startDate,
+                end_date: resolvedDates.endDate,
+                trip_duration: resolvedDates.tripDuration,
+                source: resolvedDates.source,
+                resolved_on: resolvedDates.today,
+                timezone: resolvedDates.timeZone,
+                warnings: resolvedDates.warnings,
+              }
+            : null,
+          climate_resolution: climateResolution
+            ? {
+                climate: climateResolution.climate,
+                month: climateResolution.month + 1,
+                month_assumed: climateResolution.monthAssumed,
+                hemisphere: climateResolution.hemisphere,
+                season: climateResolution.calendarSeason,
+                avg_temp_c: climateResolution.tempC,
+                stated_climate: statedClimate ?? null,
+                explanation: climateResolution.explanation,
+              }
+            : null,
+          legs: (profile.legs || []).map((leg, i) => ({
+            destination: leg.destination,
+            start_date: leg.startDate || null,
+            end_date: leg.endDate || null,
+            days: leg.days ?? null,
+            climate: leg.climate,
+            purpose: leg.purpose || profile.purpose,
+            climate_explanation: legClimateNotes[i] || null,
+          })),
+          entry_requirements: getLegProfiles(profile)
+            .flatMap((legProfile) => getEntryChecks(legProfile).map((check) => serializeEntryCheck(check, legProfile.startDate)))
+            .filter((check, i, all) => all.findIndex((c) => c.nationality?.code === check.nationality?.code && c.destination?.code === check.destination?.code) === i),
+          // Import rules for each pet at each foreign stop
+          pets: getPets(profile).map((pet) => ({
+            ...pet,
+            entry_requirements: getLegProfiles(profile)
+              .filter((legProfile) => legProfile.isInternational)
+              .flatMap((legProfile) => {
+                const destinationCode = destinationCountryOf(legProfile.destination);
+                const check = destinationCode ? checkPetEntry(pet, profile.homeCountry || profile.nationality, destinationCode) : null;
+                return check ? [{ check, startDate: legProfile.startDate }] : [];
+              })
+              .filter(({ check }, i, all) => all.findIndex((c) => c.check.destination.code === check.destination.code) === i)
+              .map(({ check, startDate }) => ({
+                origin: check.origin,
+                destination: check.destination,
+                documents: check.requirements.map((r) => r.document),
+                tasks: petEntryItems(check, startDate)
+                  .filter((i) => i.category === "preDeparture")
+                  .map((i) => ({ name: i.name, ...(i.reason ? { reason: i.reason } : {}), ...(i.dueDate ? { due_date: i.dueDate } : {}) })),
+                summary: check.summary,
+              })),
+          })),
+          power: (() => {
+            const advice = getPowerAdvice(profile);
+            return advice
+              ? {
+                  destination: advice.destination,
+                  home: advice.origin,
+                  plug_types: advice.standard.plugs,
+                  voltage: advice.standard.voltage,
+                  frequency: advice.standard.frequency,
+                  adapter_types: advice.adapterTypes,
+                  voltage_change: advice.voltageChange,
+                  summary: advice.summary,
+                }
+              : null;
+          })(),
+          // Clothing is packed for wear_days; washes is how many loads that takes
+          laundry: (() => {
+            const plan = getLaundryPlan(profile);
+            return { frequency: plan.frequency, interval_days: plan.intervalDays, wear_days: plan.wearDays, washes: plan.washes };
+          })(),
+          outfit_plan: (() => {
+            const plan = planOutfits(profile);
+            return {
+              days: plan.days.map((d) => ({
+                day: d.day,
+                date: d.date ?? null,
+                destination: d.destination,
+                min_temp_c: d.weather.minTemp,
+                max_temp_c: d.weather.maxTemp,
+                rain_chance: d.weather.precipitation,
+                source: d.source,
+                warmth: d.warmth,
+                activity: d.activity ?? null,
+                outfit: d.outfit,
+              })),
+              garment_days: plan.garmentDays,
+            };
+          })(),
+          luggage: serializeLuggage(profile, checklist, individualChecklists),
+          liquids: serializeLiquids(profile, checklist, individualChecklists),
+          baggage_allowance: serializeBaggageAllowance(profile, args.airline, checklist, individualChecklists),
+          checklist: serializeChecklist(checklist),
+          traveler_checklists: getIndividualTravelers(profile.travelers, profile.travelerDetails).map((t) => {
+            const age = ageOn(profile.travelerDetails?.[t.id], profile.startDate);
+            return {
+              id: t.id,
+              label: t.label,
+              type: t.type,
+              species: t.species ?? null,
+              age: age ?? null,
+              age_band: t.type === "child" && age !== undefined ? getAgeBand(age) : null,
+              attributes: getTravelerAttributes(profile, t),
+              medical_needs: profile.travelerDetails?.[t.id]?.medical || [],
+              medications: t.type === "pet" ? [] : getMedicationPlans(profile, t).map((plan) => ({
+                name: plan.medication.name,
+                dose: plan.medication.dose ?? null,
+                quantity: plan.quantity,
+                unit: plan.medication.unit || "dose",
+                controlled: plan.controlled,
+                prescription_copy: plan.prescriptionCopy,
+                time_difference_hours: plan.shiftMinutes === null ? null : plan.shiftMinutes / 60,
+                home_times: plan.schedule?.homeTimes || [],
+                arrival_times: plan.schedule?.arrivalTimes || [],
+                schedule_days: plan.schedule?.days || [],
+                summary: plan.summary,
+              })),
+              checklist: serializeChecklist(individualChecklists[t.id] || []),
+            };
+          }),
+
           suggested_followups: [
             "What documents do I need?",
             "What clothes should I pack?",
@@ -700,6 +1684,7 @@ function createTravelChecklistServer(): Server {
               responseTime,
               params: request.params.arguments || {},
               inferredQuery: inferredQuery.join(", "),
+              resolvedDates: args.start_date ? { start: args.start_date, end: args.end_date } : undefined,
               userLocation,
               userLocale,
               device: deviceCategory,
@@ -758,6 +1743,8 @@ const subscribePath = "/api/subscribe";
 const analyticsPath = "/analytics";
 const trackEventPath = "/api/track";
 const healthPath = "/health";
+const geocodePath = "/api/geocode";
+const weatherPath = "/api/weather";
 
 const domainVerificationPath = "/.well-known/openai-apps-challenge";
 const domainVerificationToken =
@@ -1353,6 +2340,100 @@ async function handleTrackEvent(req: IncomingMessage, res: ServerResponse) {
   }
 }
 
+// Geocoding and weather for the widget, proxied so the iframe doesn't call third parties.
+// WEATHER_PROVIDER=fixture serves tests/fixtures/weather.json (or WEATHER_FIXTURES) with no network access.
+const weatherProxy = createWeatherProxy({
+  provider: process.env.WEATHER_PROVIDER === "fixture"
+    ? loadFixtureProvider(process.env.WEATHER_FIXTURES || path.resolve(__dirname, "..", "tests", "fixtures", "weather.json"))
+    : createLiveProvider(),
+  cacheDir: process.env.WEATHER_CACHE_DIR || path.resolve(__dirname, "..", "cache", "weather"),
+});
+const weatherRateLimiter = createRateLimiter(Number(process.env.WEATHER_RATE_PER_MINUTE) || 30, 10);
+
+// Proxies in front of the server (Render's load balancer by default). Each appends the address it saw
+// to X-Forwarded-For; entries to the left of theirs come from the client and can be anything.
+const trustedProxyHops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+
+function clientIdOf(req: IncomingMessage): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)?.split(",").map(hop => hop.trim()).filter(Boolean) || [];
+  const client = trustedProxyHops > 0 ? hops[hops.length - trustedProxyHops] : undefined;
+  return client || req.socket.remoteAddress || "unknown";
+}
+
+// CORS, method and rate-limit checks shared by the proxy routes, then the lookup with its cache status logged
+async function handleWeatherProxyRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  route: string,
+  run: () => { error: string } | Promise<ProxyResult<unknown>>
+) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "content-type");
+  res.setHeader("Content-Type", "application/json");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method !== "GET") {
+    res.writeHead(405).end(JSON.stringify({ error: "Method not allowed" }));
+    return;
+  }
+
+  const retryAfter = weatherRateLimiter.take(clientIdOf(req));
+  if (retryAfter > 0) {
+    logAnalytics("weather_proxy_rate_limited", { route });
+    res.writeHead(429, { "Retry-After": String(retryAfter) }).end(JSON.stringify({ error: "Too many requests" }));
+    return;
+  }
+
+  const started = Date.now();
+  try {
+    const lookup = run();
+    if ("error" in lookup) {
+      res.writeHead(400).end(JSON.stringify({ error: lookup.error }));
+      return;
+    }
+    const result = await lookup;
+    logAnalytics("weather_proxy", { route, provider: weatherProxy.provider, cache: result.cache, ms: Date.now() - started });
+    res.writeHead(200, { "X-Cache": result.cache, "Cache-Control": "public, max-age=600" }).end(JSON.stringify(result.value));
+  } catch (error: any) {
+    console.error(`Weather proxy error (${route}):`, error);
+    logAnalytics("weather_proxy_error", { route, provider: weatherProxy.provider, error: error.message || "unknown_error", ms: Date.now() - started });
+    res.writeHead(502).end(JSON.stringify({ error: "Upstream lookup failed" }));
+  }
+}
+
+// GET /api/geocode?q=Lisbon&limit=8 -> [{ label, lat, lon, country }]
+async function handleGeocode(req: IncomingMessage, res: ServerResponse, url: URL) {
+  await handleWeatherProxyRequest(req, res, "geocode", () => {
+    const query = (url.searchParams.get("q") || "").trim();
+    const limit = Math.min(10, Math.max(1, Number(url.searchParams.get("limit")) || 8));
+    if (query.length < 2 || query.length > 200) return { error: "q must be 2-200 characters" };
+    return weatherProxy.geocode(query, limit);
+  });
+}
+
+// GET /api/weather?lat=38.72&lon=-9.14&start=2025-06-01&end=2025-06-07 -> [{ date, minTemp, maxTemp, precipitation }]
+async function handleWeather(req: IncomingMessage, res: ServerResponse, url: URL) {
+  await handleWeatherProxyRequest(req, res, "weather", () => {
+    const lat = Number(url.searchParams.get("lat"));
+    const lon = Number(url.searchParams.get("lon"));
+    const start = url.searchParams.get("start") || "";
+    const end = url.searchParams.get("end") || "";
+    const hasCoords = url.searchParams.get("lat") && url.searchParams.get("lon") && Number.isFinite(lat) && Number.isFinite(lon);
+    if (!hasCoords || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return { error: "lat and lon must be valid coordinates" };
+    }
+    if (!isValidIsoDate(start) || !isValidIsoDate(end) || daysBetween(start, end) < 0 || daysBetween(start, end) > 31) {
+      return { error: "start and end must be ISO dates at most 31 days apart" };
+    }
+    return weatherProxy.weather(lat, lon, start, end);
+  });
+}
+
 // Buttondown API integration
 async function subscribeToButtondown(email: string, topicId: string, topicName: string) {
   const BUTTONDOWN_API_KEY = process.env.BUTTONDOWN_API_KEY;
@@ -1705,6 +2786,16 @@ const httpServer = createServer(
       return;
     }
 
+    if (url.pathname === geocodePath) {
+      await handleGeocode(req, res, url);
+      return;
+    }
+
+    if (url.pathname === weatherPath) {
+      await handleWeather(req, res, url);
+      return;
+    }
+
     // Serve alias for legacy loader path -> our main widget HTML
     if (req.method === "GET" && url.pathname === "/assets/travel-checklist.html") {
       const mainAssetPath = path.join(ASSETS_DIR, "travel-checklist.html");
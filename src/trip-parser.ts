@@ -0,0 +1,476 @@
+// Natural-language trip parser for the tool's meta-text fallback.
+// Reads the user's message ("3 days Reykjavik then 5 days Lisbon with my wife, no beach this time")
+// into tool-argument fields, and records for every field where the value came from - explicit
+// tool arguments, inference (text, location, dates, climate normals) or a default - with a confidence.
+import { formatDestination, lookupAreas, lookupDestination } from "../shared/gazetteer.js";
+import { resolveCountry } from "../shared/entry-requirements.js";
+import { AIRLINES } from "../shared/airlines.js";
+
+export type ProvenanceSource = "explicit" | "inferred" | "default";
+
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  confidence: number; // 0-1
+  via?: "text" | "location" | "dates" | "legs" | "normals";
+  evidence?: string;  // The words (or rule) the value came from
+}
+
+export type Provenance = Record<string, FieldProvenance>;
+
+type Season = "summer" | "winter" | "spring" | "tropical";
+type Purpose = "leisure" | "business" | "adventure" | "beach" | "city";
+type Preset = "lightSleeper" | "gymRat" | "yoga" | "swimmer" | "remoteWorker" | "contentCreator" | "gamer" | "photographer";
+type Timing = "this_week" | "next_week" | "in_two_weeks" | "in_three_weeks" | "this_weekend" | "next_weekend" | "next_month" | "in_two_months";
+
+// The tool-argument fields the parser can fill
+export interface ParsedTripFields {
+  destination?: string;
+  legs?: { destination: string; days?: number }[];
+  start_date?: string;
+  end_date?: string;
+  trip_duration?: number;
+  departure_timing?: Timing;
+  trip_month?: string;
+  is_international?: boolean;
+  climate?: Season;
+  purpose?: Purpose;
+  activities?: string[];
+  presets?: Preset[];
+  packing_constraint?: "carry_on_only" | "checked_bags" | "minimal";
+  airline?: string;
+  laundry?: "none" | "weekly" | "every_n_days" | "hotel";
+  laundry_every_days?: number;
+  nationality?: string;
+  travelers?: number;
+  adults?: number;
+  children?: number;
+  infants?: number;
+  seniors?: number;
+  child_ages?: number[];
+  has_pets?: boolean;
+}
+
+export interface ParsedTripText {
+  fields: ParsedTripFields;
+  provenance: Provenance;
+  negated: string[]; // Things the user ruled out ("beach", "kids")
+}
+
+// ============ TEXT HELPERS ============
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+const NUM = "(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)";
+const toNumber = (s: string) => /^\d+$/.test(s) ? parseInt(s, 10) : NUMBER_WORDS[s.toLowerCase()] ?? 0;
+
+const NEGATORS = /\b(no|not|without|skip(?:ping)?|avoid(?:ing)?|never|leaving|isn'?t|aren'?t|won'?t|don'?t|doesn'?t|instead of)\b/i;
+
+// Whether a match is negated by a word shortly before it in the same clause ("no beach this time")
+const isNegated = (text: string, index: number) => {
+  const clause = text.slice(0, index).split(/[.,;!?]|\bbut\b/i).pop() || "";
+  return NEGATORS.test(clause.trim().split(/\s+/).slice(-5).join(" "));
+};
+
+interface Mention { found: boolean; negated: boolean; evidence?: string }
+
+// Non-negated occurrence of a pattern, and whether any occurrence was negated
+const mention = (text: string, pattern: RegExp): Mention => {
+  const re = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+  let negated = false;
+  for (const m of text.matchAll(re)) {
+    if (isNegated(text, m.index ?? 0)) negated = true;
+    else return { found: true, negated, evidence: m[0] };
+  }
+  return { found: false, negated };
+};
+
+const MONTHS = "january|february|march|april|may|june|july|august|september|october|november|december";
+
+// ============ FIELD PARSERS ============
+const DESTINATION_PHRASE = /\b(?:trip|travel(?:ing|ling)?|going|vacation|holiday|honeymoon|break|getaway|visit(?:ing)?|flying|heading|off)\s+(?:to|in)\s+([A-Za-z][A-Za-z\s,.'-]*?)(?=[.!?;]|\s+(?:for|with|on|next|this|in|from|during|over|around|and|then|by|to)\b|\s+\d|,\s*(?:for|with|and|no|not|but|so)\b|\s*$)/i;
+
+const parseDestination = (text: string) => {
+  const phrase = text.match(DESTINATION_PHRASE);
+  if (phrase) {
+    // Keep "Paris, France" and "Paris, Texas" but not "Rome, first time abroad": later comma parts must
+    // be places, countries or regions too
+    const [first, ...rest] = phrase[1].split(",").map(p => p.trim());
+    const raw = [first, ...rest.filter((part, i) => rest.slice(0, i + 1).every(p => lookupDestination(p) || lookupAreas(p).length > 0))].filter(Boolean).join(", ").replace(/\.$/, "");
+    const place = lookupDestination(raw);
+    return { value: raw, confidence: place ? 0.9 : 0.6, evidence: phrase[0] };
+  }
+  // A known place named anywhere ("ski week in Zermatt", "Bali with the kids")
+  const place = lookupDestination(text);
+  return place ? { value: formatDestination(place), confidence: 0.7, evidence: place.name } : null;
+};
+
+// "3 days Reykjavik then 5 days Lisbon", "Tokyo -> Kyoto -> Osaka"
+const parseLegs = (text: string) => {
+  const segments = text.split(/\b(?:and\s+)?then\b|\bfollowed by\b|→|->/i).map(s => s.trim()).filter(Boolean);
+  if (segments.length < 2) return null;
+  const legs = segments.map(segment => {
+    const place = lookupDestination(segment.replace(/\b\d+\s*(?:days?|nights?)\b/gi, " "));
+    const days = segment.match(/\b(\d+)\s*(?:days?|nights?)\b/i);
+    return place ? { destination: formatDestination(place), ...(days ? { days: parseInt(days[1], 10) } : {}) } : null;
+  });
+  if (legs.some(leg => !leg)) return null;
+  return legs as { destination: string; days?: number }[];
+};
+
+const parseDuration = (text: string) => {
+  const days = text.match(/\b(\d+)\s*-?\s*(?:days?|nights?)\b/i);
+  if (days) return { value: parseInt(days[1], 10), confidence: 0.9, evidence: days[0] };
+  const weeks = text.match(new RegExp(`(?<!\\b(?:in|once|twice|per)\\s)\\b${NUM}\\s+weeks?\\b`, "i"));
+  if (weeks && toNumber(weeks[1]) > 0) return { value: toNumber(weeks[1]) * 7, confidence: 0.85, evidence: weeks[0] };
+  if (/\bfortnight\b/i.test(text)) return { value: 14, confidence: 0.85, evidence: "fortnight" };
+  if (/\blong weekend\b/i.test(text)) return { value: 3, confidence: 0.8, evidence: "long weekend" };
+  return null;
+};
+
+const TIMINGS: [RegExp, Timing][] = [
+  [/\bthis weekend\b/i, "this_weekend"],
+  [/\bnext weekend\b/i, "next_weekend"],
+  [/\bthis week\b/i, "this_week"],
+  [/\bnext week\b/i, "next_week"],
+  [/\bin (?:two|2) weeks\b/i, "in_two_weeks"],
+  [/\bin (?:three|3) weeks\b/i, "in_three_weeks"],
+  [/\bnext month\b/i, "next_month"],
+  [/\bin (?:two|2) months\b/i, "in_two_months"],
+];
+
+const PURPOSES: [RegExp, Purpose][] = [
+  [/\b(?:business|work trip|for work|conference|client meetings?|offsite)\b/i, "business"],
+  [/\b(?:beach|resort|ocean|seaside)\b/i, "beach"],
+  [/\b(?:hik(?:e|ing)|trek(?:king)?|adventure|camping|backcountry|outdoors?)\b/i, "adventure"],
+  [/\b(?:city break|sightseeing|museums?|urban)\b/i, "city"],
+];
+
+const CLIMATES: [RegExp, Season][] = [
+  [/\b(?:tropical|humid)\b/i, "tropical"],
+  [/\b(?:winter|cold|snow(?:y)?|freezing|ski(?:ing)?|snowboard(?:ing)?)\b/i, "winter"],
+  [/\b(?:summer|hot|warm)\b/i, "summer"],
+  [/\b(?:spring|fall|autumn|mild)\b/i, "spring"],
+];
+
+const ACTIVITIES: [RegExp, string][] = [
+  [/\bbeach\b/i, "beach"],
+  [/\b(?:hik(?:e|es|ing)|trek(?:king)?)\b/i, "hiking"],
+  [/\b(?:ski(?:ing)?|snowboard(?:ing)?)\b/i, "skiing"],
+  [/\bcamping\b/i, "camping"],
+];
+
+const PRESETS: [RegExp, Preset][] = [
+  [/\b(?:light\s*sleeper|trouble\s*sleeping|insomnia|sleep\s*issues|noise\s*sensitive)\b/i, "lightSleeper"],
+  [/\b(?:gym|workouts?|fitness|exercise|weight\s*training|lift(?:ing)?\s*weights)\b/i, "gymRat"],
+  [/\b(?:yoga|meditat\w*)\b/i, "yoga"],
+  [/\b(?:swim(?:ming)?|pool|laps)\b/i, "swimmer"],
+  [/\b(?:remote\s*work\w*|digital\s*nomad|work(?:ing)?\s*remotely|home\s*office)\b/i, "remoteWorker"],
+  [/\b(?:content\s*creat\w*|influencer|vlog\w*|youtube|tiktok)\b/i, "contentCreator"],
+  [/\b(?:gamer|gaming|video\s*games?|nintendo|switch|playstation|xbox|steam\s*deck)\b/i, "gamer"],
+  [/\b(?:photograph\w*|camera|dslr|mirrorless)\b/i, "photographer"],
+];
+
+const PACKING: [RegExp, NonNullable<ParsedTripFields["packing_constraint"]>][] = [
+  [/\b(?:carry[\s-]?on(?:\s+(?:bag|luggage))?\s+only|only\s+(?:a\s+)?carry[\s-]?on|hand\s+luggage\s+only|just\s+(?:a\s+)?carry[\s-]?on)\b/i, "carry_on_only"],
+  [/\b(?:(?:just|only)\s+a\s+backpack|backpack\s+only|backpacking|travel(?:ling)?\s+light)\b/i, "minimal"],
+  [/\b(?:checked\s+bags?|checking\s+(?:a\s+)?bags?|checked\s+luggage)\b/i, "checked_bags"],
+];
+
+// "flying Ryanair", "on easyJet", "a Delta flight". Names like Delta, United or Spirit are ordinary words too,
+// so they only count next to a flight cue.
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const AIRLINE_NAMES = Object.entries(AIRLINES)
+  .flatMap(([code, a]) => [a.name, ...a.aliases].map(name => ({ code, name })))
+  .sort((a, b) => b.name.length - a.name.length);
+const AIRLINE_ALT = AIRLINE_NAMES.map(a => escapeRe(a.name).replace(/\s+/g, "\\s+")).join("|");
+const AIRLINE = new RegExp(
+  `\\b(?:(?:fly(?:ing)?|flight|flights|booked|on|with|via)\\s+(?:with\\s+|on\\s+)?(${AIRLINE_ALT})\\b|(${AIRLINE_ALT})\\s+(?:flights?|airlines?|air\\b|airways))`,
+  "i"
+);
+const parseAirline = (text: string) => {
+  const m = text.match(AIRLINE);
+  if (!m || isNegated(text, m.index ?? 0)) return null;
+  const said = (m[1] || m[2]).toLowerCase().replace(/\s+/g, " ");
+  const hit = AIRLINE_NAMES.find(a => a.name.toLowerCase() === said);
+  return hit ? { code: hit.code, evidence: m[0] } : null;
+};
+
+// How often the travelers can wash clothes
+const LAUNDRY = /\b(?:laundry|laundromat|washing machine|wash(?:ing)?\s+(?:clothes|things))\b/i;
+const parseLaundry = (text: string) => {
+  const hotel = text.match(/\b(?:hotel laundry|laundry service|send(?:ing)? (?:out )?(?:the )?laundry|wash[\s-]and[\s-]fold)\b/i);
+  if (hotel && !isNegated(text, hotel.index ?? 0)) return { value: { laundry: "hotel" as const }, confidence: 0.8, evidence: hotel[0] };
+  const mentioned = mention(text, LAUNDRY);
+  if (!mentioned.found) {
+    return mentioned.negated ? { value: { laundry: "none" as const }, confidence: 0.75, evidence: text.match(LAUNDRY)![0] } : null;
+  }
+  const every = text.match(new RegExp(`\\bevery\\s+(?:${NUM}|other)\\s*days?\\b`, "i"));
+  if (every) {
+    const days = every[1] ? toNumber(every[1]) : 2;
+    if (days >= 7) return { value: { laundry: "weekly" as const }, confidence: 0.8, evidence: every[0] };
+    return { value: { laundry: "every_n_days" as const, laundry_every_days: Math.max(2, days) }, confidence: 0.8, evidence: every[0] };
+  }
+  const weekly = text.match(/\b(?:weekly|once a week|every week)\b/i);
+  return { value: { laundry: "weekly" as const }, confidence: weekly ? 0.8 : 0.6, evidence: weekly?.[0] || mentioned.evidence! };
+};
+
+// Who's coming. The speaker is one adult; companions add to that, so "me and my wife" is 2 adults. Words like
+// "wife" or "son" say who someone is, not what they pack, so they only add to the counts.
+const parseTravelers = (text: string) => {
+  const fields: Pick<ParsedTripFields, "travelers" | "adults" | "children" | "infants" | "seniors" | "child_ages" | "has_pets"> = {};
+  const evidence: string[] = [];
+  const negated: string[] = [];
+  let companions = 0; // Adults besides the speaker
+
+  const familyOf = text.match(new RegExp(`\\bfamily of ${NUM}\\b`, "i"));
+  const solo = mention(text, /\b(?:solo|alone|by myself|just me|on my own)\b/i);
+  const forMe = /\bfor\s+(?:me|myself)\b/i.test(text) && !/\bwith\b/i.test(text);
+
+  const partner = mention(text, /\b(?:wife|husband|girlfriend|boyfriend|gf|bf|fianc[ée]e?|partner|spouse|significant other)\b/i);
+  const parent = mention(text, /\b(?:mom|mum|mother|dad|father)\b/i);
+  const sibling = mention(text, /\b(?:sister|brother|sibling)\b/i);
+  [partner, parent, sibling].forEach(m => { if (m.found) { companions++; evidence.push(m.evidence!); } });
+
+  const friends = text.match(new RegExp(`\\bwith\\s+(?:my\\s+)?${NUM}\\s+(?:friends|colleagues|coworkers)\\b`, "i"));
+  if (friends && !isNegated(text, friends.index ?? 0)) { companions += toNumber(friends[1]); evidence.push(friends[0]); }
+  else {
+    const friend = mention(text, /\bwith\s+(?:a|my)\s+(?:friend|colleague|coworker)\b/i);
+    if (friend.found) { companions++; evidence.push(friend.evidence!); }
+  }
+
+  // Children: "2 kids", "my son and daughter", "three boys"
+  const kids = text.match(new RegExp(`\\b${NUM}\\s+(?:kids|children|little ones)\\b`, "i"));
+  const sons = text.match(new RegExp(`\\b(?:${NUM}\\s+)?(?:sons?|boys)\\b`, "i"));
+  const daughters = text.match(new RegExp(`\\b(?:${NUM}\\s+)?(?:daughters?|girls)\\b`, "i"));
+  const anyKids = mention(text, /\b(?:kids|children|child|son|daughter|boys|girls)\b/i);
+  const countOf = (m: RegExpMatchArray) => (m[1] ? toNumber(m[1]) : /s$/i.test(m[0]) ? 2 : 1);
+  let named = 0;
+  if (sons && !isNegated(text, sons.index ?? 0)) { named += countOf(sons); evidence.push(sons[0]); }
+  if (daughters && !isNegated(text, daughters.index ?? 0)) { named += countOf(daughters); evidence.push(daughters[0]); }
+  if (named > 0) fields.children = named;
+  if (kids && !isNegated(text, kids.index ?? 0)) {
+    fields.children = Math.max(named, toNumber(kids[1]));
+    evidence.push(kids[0]);
+  } else if (anyKids.found && !named) {
+    fields.children = 1;
+    evidence.push(anyKids.evidence!);
+  }
+  if (anyKids.negated && !anyKids.found) negated.push("kids");
+
+  // Children's ages: "kids aged 4 and 9", "(ages 6, 10)", "our 15-year-old"
+  const agedList = text.match(/\b(?:aged?|ages)\s+(\d{1,2}(?:\s*(?:,|and|&)\s*\d{1,2})*)\b/i);
+  const yearOlds = [...text.matchAll(/\b(\d{1,2})[-\s]?(?:years?|yrs?|y)[-\s]?o(?:ld|\b)/gi)];
+  const ages = (agedList ? agedList[1].match(/\d+/g)!.map(Number) : yearOlds.map(m => Number(m[1]))).filter(age => age < 18);
+  if (ages.length > 0) {
+    fields.child_ages = ages;
+    evidence.push(agedList ? agedList[0] : yearOlds.map(m => m[0]).join(", "));
+    if (ages.length > (fields.children || 0)) fields.children = ages.length;
+  }
+
+  const babies = text.match(new RegExp(`\\b(?:${NUM}\\s+)?(?:babies|baby|infants?|newborns?|toddlers?)\\b`, "i"));
+  if (babies && !isNegated(text, babies.index ?? 0)) { fields.infants = babies[1] ? toNumber(babies[1]) : 1; evidence.push(babies[0]); }
+
+  // Seniors: "grandma", "my grandparents", "2 seniors", "elderly parents"
+  const grandparents = mention(text, /\bgrand-?parents\b/i);
+  const grandma = mention(text, /\b(?:grandma|grandmother|granny|nana)\b/i);
+  const grandpa = mention(text, /\b(?:grandpa|grandfather|grand-?dad|granddad)\b/i);
+  const seniors = text.match(new RegExp(`\\b(?:${NUM}\\s+)?(?:seniors|senior citizens|retirees|elderly (?:parents|relatives))\\b`, "i"));
+  if (grandparents.found) { fields.seniors = 2; evidence.push(grandparents.evidence!); }
+  else {
+    [grandma, grandpa].forEach(m => { if (m.found) { fields.seniors = (fields.seniors || 0) + 1; evidence.push(m.evidence!); } });
+  }
+  if (seniors && !isNegated(text, seniors.index ?? 0) && !fields.seniors) {
+    fields.seniors = seniors[1] ? toNumber(seniors[1]) : 2;
+    evidence.push(seniors[0]);
+  }
+
+  const pets = mention(text, /\b(?:dog|dogs|cat|cats|puppy|kitten|pets?)\b/i);
+  if (pets.found) { fields.has_pets = true; evidence.push(pets.evidence!); }
+  else if (pets.negated) negated.push("pets");
+
+  if (companions) fields.adults = 1 + companions;
+  const kidsTotal = (fields.children || 0) + (fields.infants || 0);
+  const seniorsTotal = fields.seniors || 0;
+  if (familyOf && toNumber(familyOf[1]) > 0) {
+    fields.travelers = toNumber(familyOf[1]);
+    evidence.push(familyOf[0]);
+  } else if (companions > 0 || kidsTotal > 0 || seniorsTotal > 0) {
+    fields.travelers = 1 + companions + kidsTotal + seniorsTotal; // The speaker plus everyone they mention
+  } else if (solo.found || forMe) {
+    fields.travelers = 1;
+    evidence.push(solo.evidence || "for me");
+  }
+
+  return { fields, evidence: evidence.join(", "), negated };
+};
+
+// ============ PARSER ============
+export const parseTripText = (text: string): ParsedTripText => {
+  const fields: ParsedTripFields = {};
+  const provenance: Provenance = {};
+  const negated: string[] = [];
+  const t = (text || "").trim();
+  if (!t) return { fields, provenance, negated };
+
+  const set = <K extends keyof ParsedTripFields>(key: K, value: ParsedTripFields[K], confidence: number, evidence: string) => {
+    fields[key] = value;
+    provenance[key] = { source: "inferred", via: "text", confidence, evidence };
+  };
+
+  const legs = parseLegs(t);
+  if (legs) {
+    set("legs", legs, 0.8, t.match(/\b(?:and\s+)?then\b|\bfollowed by\b|→|->/i)?.[0] || "then");
+    if (legs.every(leg => leg.days)) set("trip_duration", legs.reduce((sum, leg) => sum + (leg.days || 0), 0), 0.85, "sum of legs");
+  } else {
+    const destination = parseDestination(t);
+    if (destination) set("destination", destination.value, destination.confidence, destination.evidence);
+  }
+
+  if (fields.trip_duration === undefined) {
+    const duration = parseDuration(t);
+    if (duration) set("trip_duration", duration.value, duration.confidence, duration.evidence);
+  }
+
+  const isoDates = t.match(/\b\d{4}-\d{2}-\d{2}\b/g);
+  if (isoDates?.[0]) set("start_date", isoDates[0], 0.95, isoDates[0]);
+  if (isoDates?.[1]) set("end_date", isoDates[1], 0.95, isoDates[1]);
+
+  const timing = TIMINGS.find(([re]) => re.test(t));
+  if (timing && !isoDates) set("departure_timing", timing[1], 0.85, t.match(timing[0])![0]);
+
+  const month = t.match(new RegExp(`\\b(?:in|during|for|over|this|next|early|mid|late)[\\s-]+(${MONTHS})\\b`, "i"));
+  if (month && !isoDates) set("trip_month", month[1].toLowerCase(), 0.85, month[0]);
+  else if (!isoDates && /\b(?:christmas|new year'?s eve)\b/i.test(t)) set("trip_month", "december", 0.7, t.match(/\b(?:christmas|new year'?s eve)\b/i)![0]);
+
+  const international = mention(t, /\b(?:international|abroad|overseas)\b/i);
+  const domestic = mention(t, /\b(?:domestic|within the (?:country|us|usa|uk|states))\b/i);
+  if (international.found) set("is_international", true, 0.8, international.evidence!);
+  else if (domestic.found) set("is_international", false, 0.8, domestic.evidence!);
+  else if (international.negated) set("is_international", false, 0.6, "not international");
+  else {
+    const passport = mention(t, /\bpassport\b/i);
+    if (passport.found) set("is_international", true, 0.6, passport.evidence!);
+  }
+
+  for (const [re, climate] of CLIMATES) {
+    const m = mention(t, re);
+    if (m.found) { set("climate", climate, 0.7, m.evidence!); break; }
+    if (m.negated) negated.push(climate);
+  }
+
+  for (const [re, purpose] of PURPOSES) {
+    const m = mention(t, re);
+    if (m.found) { set("purpose", purpose, 0.7, m.evidence!); break; }
+    if (m.negated) negated.push(purpose);
+  }
+
+  const activities: string[] = [];
+  const activityEvidence: string[] = [];
+  ACTIVITIES.forEach(([re, id]) => {
+    const m = mention(t, re);
+    if (m.found) { activities.push(id); activityEvidence.push(m.evidence!); }
+    else if (m.negated && !negated.includes(id)) negated.push(id);
+  });
+  if (activities.length > 0) set("activities", activities, 0.7, activityEvidence.join(", "));
+
+  const presets: Preset[] = [];
+  const presetEvidence: string[] = [];
+  PRESETS.forEach(([re, id]) => {
+    const m = mention(t, re);
+    if (m.found) { presets.push(id); presetEvidence.push(m.evidence!); }
+    else if (m.negated) negated.push(id);
+  });
+  if (presets.length > 0) set("presets", presets, 0.6, presetEvidence.join(", "));
+
+  const packing = PACKING.find(([re]) => mention(t, re).found);
+  if (packing) set("packing_constraint", packing[1], 0.8, t.match(packing[0])![0]);
+
+  const airline = parseAirline(t);
+  if (airline) set("airline", airline.code, 0.85, airline.evidence);
+
+  const laundry = parseLaundry(t);
+  if (laundry) {
+    set("laundry", laundry.value.laundry, laundry.confidence, laundry.evidence);
+    if ("laundry_every_days" in laundry.value) set("laundry_every_days", laundry.value.laundry_every_days, laundry.confidence, laundry.evidence);
+  }
+
+  // "I'm a British citizen", "on a US passport"
+  const nat = t.match(/\b([A-Za-z]+(?:\s+[A-Za-z]+)?)\s+(?:citizens?|nationals?|passports?(?:\s+holders?)?)\b/i);
+  if (nat) {
+    const words = nat[1].split(/\s+/);
+    const code = resolveCountry(words.join(" ")) || resolveCountry(words[words.length - 1]);
+    if (code) set("nationality", code, 0.85, nat[0]);
+  }
+
+  const travelers = parseTravelers(t);
+  negated.push(...travelers.negated);
+  (Object.keys(travelers.fields) as (keyof typeof travelers.fields)[]).forEach(key => {
+    const confidence = key === "travelers" && travelers.fields.adults === undefined ? 0.7 : 0.75;
+    set(key, travelers.fields[key] as never, confidence, travelers.evidence);
+  });
+
+  return { fields, provenance, negated };
+};
+
+// ============ MERGING ============
+// Fields that describe one thing together: if the model set any of them, text inference leaves the group alone
+const FIELD_GROUPS: (keyof ParsedTripFields)[][] = [
+  ["destination", "legs"],
+  ["start_date", "end_date", "departure_timing", "trip_month"],
+  ["laundry", "laundry_every_days"],
+  ["travelers", "adults", "children", "infants", "seniors"],
+];
+const groupOf = (key: string) => FIELD_GROUPS.find(g => g.includes(key as keyof ParsedTripFields)) || [key];
+
+// Every argument the caller actually passed is explicit
+export const explicitProvenance = (args: Record<string, unknown>): Provenance => {
+  const provenance: Provenance = {};
+  Object.entries(args).forEach(([key, value]) => {
+    if (value !== undefined) provenance[key] = { source: "explicit", confidence: 1 };
+  });
+  return provenance;
+};
+
+// Fill fields the caller didn't pass with what the text says; explicit arguments always win
+export const mergeParsedFields = <T extends Record<string, any>>(args: T, parsed: ParsedTripText, provenance: Provenance): T => {
+  const record = args as Record<string, any>;
+  (Object.keys(parsed.fields) as (keyof ParsedTripFields)[]).forEach(key => {
+    if (groupOf(key).some(k => record[k] !== undefined && provenance[k]?.source === "explicit")) return;
+    if (record[key] !== undefined) return;
+    record[key] = parsed.fields[key];
+    provenance[key] = parsed.provenance[key];
+  });
+  return args;
+};
+
+export const inferred = (via: NonNullable<FieldProvenance["via"]>, confidence: number, evidence?: string): FieldProvenance =>
+  ({ source: "inferred", via, confidence, ...(evidence ? { evidence } : {}) });
+
+// Defaults the profile falls back to, and how much to trust them
+const DEFAULTS: Record<string, { confidence: number; evidence: string }> = {
+  trip_duration: { confidence: 0.3, evidence: "7 days" },
+  is_international: { confidence: 0.3, evidence: "domestic" },
+  climate: { confidence: 0.2, evidence: "summer" },
+  purpose: { confidence: 0.4, evidence: "leisure" },
+  packing_constraint: { confidence: 0.4, evidence: "checked bags" },
+  laundry: { confidence: 0.4, evidence: "weekly" },
+  travelers: { confidence: 0.3, evidence: "1 adult" },
+};
+
+// Mark every profile field nobody set as defaulted, and flag people with no attributes to pack for
+export const fillDefaults = (args: Record<string, any>, provenance: Provenance): Provenance => {
+  Object.entries(DEFAULTS).forEach(([key, d]) => {
+    const set = key === "travelers"
+      ? groupOf("travelers").some(k => args[k] !== undefined) || args.has_children || args.has_infants
+      : args[key] !== undefined;
+    if (!set && !provenance[key]) provenance[key] = { source: "default", ...d };
+  });
+  const described = (args.traveler_details || []).filter((p: { attributes?: string[] }) => p.attributes).length;
+  const total = Math.max(args.travelers || 0, (args.adults || 0) + (args.children || 0) + (args.seniors || 0));
+  if (total > described) {
+    provenance.traveler_attributes = {
+      source: "default",
+      confidence: 0.3,
+      evidence: `${total - described} traveler(s) have no attributes; items like period products or shaving gear aren't packed for them`,
+    };
+  }
+  return provenance;
+};
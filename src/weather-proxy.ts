@@ -0,0 +1,266 @@
+// Geocoding and weather proxy behind /api/geocode and /api/weather.
+// The widget asks the server instead of calling Nominatim and Open-Meteo from the iframe, so the CSP stays
+// narrow, Nominatim's usage policy (one request a second, an identifying User-Agent, cached results) is
+// respected in one place, and lookups are cached on disk, coalesced and rate limited per client.
+// Providers are pluggable: tests and offline development use the fixture provider, which never hits the network.
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { addDays, daysBetween } from "../shared/dates.js";
+import type { DailyWeather } from "../shared/outfits.js";
+
+export interface GeocodeResult {
+  label: string;   // "Lisbon, Portugal", "Austin, Texas, USA"
+  lat: number;
+  lon: number;
+  country?: string;
+}
+
+export interface WeatherProvider {
+  name: string;
+  geocode(query: string, limit: number): Promise<GeocodeResult[]>;
+  // Daily series for startDate..endDate (ISO dates), as far as the provider's forecast reaches
+  forecast(lat: number, lon: number, startDate: string, endDate: string): Promise<DailyWeather[]>;
+}
+
+// ============ PROVIDERS ============
+const USER_AGENT = "SmartTravelChecklist/1.0 (https://travel-checklist-q79n.onrender.com)";
+const NOMINATIM_INTERVAL_MS = 1100;
+// Open-Meteo forecasts 16 days including today and rejects later dates. Today is the location's date,
+// which can be a day behind UTC, so the last day asked for is 14 days after today in UTC.
+const OPEN_METEO_HORIZON_DAYS = 14;
+
+const nominatimSchema = z.array(z.object({
+  name: z.string().optional(),
+  lat: z.coerce.number(),
+  lon: z.coerce.number(),
+  address: z.object({
+    city: z.string().optional(),
+    town: z.string().optional(),
+    village: z.string().optional(),
+    state: z.string().optional(),
+    country: z.string().optional(),
+  }).optional(),
+}));
+
+const openMeteoSchema = z.object({
+  daily: z.object({
+    time: z.array(z.string()),
+    temperature_2m_max: z.array(z.number().nullable()),
+    temperature_2m_min: z.array(z.number().nullable()).optional(),
+    precipitation_probability_max: z.array(z.number().nullable()).optional(),
+  }).optional(),
+});
+
+const parseResponse = async <T>(response: Response, schema: z.ZodType<T>, provider: string): Promise<T> => {
+  const parsed = schema.safeParse(await response.json());
+  if (!parsed.success) throw new Error(`Unexpected response from ${provider}: ${parsed.error.issues[0]?.message}`);
+  return parsed.data;
+};
+
+// Nominatim for places, Open-Meteo for forecasts
+export const createLiveProvider = (fetchImpl: typeof fetch = fetch, now: () => number = Date.now): WeatherProvider => {
+  // Nominatim allows one request a second across the whole app, not per client
+  let nextNominatimAt = 0;
+  const nominatimSlot = async () => {
+    const wait = nextNominatimAt - Date.now();
+    nextNominatimAt = Math.max(Date.now(), nextNominatimAt) + NOMINATIM_INTERVAL_MS;
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  };
+
+  return {
+    name: "live",
+    async geocode(query, limit) {
+      await nominatimSlot();
+      const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=${limit}&addressdetails=1`;
+      const response = await fetchImpl(url, { headers: { "User-Agent": USER_AGENT, "Accept-Language": "en" } });
+      if (!response.ok) throw new Error(`Nominatim returned ${response.status}`);
+      const data = await parseResponse(response, nominatimSchema, "Nominatim");
+      return data.flatMap((item) => {
+        const city = item.address?.city || item.address?.town || item.address?.village || item.name;
+        if (!city) return [];
+        const state = item.address?.state;
+        const country = item.address?.country;
+        const label = country === "United States" && state ? `${city}, ${state}, USA` : country ? `${city}, ${country}` : city;
+        return [{ label, lat: item.lat, lon: item.lon, ...(country ? { country } : {}) }];
+      });
+    },
+    // Days past the horizon are left out, so the widget falls back to climate normals for them
+    async forecast(lat, lon, startDate, endDate) {
+      const lastDay = addDays(new Date(now()).toISOString().slice(0, 10), OPEN_METEO_HORIZON_DAYS);
+      const end = endDate < lastDay ? endDate : lastDay;
+      if (startDate > end) return [];
+      const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,precipitation_probability_max&timezone=auto&start_date=${startDate}&end_date=${end}`;
+      const response = await fetchImpl(url, { headers: { "User-Agent": USER_AGENT } });
+      if (!response.ok) throw new Error(`Open-Meteo returned ${response.status}`);
+      const { daily } = await parseResponse(response, openMeteoSchema, "Open-Meteo");
+      if (!daily) return [];
+      return daily.time.flatMap((date, i) => {
+        const max = daily.temperature_2m_max[i];
+        if (max == null) return [];
+        return [{
+          date,
+          minTemp: Math.round(daily.temperature_2m_min?.[i] ?? max - 5),
+          maxTemp: Math.round(max),
+          precipitation: Math.round(daily.precipitation_probability_max?.[i] ?? 0),
+        }];
+      });
+    },
+  };
+};
+
+export interface WeatherFixtures {
+  places: (GeocodeResult & { aliases?: string[] })[];
+  // Every forecast day for a place, by its label
+  weather: Record<string, Omit<DailyWeather, "date">>;
+}
+
+// Canned places and weather, for tests and for running the server without network access
+export const createFixtureProvider = (fixtures: WeatherFixtures): WeatherProvider => {
+  const matches = (place: WeatherFixtures["places"][number], query: string) =>
+    [place.label, ...(place.aliases || [])].some(name => name.toLowerCase().startsWith(query.toLowerCase().trim()));
+  return {
+    name: "fixture",
+    async geocode(query, limit) {
+      return fixtures.places.filter(place => matches(place, query)).slice(0, limit).map(({ aliases, ...place }) => place);
+    },
+    async forecast(lat, lon, startDate, endDate) {
+      const place = fixtures.places.find(p => Math.abs(p.lat - lat) < 0.05 && Math.abs(p.lon - lon) < 0.05);
+      const day = place && fixtures.weather[place.label];
+      if (!day) return [];
+      return Array.from({ length: Math.max(0, daysBetween(startDate, endDate) + 1) }, (_, i) => ({ date: addDays(startDate, i), ...day }));
+    },
+  };
+};
+
+export const loadFixtureProvider = (file: string): WeatherProvider =>
+  createFixtureProvider(JSON.parse(fs.readFileSync(file, "utf8")) as WeatherFixtures);
+
+// ============ CACHE ============
+interface CacheEntry<T> { expires: number; value: T }
+
+// TTL cache kept in memory and mirrored to one JSON file per key, so it survives restarts
+export const createDiskCache = (dir: string, now: () => number = Date.now) => {
+  const memory = new Map<string, CacheEntry<unknown>>();
+  const fileOf = (key: string) => path.join(dir, `${crypto.createHash("sha1").update(key).digest("hex")}.json`);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const remove = (key: string) => {
+    memory.delete(key);
+    fs.rmSync(fileOf(key), { force: true });
+  };
+
+  return {
+    get<T>(key: string): T | undefined {
+      let entry = memory.get(key) as CacheEntry<T> | undefined;
+      if (!entry) {
+        try {
+          entry = JSON.parse(fs.readFileSync(fileOf(key), "utf8")) as CacheEntry<T>;
+          memory.set(key, entry);
+        } catch {
+          return undefined;
+        }
+      }
+      if (entry.expires > now()) return entry.value;
+      remove(key);
+      return undefined;
+    },
+    set<T>(key: string, value: T, ttlMs: number) {
+      const entry: CacheEntry<T> = { expires: now() + ttlMs, value };
+      memory.set(key, entry);
+      try {
+        fs.writeFileSync(fileOf(key), JSON.stringify(entry));
+      } catch (error) {
+        console.error("Weather cache write failed", error);
+      }
+    },
+    delete: remove,
+  };
+};
+
+// ============ RATE LIMITING ============
+// Token bucket per client: `burst` requests at once, refilled at `perMinute`.
+// take() is 0 when the request may go ahead, otherwise the seconds until it may.
+// A bucket that has refilled is the same as no bucket, so idle clients are dropped once a minute.
+export const createRateLimiter = (perMinute: number, burst: number, now: () => number = Date.now) => {
+  const buckets = new Map<string, { tokens: number; updated: number }>();
+  let swept = now();
+  const isFull = (bucket: { tokens: number; updated: number }, t: number) =>
+    bucket.tokens + ((t - bucket.updated) / 60000) * perMinute >= burst;
+  return {
+    take(client: string): number {
+      const t = now();
+      if (t - swept >= 60000) {
+        buckets.forEach((bucket, id) => { if (isFull(bucket, t)) buckets.delete(id); });
+        swept = t;
+      }
+      const bucket = buckets.get(client) || { tokens: burst, updated: t };
+      bucket.tokens = Math.min(burst, bucket.tokens + ((t - bucket.updated) / 60000) * perMinute);
+      bucket.updated = t;
+      buckets.set(client, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil(((1 - bucket.tokens) * 60) / perMinute);
+    },
+    get clients() {
+      return buckets.size;
+    },
+  };
+};
+
+// ============ PROXY ============
+export type CacheStatus = "hit" | "miss" | "coalesced";
+
+export interface ProxyResult<T> {
+  value: T;
+  cache: CacheStatus;
+}
+
+export interface WeatherProxyOptions {
+  provider: WeatherProvider;
+  cacheDir: string;
+  geocodeTtlMs?: number;
+  weatherTtlMs?: number;
+}
+
+const GEOCODE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Places don't move
+const WEATHER_TTL_MS = 3 * 60 * 60 * 1000;       // Open-Meteo updates its models every few hours
+
+export const createWeatherProxy = ({ provider, cacheDir, geocodeTtlMs = GEOCODE_TTL_MS, weatherTtlMs = WEATHER_TTL_MS }: WeatherProxyOptions) => {
+  const cache = createDiskCache(cacheDir);
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  // Cached value, else the lookup already under way for the same key, else a new lookup
+  const cached = async <T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<ProxyResult<T>> => {
+    const hit = cache.get<T>(key);
+    if (hit !== undefined) return { value: hit, cache: "hit" };
+    const pending = inFlight.get(key) as Promise<T> | undefined;
+    if (pending) return { value: await pending, cache: "coalesced" };
+    const request = load().then(value => {
+      cache.set(key, value, ttlMs);
+      return value;
+    });
+    inFlight.set(key, request);
+    try {
+      return { value: await request, cache: "miss" };
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+
+  return {
+    provider: provider.name,
+    geocode: (query: string, limit = 8) =>
+      cached(`${provider.name}:geocode:${query.trim().toLowerCase()}:${limit}`, geocodeTtlMs, () => provider.geocode(query.trim(), limit)),
+    // Coordinates are rounded to about a kilometer so nearby lookups share an entry
+    weather: (lat: number, lon: number, startDate: string, endDate: string) => {
+      const [la, lo] = [Math.round(lat * 100) / 100, Math.round(lon * 100) / 100];
+      return cached(`${provider.name}:weather:${la},${lo}:${startDate}:${endDate}`, weatherTtlMs, () => provider.forecast(la, lo, startDate, endDate));
+    },
+  };
+};
+
+export type WeatherProxy = ReturnType<typeof createWeatherProxy>;
@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test';
+import { checkBaggageAllowance, resolveAirline } from '../shared/airlines';
+
+test.describe('Airline baggage allowance', () => {
+    test('finds airlines by code, name or alias', () => {
+        expect(resolveAirline('fr')).toBe('FR');
+        expect(resolveAirline('easy jet')).toBe('U2');
+        expect(resolveAirline('Delta Air Lines')).toBe('DL');
+        expect(resolveAirline('Oceanic')).toBeUndefined();
+        expect(resolveAirline(undefined)).toBeUndefined();
+    });
+
+    test('fails a cabin load over the limit with the airline\'s kg figure', () => {
+        const check = checkBaggageAllowance('U2', 'carry_on_only', 'carry_on', { weightKg: 32, volumeL: 40, bags: 1 })!;
+        expect(check).toMatchObject({ bagAs: 'cabin_bag', bagFits: true, limitKg: 30, weightOk: false, volumeOk: true, ok: false });
+        expect(check.issues).toEqual(['32 kg is over easyJet\'s 30 kg cabin limit.']);
+        expect(check.fees).toEqual(['easyJet charges for a cabin bag on its cheapest fares.']);
+        const family = checkBaggageAllowance('U2', 'carry_on_only', 'carry_on', { weightKg: 62, volumeL: 80, bags: 2 })!;
+        expect(family.issues).toEqual(['62 kg is over easyJet\'s 60 kg cabin limit for 2 travelers.']);
+        expect(checkBaggageAllowance('U2', 'carry_on_only', 'carry_on', { weightKg: 30, volumeL: 40, bags: 1 })?.summary)
+            .toBe('Fits easyJet\'s cabin allowance, but the cabin bag costs extra.');
+    });
+
+    test('checks a minimal plan against the under-seat item only', () => {
+        const check = checkBaggageAllowance('FR', 'minimal', 'carry_on', { weightKg: 5, volumeL: 25, bags: 1 })!;
+        expect(check).toMatchObject({ bagAs: 'personal_item', bagFits: false, limitKg: null, limitL: 20, weightOk: true, volumeOk: false, fees: [] });
+        expect(check.issues[0]).toBe('A typical carry-on suitcase (55×36×20 cm) is bigger than Ryanair\'s personal item limit (40×20×25 cm).');
+    });
+
+    test('puts no weight limit on a plan with an unweighed piece, and skips checked bags', () => {
+        expect(checkBaggageAllowance('DL', 'carry_on_only', 'backpack', { weightKg: 40, volumeL: 50, bags: 1 }))
+            .toMatchObject({ limitKg: null, weightOk: true, ok: true });
+        expect(checkBaggageAllowance('DL', 'checked_bags', 'checked', { weightKg: 40, volumeL: 50, bags: 1 })).toBeNull();
+        expect(checkBaggageAllowance(undefined, 'carry_on_only', 'carry_on', { weightKg: 5, volumeL: 10, bags: 1 })).toBeNull();
+    });
+});
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import { evaluateRules, loadChecklistRules, type RuleFacts } from '../shared/rules';
+
+const rule = (id: string, extra: Record<string, unknown> = {}) =>
+    ({ id, name: `Item ${id}`, category: 'personal', essential: false, ...extra });
+
+// The problems listed in the loader's error, one per line
+const problemsOf = (rules: unknown[]) => {
+    try {
+        loadChecklistRules({ version: 1, rules }, 'test rules');
+    } catch (e) {
+        return (e as Error).message.split('\n').map(line => line.trim());
+    }
+    throw new Error('expected the rules to be rejected');
+};
+
+test.describe('Checklist rules loader', () => {
+    test('lists every bad rule in one error, labelled with its index and id', () => {
+        const problems = problemsOf([
+            rule('a', { when: { climat: 'winter' } }),
+            rule('b', { when: { climate: 'hot' } }),
+            rule('b'),
+            rule('c', { garment: 'socks', quantity: 2 }),
+            rule('d', { quantity: 'tripDuration +' }),
+        ]);
+        expect(problems[0]).toBe('Invalid test rules (5 problems):');
+        expect(problems[1]).toMatch(/^rules\[0\] "a"\.when\.climat: unknown fact "climat" \(known facts: destination, /);
+        expect(problems[2]).toBe('rules[1] "b".when.climate: unknown climate "hot" (expected one of summer, winter, spring, tropical, variable)');
+        expect(problems[3]).toBe('rules[2] "b": duplicate id');
+        expect(problems[4]).toBe('rules[3] "c": set either "garment" or "quantity", not both');
+        expect(problems[5]).toBe('rules[4] "d".quantity: bad formula "tripDuration +": unexpected end of formula');
+        expect(problems).toHaveLength(6);
+    });
+
+    test('names fields that fail the schema, with or without a usable id', () => {
+        expect(problemsOf([rule('a', { essential: 'yes' }), { name: 'No id' }])).toEqual([
+            'Invalid test rules (4 problems):',
+            'rules[0] "a".essential: Expected boolean, received string',
+            'rules[1].id: Required',
+            'rules[1].category: Required',
+            'rules[1].essential: Required',
+        ]);
+        expect(() => loadChecklistRules({ version: 2, rules: [] }, 'test rules'))
+            .toThrow('Invalid test rules: version: unsupported rules format version (this build reads version 1)');
+    });
+
+    test('rejects dividing by a constant zero', () => {
+        expect(problemsOf([rule('a', { quantity: 'tripDuration / (1 - 1)' })])).toEqual([
+            'Invalid test rules (1 problem):',
+            'rules[0] "a".quantity: bad formula "tripDuration / (1 - 1)": division by zero',
+        ]);
+    });
+
+    test('a fact that is 0 as a divisor still gives a quantity of at least 1', () => {
+        const ruleSet = loadChecklistRules({ version: 1, rules: [rule('a', { quantity: 'tripDuration / washes' })] });
+        const [item] = evaluateRules(ruleSet, { tripDuration: 10, washes: 0 } as RuleFacts);
+        expect(item.quantity).toBe('1');
+        const [weekly] = evaluateRules(ruleSet, { tripDuration: 10, washes: 2 } as RuleFacts);
+        expect(weekly.quantity).toBe('5');
+    });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { resolveTripDates } from '../shared/dates';
+
+// A Wednesday, at noon UTC
+const NOW = new Date('2027-03-10T12:00:00Z');
+
+test.describe('Trip date resolution', () => {
+    test('exact dates win over relative timing, a month or a length', () => {
+        expect(resolveTripDates({ startDate: '2027-04-01', endDate: '2027-04-05', departureTiming: 'next_week', tripMonth: 'June', tripDuration: 10 }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-04-01', endDate: '2027-04-05', tripDuration: 5, source: 'exact', warnings: [] });
+        expect(resolveTripDates({ startDate: '2027-04-01', tripDuration: 3 }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-04-01', endDate: '2027-04-03', tripDuration: 3, source: 'exact' });
+    });
+
+    test('relative timing wins over a month, and a month over a bare length', () => {
+        expect(resolveTripDates({ departureTiming: 'next_week', tripMonth: 'June', tripDuration: 3 }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-03-17', endDate: '2027-03-19', source: 'relative' });
+        expect(resolveTripDates({ departureTiming: 'this_weekend' }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-03-13', endDate: '2027-03-14', tripDuration: 2, source: 'relative' });
+        expect(resolveTripDates({ tripMonth: 'June', tripDuration: 4 }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-06-01', endDate: '2027-06-04', source: 'month' });
+        // A month that has already started means next year's
+        expect(resolveTripDates({ tripMonth: 'March' }, 'UTC', NOW)).toMatchObject({ startDate: '2028-03-01', source: 'month' });
+        expect(resolveTripDates({ tripDuration: 3 }, 'UTC', NOW))
+            .toMatchObject({ startDate: '2027-03-11', endDate: '2027-03-13', source: 'duration' });
+        expect(resolveTripDates({}, 'UTC', NOW))
+            .toMatchObject({ startDate: null, endDate: null, tripDuration: 7, source: 'none', warnings: [] });
+    });
+
+    test('an end date before the start is ignored with a warning', () => {
+        const dates = resolveTripDates({ startDate: '2027-04-10', endDate: '2027-04-05', tripDuration: 3 }, 'UTC', NOW);
+        expect(dates).toMatchObject({ startDate: '2027-04-10', endDate: '2027-04-12', tripDuration: 3 });
+        expect(dates.warnings).toEqual(['End date 2027-04-05 is before start date 2027-04-10; used a 3-day trip instead.']);
+    });
+
+    test('warns about a start date in the past and about dates that are not real', () => {
+        expect(resolveTripDates({ startDate: '2027-03-01' }, 'UTC', NOW).warnings).toEqual(['Start date 2027-03-01 is in the past.']);
+        const invalid = resolveTripDates({ startDate: '2027-02-30', tripDuration: 2 }, 'UTC', NOW);
+        expect(invalid).toMatchObject({ startDate: '2027-03-11', source: 'duration' });
+        expect(invalid.warnings).toEqual(['Ignored start date "2027-02-30": expected a real date as YYYY-MM-DD.']);
+    });
+
+    test('takes today in the user\'s timezone, not the host\'s', () => {
+        const lateUtc = new Date('2027-03-10T23:30:00Z');
+        expect(resolveTripDates({ tripDuration: 2 }, 'Pacific/Auckland', lateUtc))
+            .toMatchObject({ today: '2027-03-11', timeZone: 'Pacific/Auckland', startDate: '2027-03-12' });
+        expect(resolveTripDates({ tripDuration: 2 }, 'America/Los_Angeles', lateUtc))
+            .toMatchObject({ today: '2027-03-10', timeZone: 'America/Los_Angeles', startDate: '2027-03-11' });
+        // The user's today decides what is in the past
+        expect(resolveTripDates({ startDate: '2027-03-10' }, 'Pacific/Auckland', lateUtc).warnings).toEqual(['Start date 2027-03-10 is in the past.']);
+        expect(resolveTripDates({ tripDuration: 2 }, 'Not/AZone', lateUtc)).toMatchObject({ today: '2027-03-10', timeZone: 'UTC' });
+    });
+});
@@ -0,0 +1,26 @@
+import { test, expect } from '@playwright/test';
+import { garmentQuantity, garmentQuantityForDays, planLaundry } from '../shared/laundry';
+
+test.describe('Laundry planner', () => {
+    test('packs one wash cycle and counts the loads done on the way', () => {
+        expect(planLaundry(365, 'weekly')).toEqual({ frequency: 'weekly', intervalDays: 7, wearDays: 7, washes: 52 });
+        expect(planLaundry(21, 'weekly')).toMatchObject({ wearDays: 7, washes: 2 });
+        expect(planLaundry(10, 'hotel')).toMatchObject({ intervalDays: 3, wearDays: 3, washes: 3 });
+        // A cycle never runs shorter than two days
+        expect(planLaundry(10, 'every_n_days', 1)).toMatchObject({ intervalDays: 2, wearDays: 2, washes: 4 });
+    });
+
+    test('carries the whole trip when there is no laundry or the trip is shorter than a cycle', () => {
+        expect(planLaundry(21, 'none')).toEqual({ frequency: 'none', intervalDays: null, wearDays: 21, washes: 0 });
+        expect(planLaundry(5, 'weekly')).toMatchObject({ wearDays: 5, washes: 0 });
+        expect(planLaundry(0, 'weekly')).toMatchObject({ wearDays: 1, washes: 0 });
+    });
+
+    test('divides garments by how often they are worn and rewearable', () => {
+        expect(garmentQuantity('underwear', 7)).toBe(8);
+        expect(garmentQuantity('pants', 7)).toBe(4);
+        expect(garmentQuantity('dress', 7)).toBe(3);
+        expect(garmentQuantity('skirt', 1)).toBe(1);
+        expect(garmentQuantityForDays('sweater', 0)).toBe(1);
+    });
+});
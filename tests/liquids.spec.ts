@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import type { ChecklistItem } from '../shared/checklist';
+import { checkLiquids, liquidsApply } from '../shared/liquids';
+
+const item = (id: string, quantity?: string): ChecklistItem =>
+    ({ id, name: id, category: 'toiletries', essential: false, checked: false, ...(quantity ? { quantity } : {}) });
+
+test.describe('Carry-on liquids check', () => {
+    test('sorts liquids into the bag, decanting, buying there and declaring', () => {
+        const check = checkLiquids([
+            item('adult-1-toil-basics'),
+            item('toil-facewash'),
+            item('toil-sun'),
+            item('toil-contacts-solution'),
+            item('cloth-underwear', '8'),
+        ]);
+        expect(check.lines.map(line => [line.id, line.action, line.bagMl])).toEqual([
+            ['adult-1-toil-basics', 'bag', 100],
+            ['toil-facewash', 'decant', 100],
+            ['toil-sun', 'buy_there', 0],
+            ['toil-contacts-solution', 'declare', 0],
+        ]);
+        expect(check).toMatchObject({ bags: 1, capacityMl: 950, neededMl: 200, bagMl: 200, fits: true });
+        expect(check.summary).toBe('Liquids fit one quart bag (200 of 950 ml), with 1 full-size item bought there or checked.');
+    });
+
+    test('moves the biggest containers out of an overfull bag', () => {
+        const items = [item('toil-basics'), item('toil-makeup-remover', '10')];
+        const check = checkLiquids(items);
+        expect(check).toMatchObject({ neededMl: 1100, bagMl: 100, fits: false });
+        expect(check.lines.find(line => line.id === 'toil-makeup-remover')).toMatchObject({ action: 'check', bagMl: 0 });
+        expect(check.summary).toBe('Liquids need 1100 ml but one quart bag holds 950 ml; 1 item to buy there or check.');
+        // Each traveler brings a bag
+        expect(checkLiquids(items, 2)).toMatchObject({ capacityMl: 1900, bagMl: 1100, fits: true });
+    });
+
+    test('only applies to cabin-only plans', () => {
+        expect(checkLiquids([item('cloth-underwear')]).summary).toBe('No liquids on the list.');
+        expect(liquidsApply('carry_on_only')).toBe(true);
+        expect(liquidsApply('minimal')).toBe(true);
+        expect(liquidsApply('checked_bags')).toBe(false);
+    });
+});
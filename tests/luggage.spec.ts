@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import type { ChecklistItem } from '../shared/checklist';
+import { estimateLoad, getItemSpec } from '../shared/luggage';
+
+const item = (id: string, category: string, extra: Partial<ChecklistItem> = {}): ChecklistItem =>
+    ({ id, name: id, category, essential: false, checked: false, ...extra });
+
+test.describe('Luggage load estimate', () => {
+    test('totals weight and volume, leaving out worn items and pre-departure tasks', () => {
+        const items = [
+            item('cloth-underwear', 'clothing', { quantity: '8' }),
+            item('adult-1-cloth-bras', 'clothing', { quantity: '2' }),
+            item('cloth-coat', 'clothing'),
+            item('pre-visa', 'preDeparture'),
+        ];
+        expect(estimateLoad(items, 'carry_on')).toMatchObject({
+            weightKg: 0.6, volumeL: 2, capacityKg: 10, capacityL: 40,
+            overWeight: false, overVolume: false, fits: true, carried: ['cloth-coat'], dropFirst: [],
+        });
+        expect(estimateLoad(items, 'carry_on', 2)).toMatchObject({ bags: 2, capacityKg: 20, capacityL: 80 });
+    });
+
+    test('looks up per-traveler and suffixed ids by their catalog item', () => {
+        expect(getItemSpec(item('adult-1-cloth-bras', 'clothing'))).toEqual({ grams: 80, liters: 0.4 });
+        expect(getItemSpec(item('adult-f-1-cloth-bras', 'clothing'))).toEqual({ grams: 80, liters: 0.4 });
+        expect(getItemSpec(item('cloth-bras-leg2', 'clothing'))).toEqual({ grams: 80, liters: 0.4 });
+        expect(getItemSpec(item('custom-gear', 'activity'))).toEqual({ grams: 400, liters: 1.5 });
+    });
+
+    test('drops the non-essential items that free the most of the exceeded limit', () => {
+        const load = estimateLoad([
+            item('custom-gear', 'activity', { quantity: '10', essential: true }),
+            item('custom-tent', 'activity', { quantity: '5' }),
+            item('custom-book', 'personal'),
+        ], 'personal_item');
+        expect(load).toMatchObject({ weightKg: 6.2, volumeL: 23, overWeight: false, overVolume: true, fits: false, fitsAfterDrops: true });
+        expect(load.dropFirst).toEqual([{ id: 'custom-tent', name: 'custom-tent', count: 5, grams: 2000, liters: 7.5 }]);
+    });
+
+    test('never drops essentials, even when the list still will not fit', () => {
+        const load = estimateLoad([item('custom-gear', 'activity', { quantity: '20', essential: true })], 'personal_item');
+        expect(load).toMatchObject({ overWeight: true, overVolume: true, dropFirst: [], fitsAfterDrops: false });
+    });
+});
@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import { doseSchedule, medicationQuantity, timeShiftMinutes } from '../shared/medications';
+
+test.describe('Medication planner', () => {
+    test('packs each dose for the trip plus the spare days', () => {
+        expect(medicationQuantity({ name: 'Metformin', frequency: 'twiceDaily', unitsPerDose: 2 }, 7)).toBe(40);
+        expect(medicationQuantity({ name: 'Metformin', frequency: 'twiceDaily' }, 7, 0)).toBe(14);
+        expect(medicationQuantity({ name: 'Inhaler', frequency: 'fourTimesDaily', unitsPerDose: 0.5 }, 3, 0)).toBe(6);
+        // Weekly doses count the weeks the trip touches
+        expect(medicationQuantity({ name: 'Methotrexate', frequency: 'weekly' }, 14)).toBe(3);
+        expect(medicationQuantity({ name: 'Vitamin D' }, 14)).toBeNull();
+    });
+
+    test('measures the time difference on the travel date, including half-hour zones and daylight saving', () => {
+        expect(timeShiftMinutes('Europe/London', 'Asia/Kolkata', '2027-01-15')).toBe(330);
+        expect(timeShiftMinutes('Europe/London', 'Asia/Kolkata', '2027-07-15')).toBe(270);
+        expect(timeShiftMinutes('America/New_York', 'Europe/London', '2027-03-20')).toBe(240);
+        expect(timeShiftMinutes('America/New_York', 'Europe/London', '2027-04-05')).toBe(300);
+        expect(timeShiftMinutes('Asia/Tokyo', 'America/Los_Angeles', '2027-01-15')).toBe(-17 * 60);
+        expect(timeShiftMinutes('Europe/London', undefined, '2027-01-15')).toBeNull();
+        expect(timeShiftMinutes('Europe/London', 'Mars/Olympus_Mons', '2027-01-15')).toBeNull();
+    });
+
+    test('moves doses up to two hours a day until they are back on the usual times', () => {
+        expect(doseSchedule({ name: 'Levothyroxine', frequency: 'daily' }, 330)).toEqual({
+            homeTimes: ['08:00'],
+            arrivalTimes: ['13:30'],
+            days: [['11:30'], ['09:30'], ['08:00']],
+            moves: 'earlier',
+        });
+        expect(doseSchedule({ name: 'Metformin', frequency: 'twiceDaily', times: ['21:00', '09:00'] }, -180)).toEqual({
+            homeTimes: ['09:00', '21:00'],
+            arrivalTimes: ['06:00', '18:00'],
+            days: [['08:00', '20:00'], ['09:00', '21:00']],
+            moves: 'later',
+        });
+    });
+
+    test('goes the shorter way round the clock: 14 hours ahead moves like 10 behind', () => {
+        const ahead = doseSchedule({ name: 'Levothyroxine', frequency: 'daily' }, 14 * 60)!;
+        const behind = doseSchedule({ name: 'Levothyroxine', frequency: 'daily' }, -10 * 60)!;
+        expect(ahead.arrivalTimes).toEqual(['22:00']);
+        expect(ahead.moves).toBe('later');
+        expect(ahead.days).toEqual([['00:00'], ['02:00'], ['04:00'], ['06:00'], ['08:00']]);
+        expect(behind).toEqual(ahead);
+    });
+
+    test('leaves weekly doses, zero shifts and whole-day shifts on the home times', () => {
+        expect(doseSchedule({ name: 'Methotrexate', frequency: 'weekly' }, 540))
+            .toEqual({ homeTimes: ['08:00'], arrivalTimes: ['08:00'], days: [] });
+        expect(doseSchedule({ name: 'Levothyroxine', frequency: 'daily' }, 0))
+            .toEqual({ homeTimes: ['08:00'], arrivalTimes: ['08:00'], days: [] });
+        // Across the date line the clock reads the same, a day apart
+        expect(doseSchedule({ name: 'Levothyroxine', frequency: 'daily' }, 1440)?.days).toEqual([]);
+        expect(doseSchedule({ name: 'Vitamin D' }, 300)).toBeNull();
+    });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_PROFILE, type TripProfile } from '../shared/checklist';
+import { planOutfits, warmthOf } from '../shared/outfits';
+
+const trip = (extra: Partial<TripProfile>): TripProfile => ({ ...DEFAULT_PROFILE, ...extra });
+
+test.describe('Outfit planner', () => {
+    test('rates a day by its high', () => {
+        expect([30, 27, 22, 15, 8, 0, -1].map(warmthOf)).toEqual(['hot', 'hot', 'warm', 'mild', 'cool', 'cold', 'freezing']);
+    });
+
+    test('dresses each day for its forecast, falling back to the climate', () => {
+        const { days, garmentDays } = planOutfits(trip({
+            startDate: '2027-07-01', tripDuration: 3,
+            forecast: [
+                { date: '2027-07-01', minTemp: 20, maxTemp: 30, precipitation: 10 },
+                { date: '2027-07-02', minTemp: 2, maxTemp: 6, precipitation: 60 },
+            ],
+        }));
+        expect(days.map(day => [day.date, day.source, day.warmth, day.activity])).toEqual([
+            ['2027-07-01', 'forecast', 'hot', 'travel'],
+            ['2027-07-02', 'forecast', 'cold', undefined],
+            ['2027-07-03', 'climate', 'hot', 'travel'],
+        ]);
+        expect(days[0].outfit).toEqual(['T-shirt', 'Shorts', 'Or a dress', 'Bulkiest shoes and layers (wear them on the way)']);
+        expect(days[1].outfit).toEqual(['Long-sleeve shirt', 'Pants', 'Sweater', 'Warm coat', 'Rain jacket']);
+        // Every other hot day is a tank top
+        expect(days[2].garments).toContain('tank');
+        expect(garmentDays).toMatchObject({ underwear: 3, top: 2, tank: 1, shorts: 2, pants: 1, sweater: 1, dress: 1, skirt: 1, layer: 0 });
+    });
+
+    test('plans activities between the travel days', () => {
+        const hiking = planOutfits(trip({ tripDuration: 4, activities: ['hiking'] })).days;
+        expect(hiking.map(day => day.activity)).toEqual(['travel', 'hiking', undefined, 'travel']);
+        expect(hiking[1].outfit).toContain('Workout clothes for hiking');
+        const meeting = planOutfits(trip({ tripDuration: 1, purpose: 'business' })).days;
+        expect(meeting[0]).toMatchObject({ activity: 'business' });
+        expect(meeting[0].outfit[0]).toBe('Business outfit');
+    });
+
+    test('counts garment days within one wash cycle', () => {
+        expect(planOutfits(trip({ tripDuration: 14, climate: 'winter', laundry: 'weekly' })).garmentDays)
+            .toMatchObject({ underwear: 7, sweater: 7, shorts: 0 });
+        expect(planOutfits(trip({ tripDuration: 14, climate: 'winter', laundry: 'none' })).garmentDays)
+            .toMatchObject({ underwear: 14, sweater: 14 });
+    });
+});
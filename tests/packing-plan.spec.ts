@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_PROFILE, getIndividualTravelers, type ChecklistItem, type TripProfile } from '../shared/checklist';
+import { defaultPackingBags, groupByBag } from '../shared/packing-plan';
+
+const item = (id: string, category: string, extra: Partial<ChecklistItem> = {}): ChecklistItem =>
+    ({ id, name: id, category, essential: false, checked: false, ...extra });
+
+const profile: TripProfile = { ...DEFAULT_PROFILE, travelers: [{ id: 'adult-1', type: 'adult' }, { id: 'child-1', type: 'child' }] };
+const bags = defaultPackingBags(profile, getIndividualTravelers(profile.travelers));
+
+const contents = (items: ChecklistItem[], travelerId?: string) =>
+    groupByBag(items, bags, travelerId).map(group => [group.id, group.items.map(i => i.id), group.checked]);
+
+test.describe('Packing plan', () => {
+    test('suggests bags from the packing constraint plus a backpack per child', () => {
+        expect(bags).toEqual([
+            { id: 'personal_item', name: 'Personal item', size: 'personal_item' },
+            { id: 'carry_on', name: 'Carry-on', size: 'carry_on' },
+            { id: 'checked', name: 'Checked bag', size: 'checked' },
+            { id: 'child-1-backpack', name: 'Child\'s backpack', size: 'backpack', owner: 'child-1' },
+        ]);
+        expect(defaultPackingBags({ ...DEFAULT_PROFILE, packingConstraint: 'minimal' }, []).map(bag => bag.id))
+            .toEqual(['personal_item', 'backpack']);
+    });
+
+    test('groups items in bag order, then what is worn and what is not packed', () => {
+        expect(contents([
+            item('cloth-underwear', 'clothing'),
+            item('doc-passport', 'documents'),
+            item('adult-1-tech-phone', 'tech', { checked: true }),
+            item('cloth-socks', 'clothing', { bag: 'carry_on' }),
+            item('cloth-tshirts', 'clothing', { bag: 'removed-bag' }),
+            item('fam-toys', 'family'),
+            item('cloth-coat', 'clothing'),
+            item('pre-visa', 'preDeparture'),
+        ])).toEqual([
+            ['personal_item', ['doc-passport', 'adult-1-tech-phone'], 1],
+            ['carry_on', ['cloth-socks', 'fam-toys'], 0],
+            ['checked', ['cloth-underwear', 'cloth-tshirts'], 0],
+            ['child-1-backpack', [], 0],
+            ['worn', ['cloth-coat'], 0],
+            ['none', ['pre-visa'], 0],
+        ]);
+    });
+
+    test('packs a traveler\'s own bags first', () => {
+        expect(contents([item('child-1-cloth-underwear', 'clothing'), item('child-1-doc-passport', 'documents')], 'child-1')).toEqual([
+            ['personal_item', [], 0],
+            ['carry_on', [], 0],
+            ['checked', [], 0],
+            ['child-1-backpack', ['child-1-cloth-underwear', 'child-1-doc-passport'], 0],
+        ]);
+    });
+});
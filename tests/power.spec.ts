@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import { comparePower, powerChecklistItems, voltageWarning } from '../shared/power';
+
+test.describe('Plug and voltage comparison', () => {
+    test('needs no adapter where the home plugs fit', () => {
+        const advice = comparePower('US', 'CA')!;
+        expect(advice).toMatchObject({ adapterTypes: [], unmatchedPlugs: [], voltageChange: 'none', frequencyDiffers: false });
+        expect(advice.summary).toContain('no adapter needed');
+        expect(powerChecklistItems(advice, true)).toEqual([]);
+        expect(voltageWarning(advice)).toBeUndefined();
+    });
+
+    test('asks for a Type G adapter and warns about 230V going from the US to Great Britain', () => {
+        const advice = comparePower('US', 'GB')!;
+        expect(advice).toMatchObject({ adapterTypes: ['G'], unmatchedPlugs: ['A', 'B'], voltageChange: 'up', frequencyDiffers: true });
+        const items = powerChecklistItems(advice, true);
+        expect(items.map(item => item.id)).toEqual(['tech-adapter', 'tech-converter']);
+        expect(items[0].name).toBe('Plug adapter (Type G)');
+        expect(powerChecklistItems(advice, false).map(item => item.id)).toEqual(['tech-adapter']);
+        expect(voltageWarning(advice)).toContain('burn out on 230V');
+    });
+
+    test('lists the local sockets when the home country is unknown', () => {
+        const advice = comparePower(undefined, 'GB')!;
+        expect(advice).toMatchObject({ origin: null, adapterTypes: ['G'], voltageChange: 'none' });
+        expect(powerChecklistItems(advice, true).map(item => item.name)).toEqual(['Power adapter (Type G)']);
+        expect(comparePower('US', 'XX')).toBeNull();
+    });
+});
@@ -0,0 +1,175 @@
+import { test, expect } from '@playwright/test';
+import { explicitProvenance, fillDefaults, mergeParsedFields, parseTripText } from '../src/trip-parser';
+import { destinationCountryOf } from '../shared/entry-requirements';
+import { lookupDestination } from '../shared/gazetteer';
+
+// Each case: the user's message, the fields it should produce, and anything it should rule out
+const CORPUS = [
+    {
+        text: 'Packing list for 3 days Reykjavik then 5 days Lisbon with my wife, no beach this time',
+        fields: {
+            legs: [{ destination: 'Iceland', days: 3 }, { destination: 'Lisbon, Portugal', days: 5 }],
+            trip_duration: 8,
+            adults: 2,
+            travelers: 2,
+        },
+        negated: ['beach'],
+    },
+    {
+        text: "I'm going to Paris for a week with my husband and 2 kids",
+        fields: { destination: 'Paris', trip_duration: 7, adults: 2, children: 2, travelers: 4 },
+    },
+    {
+        text: 'pack for me, trip to Tokyo next weekend, carry-on only',
+        fields: { destination: 'Tokyo', departure_timing: 'next_weekend', packing_constraint: 'carry_on_only', travelers: 1 },
+    },
+    {
+        text: "solo hiking trip in Patagonia in March, I'm a British citizen",
+        fields: { destination: 'Patagonia', trip_month: 'march', purpose: 'adventure', activities: ['hiking'], nationality: 'GB', travelers: 1 },
+    },
+    {
+        text: 'business trip to New York for 4 days, not bringing the dog',
+        fields: { destination: 'New York', trip_duration: 4, purpose: 'business' },
+        negated: ['pets'],
+    },
+    {
+        text: 'family of 5 heading to Bali over Christmas',
+        fields: { destination: 'Bali', trip_month: 'december', travelers: 5 },
+    },
+    {
+        text: 'beach vacation in Cancun with my girlfriend and our baby, 2 weeks',
+        fields: { destination: 'Cancun', trip_duration: 14, purpose: 'beach', activities: ['beach'], adults: 2, infants: 1, travelers: 3 },
+    },
+    {
+        text: 'Trip to Denver in two weeks for 5 days, skiing, no gym',
+        fields: { destination: 'Denver', trip_duration: 5, departure_timing: 'in_two_weeks', climate: 'winter', activities: ['skiing'] },
+        negated: ['gymRat'],
+    },
+    {
+        text: 'flying to London 2026-12-20 to 2026-12-28 with my son and daughter',
+        fields: { destination: 'London', start_date: '2026-12-20', end_date: '2026-12-28', children: 2, travelers: 3 },
+    },
+    {
+        text: 'Orlando for 10 days with my wife and our kids aged 4 and 13',
+        fields: { destination: 'Orlando, Florida, USA', trip_duration: 10, adults: 2, children: 2, child_ages: [4, 13], travelers: 4 },
+    },
+    {
+        text: 'city break in Rome, first time going abroad',
+        fields: { destination: 'Rome', purpose: 'city', is_international: true },
+    },
+    {
+        text: "21 days in Japan, I'll do laundry every 4 days",
+        fields: { destination: 'Japan', trip_duration: 21, laundry: 'every_n_days', laundry_every_days: 4 },
+    },
+    {
+        text: "trip to Peru for 3 weeks and we won't be able to do laundry",
+        fields: { destination: 'Peru', trip_duration: 21, laundry: 'none' },
+    },
+    {
+        text: '5 days in Barcelona flying Ryanair, just a backpack',
+        fields: { destination: 'Barcelona, Spain', trip_duration: 5, packing_constraint: 'minimal', airline: 'FR' },
+    },
+    {
+        text: 'Taking my grandparents to Lisbon for 6 days',
+        fields: { destination: 'Lisbon, Portugal', trip_duration: 6, seniors: 2, travelers: 3 },
+    },
+    {
+        text: 'road trip to Paris, Texas for 4 days',
+        fields: { destination: 'Paris, Texas', trip_duration: 4 },
+    },
+    {
+        text: 'weekend away, no kids and no pets',
+        fields: {},
+        negated: ['kids', 'pets'],
+    },
+];
+
+test.describe('Trip text parser', () => {
+    for (const c of CORPUS) {
+        test(`parses "${c.text}"`, () => {
+            const parsed = parseTripText(c.text);
+            expect(parsed.fields).toEqual(c.fields);
+            for (const n of c.negated || []) expect(parsed.negated).toContain(n);
+            for (const key of Object.keys(c.fields)) {
+                expect(parsed.provenance[key]).toMatchObject({ source: 'inferred', via: 'text' });
+                expect(parsed.provenance[key].confidence).toBeGreaterThan(0);
+                expect(parsed.provenance[key].confidence).toBeLessThanOrEqual(1);
+            }
+        });
+    }
+
+    test('does not assume anyone\'s gender', () => {
+        expect(parseTripText('make a packing list for me').fields).toEqual({ travelers: 1 });
+        expect(parseTripText('going to Lisbon with my partner').fields).toMatchObject({ travelers: 2 });
+        expect(parseTripText('going to Lisbon with my wife').fields).toEqual({ destination: 'Lisbon', adults: 2, travelers: 2 });
+        expect(parseTripText('with my son').fields).toEqual({ children: 1, travelers: 2 });
+    });
+
+    test('counts the speaker among the adults', () => {
+        expect(parseTripText('me and my wife').fields).toEqual({ adults: 2, travelers: 2 });
+        expect(parseTripText('road trip with 3 friends and my mom').fields).toMatchObject({ adults: 5, travelers: 5 });
+    });
+
+    test('negated keywords do not set fields', () => {
+        const parsed = parseTripText('Trip to Miami, no beach this time, not a work trip');
+        expect(parsed.fields.purpose).toBeUndefined();
+        expect(parsed.fields.activities).toBeUndefined();
+        expect(parsed.negated).toEqual(expect.arrayContaining(['beach', 'business']));
+    });
+
+    test('ambiguous place names follow the country or state around them', () => {
+        const resolved = (q: string) => lookupDestination(q)?.id ?? null;
+        for (const q of ['Paris, Texas, USA', 'Athens, Georgia, USA', 'Dublin, Ohio, USA', 'Rome, Georgia, USA', 'Vancouver, Washington, USA', 'Paris Texas']) {
+            expect(resolved(q), q).toBeNull();
+        }
+        expect(resolved('London, Ontario, Canada')).toBeNull();
+        expect(destinationCountryOf('Paris, Texas, USA')).toBe('US');
+        expect(destinationCountryOf('London, Ontario, Canada')).toBe('CA');
+
+        expect(resolved('Paris')).toBe('paris');
+        expect(resolved('Paris, France')).toBe('paris');
+        expect(resolved('London, UK')).toBe('london');
+        expect(resolved('Vancouver, BC')).toBe('vancouver');
+        expect(resolved('Washington, DC')).toBe('washington-dc');
+        expect(resolved('Bali Indonesia')).toBe('bali');
+        expect(resolved('Rome in June')).toBe('rome');
+    });
+
+    test('place names that are everyday words need their country nearby', () => {
+        expect(lookupDestination('Nice weather somewhere')).toBeNull();
+        expect(parseTripText('Nice weather somewhere warm').fields.destination).toBeUndefined();
+        expect(lookupDestination('Nice')?.id).toBe('nice');
+        expect(lookupDestination('Nice France')?.id).toBe('nice');
+    });
+
+    test('airline names only count next to a flight cue', () => {
+        expect(parseTripText('road trip across the United States').fields.airline).toBeUndefined();
+        expect(parseTripText('a week in the southwest of France').fields.airline).toBeUndefined();
+        expect(parseTripText('booked a Delta flight to Atlanta').fields.airline).toBe('DL');
+        expect(parseTripText('on easy jet to Nice').fields.airline).toBe('U2');
+    });
+
+    test('explicit arguments win over the text, group by group', () => {
+        const args: Record<string, any> = { destination: 'Rome', seniors: 2 };
+        const provenance = explicitProvenance(args);
+        mergeParsedFields(args, parseTripText('3 days Reykjavik then 5 days Lisbon with my wife for a week'), provenance);
+        expect(args.destination).toBe('Rome');
+        expect(args.legs).toBeUndefined();
+        expect(args.adults).toBeUndefined();
+        expect(args.trip_duration).toBe(8);
+        expect(provenance.destination).toEqual({ source: 'explicit', confidence: 1 });
+        expect(provenance.trip_duration).toMatchObject({ source: 'inferred', via: 'text' });
+    });
+
+    test('marks unset fields as defaults and flags travelers without attributes', () => {
+        const args: Record<string, any> = { travelers: 3, adults: 1 };
+        const provenance = fillDefaults(args, explicitProvenance(args));
+        expect(provenance.trip_duration).toMatchObject({ source: 'default' });
+        expect(provenance.climate).toMatchObject({ source: 'default' });
+        expect(provenance.travelers).toEqual({ source: 'explicit', confidence: 1 });
+        expect(provenance.traveler_attributes).toMatchObject({ source: 'default' });
+
+        const described: Record<string, any> = { adults: 2, traveler_details: [{ type: 'adult', attributes: ['shaves'] }, { type: 'adult', attributes: [] }] };
+        expect(fillDefaults(described, explicitProvenance(described)).traveler_attributes).toBeUndefined();
+    });
+});
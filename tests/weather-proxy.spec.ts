@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    createDiskCache, createFixtureProvider, createLiveProvider, createRateLimiter, createWeatherProxy, loadFixtureProvider, type WeatherProvider,
+} from '../src/weather-proxy';
+
+const FIXTURES = path.resolve(process.cwd(), 'tests/fixtures/weather.json');
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'weather-cache-'));
+
+// The fixture provider, counting the lookups that reach it
+const countingProvider = () => {
+    const inner = loadFixtureProvider(FIXTURES);
+    const calls = { geocode: 0, forecast: 0 };
+    const provider: WeatherProvider = {
+        name: 'fixture',
+        geocode: (query, limit) => { calls.geocode++; return inner.geocode(query, limit); },
+        forecast: (lat, lon, start, end) => { calls.forecast++; return inner.forecast(lat, lon, start, end); },
+    };
+    return { provider, calls };
+};
+
+test.describe('Weather proxy', () => {
+    test('fixture provider geocodes and forecasts without the network', async () => {
+        const provider = loadFixtureProvider(FIXTURES);
+        expect(await provider.geocode('lis', 8)).toEqual([{ label: 'Lisbon, Portugal', lat: 38.72, lon: -9.14, country: 'Portugal' }]);
+        expect((await provider.geocode('Austin', 8))[0].label).toBe('Austin, Texas, USA');
+        const days = await provider.forecast(38.72, -9.14, '2030-06-01', '2030-06-03');
+        expect(days.map(d => d.date)).toEqual(['2030-06-01', '2030-06-02', '2030-06-03']);
+        expect(days[0]).toMatchObject({ minTemp: 14, maxTemp: 23, precipitation: 10 });
+        expect(await provider.forecast(0, 0, '2030-06-01', '2030-06-03')).toEqual([]);
+    });
+
+    test('caches lookups on disk across restarts', async () => {
+        const cacheDir = tempDir();
+        const first = countingProvider();
+        const proxy = createWeatherProxy({ provider: first.provider, cacheDir });
+        expect((await proxy.geocode('Lisbon')).cache).toBe('miss');
+        expect((await proxy.geocode('  lisbon ')).cache).toBe('hit');
+        expect(first.calls.geocode).toBe(1);
+
+        const second = countingProvider();
+        const restarted = createWeatherProxy({ provider: second.provider, cacheDir });
+        const result = await restarted.geocode('Lisbon');
+        expect(result.cache).toBe('hit');
+        expect(result.value[0].label).toBe('Lisbon, Portugal');
+        expect(second.calls.geocode).toBe(0);
+    });
+
+    test('expires entries after their TTL', async () => {
+        let now = 1_000_000;
+        const cache = createDiskCache(tempDir(), () => now);
+        cache.set('key', { a: 1 }, 1000);
+        expect(cache.get('key')).toEqual({ a: 1 });
+        now += 1001;
+        expect(cache.get('key')).toBeUndefined();
+    });
+
+    test('coalesces concurrent requests for the same forecast', async () => {
+        const { provider, calls } = countingProvider();
+        const proxy = createWeatherProxy({ provider, cacheDir: tempDir() });
+        // Nearby coordinates round to the same entry
+        const results = await Promise.all([
+            proxy.weather(38.72, -9.14, '2030-06-01', '2030-06-05'),
+            proxy.weather(38.7201, -9.1402, '2030-06-01', '2030-06-05'),
+            proxy.weather(38.72, -9.14, '2030-06-01', '2030-06-05'),
+        ]);
+        expect(calls.forecast).toBe(1);
+        expect(results.map(r => r.cache).sort()).toEqual(['coalesced', 'coalesced', 'miss']);
+        expect(results[1].value).toHaveLength(5);
+    });
+
+    test('does not cache failed lookups', async () => {
+        let fail = true;
+        const provider: WeatherProvider = {
+            ...createFixtureProvider({ places: [], weather: {} }),
+            geocode: async () => { if (fail) throw new Error('upstream down'); return []; },
+        };
+        const proxy = createWeatherProxy({ provider, cacheDir: tempDir() });
+        await expect(proxy.geocode('Lisbon')).rejects.toThrow('upstream down');
+        fail = false;
+        expect((await proxy.geocode('Lisbon')).cache).toBe('miss');
+    });
+
+    test('rate limits each client separately', () => {
+        let now = 0;
+        const limiter = createRateLimiter(60, 3, () => now);
+        expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 0]);
+        expect(limiter.take('a')).toBeGreaterThan(0);
+        expect(limiter.take('b')).toBe(0);
+        now += 1000; // One request a second refills one token
+        expect(limiter.take('a')).toBe(0);
+    });
+
+    test('forgets clients whose bucket has refilled', () => {
+        let now = 0;
+        const limiter = createRateLimiter(60, 3, () => now);
+        limiter.take('a');
+        limiter.take('b');
+        limiter.take('b');
+        limiter.take('b');
+        now += 60000; // Both full again; the next request sweeps them
+        limiter.take('c');
+        expect(limiter.clients).toBe(1);
+    });
+
+    test('asks Open-Meteo only for days within its forecast horizon', async () => {
+        const urls: string[] = [];
+        const fetchImpl = (async (url: string) => {
+            urls.push(url);
+            return new Response(JSON.stringify({
+                daily: { time: ['2026-10-30', '2026-11-02'], temperature_2m_max: [21.4, 18], temperature_2m_min: [12, null], precipitation_probability_max: [40, null] },
+            }));
+        }) as typeof fetch;
+        const provider = createLiveProvider(fetchImpl, () => Date.parse('2026-10-19T12:00:00Z'));
+
+        expect(await provider.forecast(38.72, -9.14, '2026-12-01', '2026-12-10')).toEqual([]);
+        expect(urls).toHaveLength(0);
+
+        const days = await provider.forecast(38.72, -9.14, '2026-10-30', '2026-11-20');
+        expect(urls[0]).toContain('start_date=2026-10-30&end_date=2026-11-02');
+        expect(days).toEqual([
+            { date: '2026-10-30', minTemp: 12, maxTemp: 21, precipitation: 40 },
+            { date: '2026-11-02', minTemp: 13, maxTemp: 18, precipitation: 0 },
+        ]);
+    });
+
+    test('rejects provider responses of the wrong shape', async () => {
+        const fetchImpl = (async () => new Response(JSON.stringify({ error: 'nope' }))) as typeof fetch;
+        const provider = createLiveProvider(fetchImpl);
+        await expect(provider.geocode('Lisbon', 5)).rejects.toThrow('Unexpected response from Nominatim');
+    });
+});
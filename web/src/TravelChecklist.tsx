@@ -1,10 +1,38 @@
 import React, { useState, useEffect, useMemo, useRef } from "react";
+import { z } from "zod";
 import {
   RotateCcw, ChevronDown, ChevronUp, X, Mail, MessageSquare, Heart, Printer, Check, Info,
   Plane, MapPin, Calendar, Users, Sun, Cloud, Snowflake, Umbrella, Baby, Dog, Cat, Plus,
   CheckCircle2, Circle, Luggage, Shirt, Droplets, Shield, Smartphone, Activity, Home, FileText,
-  Mountain, Waves, Tent, Package, Star, PenLine
+  Mountain, Waves, Tent, Package, Star, PenLine, PersonStanding
 } from "lucide-react";
+import {
+  DEFAULT_PROFILE, TRAVELER_PRESETS, generateChecklist, groupByCategory, getIndividualTravelers, getIndividualProfile,
+  getBag, getLaundryPlan, getPets, getTravelerAttributes, getTravelerTotal, isWornItem, scaleQuantityForDuration, AGE_BAND_LABELS, ageOn, getAgeBand,
+  addTraveler, migrateTravelers, setTravelerCount,
+  type Season, type TripPurpose, type TravelerType, type PackingConstraint, type TripProfile, type ChecklistItem, type TravelerDetails,
+  type TravelerInfo, type TripLeg
+} from "../../shared/checklist";
+import {
+  daylightHours, formatDestination, lookupDestination, monthClimate, monthOf, nearestDestination, resolveClimate, searchGazetteer,
+  type Destination
+} from "../../shared/gazetteer";
+import { addDays, daysBetween, resolveTripDates, todayIn } from "../../shared/dates";
+import { COUNTRIES, resolveCountry } from "../../shared/entry-requirements";
+import { DEFAULT_LAUNDRY, LAUNDRY_OPTIONS, type LaundryFrequency } from "../../shared/laundry";
+import { BAGS, estimateLoad, type BagSize } from "../../shared/luggage";
+import { AIRLINES, checkBaggageAllowance, resolveAirline } from "../../shared/airlines";
+import { LIQUID_ACTION_LABELS, checkLiquids, liquidsApply, type LiquidAction } from "../../shared/liquids";
+import { BAG_NAMES, NO_BAG, WORN_BAG, bagOf, getPackingBags, groupByBag, type PackingBag } from "../../shared/packing-plan";
+import { WARMTH_LABELS, planOutfits, type DailyWeather } from "../../shared/outfits";
+import { ATTRIBUTE_LABELS, TRAVELER_ATTRIBUTES, isTravelerAttribute, type TravelerAttribute } from "../../shared/attributes";
+import { MEDICAL_NEEDS, MEDICAL_NEED_LABELS, isMedicalNeed } from "../../shared/medical";
+import { DEFAULT_MEDICATION_BUFFER_DAYS, FREQUENCY_LABELS, MEDICATION_FREQUENCIES, medicationSchema, type Medication, type MedicationFrequency } from "../../shared/medications";
+import {
+  DIETS, DIET_LABELS, SLEEP_AIDS, SLEEP_AID_LABELS, VISION_AIDS, VISION_LABELS, emptyPersonalProfile, exportPersonalProfiles,
+  mergePersonalProfiles, parsePersonalProfiles, type PersonalProfile, type VisionAid
+} from "../../shared/personal-profiles";
+import { PET_SIZES, PET_SIZE_LABELS, PET_TRAVEL_LABELS, PET_TRAVEL_MODES, type PetDetails, type PetSize, type PetSpecies, type PetTravelMode } from "../../shared/pets";
 
 const COLORS = {
   primary: "#56C596", primaryDark: "#3aa87b", bg: "#FAFAFA", card: "#FFFFFF",
@@ -14,24 +42,24 @@ const COLORS = {
   gold: "#F59E0B", teal: "#14B8A6"
 };
 
-// Geocoding search using OpenStreetMap Nominatim (free, worldwide coverage)
+// Geocoding and weather go through the server's cached proxy (src/weather-proxy.ts), not third parties
+const apiUrl = (route: string) =>
+  `${window.location.hostname === "localhost" ? "" : "https://travel-checklist-q79n.onrender.com"}${route}`;
+
+interface GeocodeResult { label: string; lat: number; lon: number; country?: string }
+
+const geocode = async (query: string, limit: number): Promise<GeocodeResult[]> => {
+  const response = await fetch(apiUrl(`/api/geocode?q=${encodeURIComponent(query)}&limit=${limit}`));
+  if (!response.ok) throw new Error(`Geocoding failed: ${response.status}`);
+  return response.json();
+};
+
+// Geocoding search (OpenStreetMap Nominatim, worldwide coverage)
 const searchDestinations = async (query: string): Promise<string[]> => {
   if (!query || query.length < 2) return [];
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=8&addressdetails=1&featuretype=city`,
-      { headers: { 'Accept-Language': 'en' } }
-    );
-    const data = await response.json();
-    return data.map((item: any) => {
-      const city = item.address?.city || item.address?.town || item.address?.village || item.name;
-      const state = item.address?.state;
-      const country = item.address?.country;
-      if (country === "United States" && state) {
-        return `${city}, ${state}, USA`;
-      }
-      return country ? `${city}, ${country}` : city;
-    }).filter((v: string, i: number, arr: string[]) => arr.indexOf(v) === i); // dedupe
+    const results = await geocode(query, 8);
+    return results.map(r => r.label).filter((v, i, arr) => arr.indexOf(v) === i); // dedupe
   } catch (e) {
     console.error("Geocoding error:", e);
     return [];
@@ -40,123 +68,126 @@ const searchDestinations = async (query: string): Promise<string[]> => {
 
 // Weather data interface
 interface WeatherForecast {
-  avgTemp: number;       // Average temperature in Celsius
+  source: "forecast" | "normals" | "mixed"; // Forecast for every trip day, climate averages for all, or some of each
+  forecastDays: number;  // Trip days the forecast covers
+  normalsFor?: string;   // Place whose climate averages were used
+  avgTemp: number;       // Average daily high in Celsius
   minTemp: number;       // Minimum temperature
   maxTemp: number;       // Maximum temperature
   precipitation: number; // Precipitation probability %
+  humidity?: number;     // Relative humidity %, from the climate averages
+  daylightHours: number; // Sunrise to sunset
   conditions: string;    // Description
   suggestion: string;    // What to pack
+  days?: DailyWeather[]; // Day by day, only for the days the forecast covers
 }
 
 // Geocode a city to get coordinates
 const geocodeCity = async (cityName: string): Promise<{ lat: number; lon: number } | null> => {
   if (!cityName || cityName.length < 2) return null;
+  const known = lookupDestination(cityName);
+  if (known) return { lat: known.lat, lon: known.lon };
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(cityName)}&format=json&limit=1`,
-      { headers: { 'Accept-Language': 'en' } }
-    );
-    const data = await response.json();
-    if (data.length > 0) {
-      return { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon) };
-    }
-    return null;
+    const [first] = await geocode(cityName, 1);
+    return first ? { lat: first.lat, lon: first.lon } : null;
   } catch (e) {
     console.error("Geocoding error:", e);
     return null;
   }
 };
 
-// Fetch weather forecast from Open-Meteo (free, no API key needed)
+// Open-Meteo forecasts today plus 15 days; past that, the numbers would be for the wrong season
+const FORECAST_HORIZON_DAYS = 16;
+
+// Weather for the trip dates: the Open-Meteo forecast (via the server) for the days it covers,
+// and the bundled climate averages for the month for the rest
 const fetchWeatherForecast = async (
   lat: number, 
   lon: number, 
   startDate: string, 
-  endDate: string
+  endDate: string,
+  place: Destination | null
 ): Promise<WeatherForecast | null> => {
-  try {
-    // Open-Meteo provides up to 16 days forecast
-    const today = new Date();
-    const start = new Date(startDate);
-    
-    // If trip is within forecast range (16 days), use forecast API
-    const daysUntilTrip = Math.floor((start.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    
-    let url: string;
-    let useClimateApi = false;
-    
-    if (daysUntilTrip <= 14 && daysUntilTrip >= 0) {
-      // Use forecast API for near-term trips
-      url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,precipitation_probability_max&timezone=auto&start_date=${startDate}&end_date=${endDate}`;
-    } else {
-      // For future dates, use the forecast API with current + 14 days to get seasonal estimate
-      // This is more reliable than the climate API which can be unreliable
-      const forecastStart = new Date();
-      const forecastEnd = new Date();
-      forecastEnd.setDate(forecastEnd.getDate() + 14);
-      url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,precipitation_probability_max&timezone=auto&start_date=${forecastStart.toISOString().split('T')[0]}&end_date=${forecastEnd.toISOString().split('T')[0]}`;
-      useClimateApi = true; // Flag that we're using seasonal estimate
-    }
-    
-    const response = await fetch(url);
-    const data = await response.json();
-    
-    if (data.daily) {
-      const temps = data.daily.temperature_2m_max || data.daily.temperature_2m_mean || [];
-      const minTemps = data.daily.temperature_2m_min || [];
-      const precip = data.daily.precipitation_probability_max || data.daily.precipitation_sum || [];
-      
-      const avgTemp = temps.length > 0 ? temps.reduce((a: number, b: number) => a + b, 0) / temps.length : 20;
-      const minTemp = minTemps.length > 0 ? Math.min(...minTemps) : avgTemp - 5;
-      const maxTemp = temps.length > 0 ? Math.max(...temps) : avgTemp + 5;
-      const avgPrecip = precip.length > 0 ? precip.reduce((a: number, b: number) => a + b, 0) / precip.length : 30;
-      
-      // Determine conditions and suggestions based on actual weather
-      let conditions = "";
-      let suggestion = "";
-      
-      if (avgTemp >= 28) {
-        conditions = "Hot & Tropical";
-        suggestion = "Pack light, breathable clothing. Bring sunscreen, sunglasses, and stay hydrated!";
-      } else if (avgTemp >= 22) {
-        conditions = "Warm & Pleasant";
-        suggestion = "Light summer clothes, but bring a light layer for evenings.";
-      } else if (avgTemp >= 15) {
-        conditions = "Mild";
-        suggestion = "Pack layers - it can vary throughout the day. Light jacket recommended.";
-      } else if (avgTemp >= 8) {
-        conditions = "Cool";
-        suggestion = "Bring warm layers, a jacket, and possibly a light sweater.";
-      } else if (avgTemp >= 0) {
-        conditions = "Cold";
-        suggestion = "Pack warm clothing: coat, sweaters, warm layers, gloves, and a scarf.";
-      } else {
-        conditions = "Very Cold / Freezing";
-        suggestion = "Heavy winter gear essential: thermal underwear, heavy coat, warm boots, hat, gloves.";
-      }
-      
-      if (avgPrecip > 50) {
-        conditions += " & Rainy";
-        suggestion += " Rain gear and waterproof shoes highly recommended!";
-      } else if (avgPrecip > 30) {
-        conditions += " (possible rain)";
-        suggestion += " Consider packing an umbrella.";
-      }
-      
-      return {
-        avgTemp: Math.round(avgTemp),
-        minTemp: Math.round(minTemp),
-        maxTemp: Math.round(maxTemp),
-        precipitation: Math.round(avgPrecip),
-        conditions,
-        suggestion
-      };
+  const { today } = todayIn();
+  const horizonEnd = addDays(today, FORECAST_HORIZON_DAYS - 1);
+  const tripDates = Array.from({ length: Math.max(0, daysBetween(startDate, endDate)) + 1 }, (_, i) => addDays(startDate, i));
+  const inRange = tripDates.filter(date => date >= today && date <= horizonEnd);
+
+  let forecastDays: DailyWeather[] = [];
+  if (inRange.length > 0) {
+    try {
+      const response = await fetch(apiUrl(`/api/weather?lat=${lat}&lon=${lon}&start=${inRange[0]}&end=${inRange[inRange.length - 1]}`));
+      if (!response.ok) throw new Error(`Weather lookup failed: ${response.status}`);
+      forecastDays = await response.json();
+    } catch (e) {
+      // Fall back to climate averages for these days too
+      console.error("Weather API error:", e);
     }
-    return null;
-  } catch (e) {
-    console.error("Weather API error:", e);
-    return null;
   }
+
+  const forecastDates = new Set(forecastDays.map(d => d.date));
+  const normalDays = place
+    ? tripDates.filter(date => !forecastDates.has(date)).map(date => ({ date, ...monthClimate(place, monthOf(date)!) }))
+    : [];
+  const rows = [
+    ...forecastDays,
+    ...normalDays.map(d => ({ date: d.date, minTemp: d.minTemp, maxTemp: d.maxTemp, precipitation: d.rainChance })),
+  ];
+  if (rows.length === 0) return null;
+
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const avgTemp = mean(rows.map(d => d.maxTemp));
+  const minTemp = Math.min(...rows.map(d => d.minTemp));
+  const maxTemp = Math.max(...rows.map(d => d.maxTemp));
+  const avgPrecip = mean(rows.map(d => d.precipitation));
+  const daylight = mean(tripDates.map(date => daylightHours(lat, monthOf(date)!)));
+
+  // Determine conditions and suggestions based on actual weather
+  let conditions = "";
+  let suggestion = "";
+  
+  if (avgTemp >= 28) {
+    conditions = "Hot & Tropical";
+    suggestion = "Pack light, breathable clothing. Bring sunscreen, sunglasses, and stay hydrated!";
+  } else if (avgTemp >= 22) {
+    conditions = "Warm & Pleasant";
+    suggestion = "Light summer clothes, but bring a light layer for evenings.";
+  } else if (avgTemp >= 15) {
+    conditions = "Mild";
+    suggestion = "Pack layers - it can vary throughout the day. Light jacket recommended.";
+  } else if (avgTemp >= 8) {
+    conditions = "Cool";
+    suggestion = "Bring warm layers, a jacket, and possibly a light sweater.";
+  } else if (avgTemp >= 0) {
+    conditions = "Cold";
+    suggestion = "Pack warm clothing: coat, sweaters, warm layers, gloves, and a scarf.";
+  } else {
+    conditions = "Very Cold / Freezing";
+    suggestion = "Heavy winter gear essential: thermal underwear, heavy coat, warm boots, hat, gloves.";
+  }
+  
+  if (avgPrecip > 50) {
+    conditions += " & Rainy";
+    suggestion += " Rain gear and waterproof shoes highly recommended!";
+  } else if (avgPrecip > 30) {
+    conditions += " (possible rain)";
+    suggestion += " Consider packing an umbrella.";
+  }
+  
+  return {
+    source: normalDays.length === 0 ? "forecast" : forecastDays.length === 0 ? "normals" : "mixed",
+    forecastDays: forecastDays.length,
+    ...(place && normalDays.length > 0 ? { normalsFor: place.name } : {}),
+    avgTemp: Math.round(avgTemp),
+    minTemp: Math.round(minTemp),
+    maxTemp: Math.round(maxTemp),
+    precipitation: Math.round(avgPrecip),
+    ...(normalDays.length > 0 ? { humidity: Math.round(mean(normalDays.map(d => d.humidity))) } : {}),
+    daylightHours: Math.round(daylight * 10) / 10,
+    conditions,
+    suggestion,
+    ...(forecastDays.length > 0 ? { days: forecastDays } : {})
+  };
 };
 
 // Convert weather to Season type for backward compatibility
@@ -169,43 +200,6 @@ const weatherToSeason = (weather: WeatherForecast | null): Season => {
   return "variable";
 };
 
-type Season = "summer" | "winter" | "spring" | "tropical" | "variable";
-type TripPurpose = "leisure" | "business" | "adventure" | "beach" | "city";
-type TravelerType = "adult" | "child" | "infant" | "senior" | "pet";
-type PackingConstraint = "carry_on_only" | "checked_bags" | "minimal";
-
-interface TravelerInfo {
-  type: TravelerType;
-  male: number;
-  female: number;
-}
-
-interface TripProfile {
-  destination: string;
-  isInternational: boolean;
-  climate: Season;
-  tripDuration: number;
-  startDate: string;
-  endDate: string;
-  travelers: TravelerInfo[];
-  purpose: TripPurpose;
-  packingConstraint: PackingConstraint;
-  activities: string[];
-  personalNotes: string;
-  presets: string[];
-}
-
-interface ChecklistItem {
-  id: string;
-  name: string;
-  category: string;
-  quantity?: string;
-  essential: boolean;
-  reason?: string;
-  checked: boolean;
-  gender?: "female" | "male"; // optional - for gender-specific items
-}
-
 interface SavedChecklist {
   id: string;
   name: string;
@@ -217,174 +211,19 @@ interface SavedChecklist {
 
 const SAVED_CHECKLISTS_KEY = "TRAVEL_SAVED_CHECKLISTS";
 
-const DEFAULT_PROFILE: TripProfile = {
-  destination: "", isInternational: false, climate: "summer", tripDuration: 5,
-  startDate: "", endDate: "",
-  travelers: [
-    { type: "adult", male: 1, female: 0 },
-    { type: "child", male: 0, female: 0 },
-    { type: "infant", male: 0, female: 0 },
-    { type: "pet", male: 0, female: 0 }
-  ],
-  purpose: "leisure", packingConstraint: "checked_bags", activities: [],
-  personalNotes: "", presets: []
-};
-
 const STORAGE_KEY = "TRAVEL_CHECKLIST_DATA";
+// Personal profiles outlive trips: Reset and fresh hydrations leave this key alone
+const PROFILES_STORAGE_KEY = "TRAVEL_PERSONAL_PROFILES";
 const BANNER_STORAGE_KEY = "TRAVEL_CHECKLIST_BANNER_DISMISSED";
 
-// Scale quantity based on trip duration
-// baseQty is designed for a 7-day trip, scale proportionally
-const scaleQuantityForDuration = (baseQty: string | undefined, tripDuration: number): string | undefined => {
-  if (!baseQty) return undefined;
-  
-  // Extract number from quantity string (e.g., "6", "6 pairs", "3")
-  const match = baseQty.match(/^(\d+)/);
-  if (!match) return baseQty;
-  
-  const baseNum = parseInt(match[1], 10);
-  const suffix = baseQty.slice(match[1].length); // e.g., " pairs", ""
-  
-  // Scale proportionally: base is for 7 days
-  // For a gym rat working out daily, they need ~tripDuration workout sets
-  // But cap at reasonable maximums and minimum of 2
-  const scaleFactor = tripDuration / 7;
-  let scaled = Math.round(baseNum * scaleFactor);
-  
-  // Ensure minimum of 2 and maximum of 10 for most items
-  scaled = Math.max(2, Math.min(scaled, 10));
-  
-  return `${scaled}${suffix}`;
-};
-
-// Traveler presets with their associated items
-// gender: "female" = female only, "male" = male only, undefined = everyone
-const TRAVELER_PRESETS: Record<string, { label: string; icon: string; items: { name: string; category: string; quantity?: string; gender?: "female" | "male" }[] }> = {
-  lightSleeper: {
-    label: "Light Sleeper",
-    icon: "😴",
-    items: [
-      { name: "Eye mask", category: "personal" },
-      { name: "Earplugs", category: "personal" },
-      { name: "White noise app", category: "tech" },
-      { name: "Melatonin", category: "health" },
-      { name: "Lavender spray", category: "personal" },
-    ]
-  },
-  gymRat: {
-    label: "Gym Rat",
-    icon: "💪",
-    items: [
-      { name: "Workout shirts", category: "workout", quantity: "6" },
-      { name: "Workout shorts", category: "workout", quantity: "4" },
-      { name: "Training shoes", category: "workout" },
-      { name: "Workout socks", category: "workout", quantity: "6" },
-      { name: "Sports bra", category: "workout", quantity: "5", gender: "female" },
-      { name: "Compression shorts", category: "workout", quantity: "3" },
-      { name: "Resistance bands", category: "activity" },
-      { name: "Gym gloves", category: "activity" },
-      { name: "Protein bars", category: "personal" },
-      { name: "Shaker bottle", category: "personal" },
-      { name: "Pre-workout", category: "personal" },
-      { name: "Quick-dry towel", category: "workout" },
-    ]
-  },
-  yoga: {
-    label: "Yoga",
-    icon: "🧘",
-    items: [
-      { name: "Yoga leggings", category: "workout", quantity: "2", gender: "female" },
-      { name: "Sports bra", category: "workout", quantity: "2", gender: "female" },
-      { name: "Yoga top", category: "workout", quantity: "2" },
-      { name: "Travel yoga mat", category: "activity" },
-      { name: "Yoga blocks", category: "activity" },
-      { name: "Resistance bands", category: "activity" },
-    ]
-  },
-  swimmer: {
-    label: "Swimmer",
-    icon: "🏊",
-    items: [
-      { name: "Swimsuit", category: "workout", quantity: "2" },
-      { name: "Swim goggles", category: "activity" },
-      { name: "Swim cap", category: "activity" },
-      { name: "Waterproof bag", category: "personal" },
-      { name: "Quick-dry towel", category: "toiletries" },
-    ]
-  },
-  remoteWorker: {
-    label: "Remote Worker",
-    icon: "💻",
-    items: [
-      { name: "Laptop", category: "tech" },
-      { name: "Laptop charger", category: "tech" },
-      { name: "Portable monitor", category: "tech" },
-      { name: "Wireless mouse", category: "tech" },
-      { name: "Keyboard", category: "tech" },
-      { name: "Mobile hotspot", category: "tech" },
-      { name: "Webcam", category: "tech" },
-      { name: "USB hub", category: "tech" },
-    ]
-  },
-  contentCreator: {
-    label: "Content Creator",
-    icon: "📸",
-    items: [
-      { name: "Camera", category: "tech" },
-      { name: "Camera charger", category: "tech" },
-      { name: "Tripod", category: "tech" },
-      { name: "Ring light", category: "tech" },
-      { name: "Microphone", category: "tech" },
-      { name: "SD cards", category: "tech", quantity: "3+" },
-      { name: "Portable power bank", category: "tech" },
-      { name: "Gimbal/stabilizer", category: "tech" },
-    ]
-  },
-  gamer: {
-    label: "Gamer",
-    icon: "🎮",
-    items: [
-      { name: "Nintendo Switch", category: "tech" },
-      { name: "Switch charger", category: "tech" },
-      { name: "Game cartridges", category: "tech" },
-      { name: "Switch case", category: "tech" },
-      { name: "Extra controllers", category: "tech" },
-      { name: "Portable stand", category: "tech" },
-    ]
-  },
-  photographer: {
-    label: "Photographer",
-    icon: "📷",
-    items: [
-      { name: "Camera body", category: "tech" },
-      { name: "Camera lenses", category: "tech", quantity: "2-3" },
-      { name: "Lens filters", category: "tech" },
-      { name: "Lens cleaning kit", category: "tech" },
-      { name: "Tripod", category: "tech" },
-      { name: "SD cards", category: "tech", quantity: "5+" },
-      { name: "Extra batteries", category: "tech", quantity: "3+" },
-      { name: "Camera bag", category: "tech" },
-      { name: "External hard drive", category: "tech" },
-    ]
-  },
-};
-
 const loadSavedData = () => {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
       const { data, timestamp } = JSON.parse(saved);
       if ((new Date().getTime() - timestamp) / (1000 * 60 * 60) < 720) {
-        // Migrate old traveler format (count) to new format (male/female)
-        if (data?.profile?.travelers) {
-          data.profile.travelers = data.profile.travelers.map((t: any) => {
-            if (typeof t.male === 'undefined' || typeof t.female === 'undefined') {
-              // Old format - convert count to male
-              return { type: t.type, male: t.count || 0, female: 0 };
-            }
-            return t;
-          });
-        }
+        // Migrate counted travelers (count, then male/female) to one record each
+        if (data?.profile?.travelers) data.profile.travelers = migrateTravelers(data.profile.travelers);
         // Ensure personalNotes exists
         if (data?.profile && typeof data.profile.personalNotes === 'undefined') {
           data.profile.personalNotes = "";
@@ -418,6 +257,15 @@ const saveData = (data: any) => {
   try { localStorage.setItem(STORAGE_KEY, JSON.stringify({ data, timestamp: new Date().getTime() })); } catch (e) {}
 };
 
+const loadPersonalProfiles = (): PersonalProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return saved ? parsePersonalProfiles(saved) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
 // Analytics tracking helper
 const trackEvent = (event: string, data: Record<string, any> = {}) => {
   try {
@@ -430,637 +278,6 @@ const trackEvent = (event: string, data: Record<string, any> = {}) => {
   } catch {}
 };
 
-// Parse personal notes - adds items to CORRECT categories + extras to "personal"
-const parsePersonalNotes = (notes: string): ChecklistItem[] => {
-  const items: ChecklistItem[] = [];
-  const lower = notes.toLowerCase();
-  
-  // ============ TECH DEVICES ============
-  // iPad / Tablet
-  if (lower.includes("ipad") || lower.includes("tablet") || lower.includes("surface")) {
-    items.push({ id: "note-ipad", name: "iPad / Tablet", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-ipad-charger", name: "iPad charger", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-ipad-case", name: "iPad case / stand", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-stylus", name: "Apple Pencil / stylus", category: "tech", essential: false, checked: false });
-  }
-  
-  // Laptop / Computer
-  if (lower.includes("laptop") || lower.includes("macbook") || lower.includes("computer") || lower.includes("work")) {
-    items.push({ id: "note-laptop", name: "Laptop", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-laptop-charger", name: "Laptop charger", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-laptop-sleeve", name: "Laptop sleeve", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-mouse", name: "Wireless mouse", category: "tech", essential: false, checked: false });
-  }
-  
-  // Kindle / E-reader
-  if (lower.includes("kindle") || lower.includes("e-reader") || lower.includes("ereader") || lower.includes("nook")) {
-    items.push({ id: "note-kindle", name: "Kindle / E-reader", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-kindle-charger", name: "Kindle charger", category: "tech", essential: false, checked: false });
-  }
-  
-  // Gaming
-  if (lower.includes("switch") || lower.includes("nintendo") || lower.includes("gaming") || lower.includes("playstation") || lower.includes("xbox") || lower.includes("steam deck") || lower.includes("game")) {
-    items.push({ id: "note-switch", name: "Nintendo Switch / gaming device", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-switch-charger", name: "Gaming device charger", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-switch-case", name: "Gaming device case", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-game-controller", name: "Extra controllers", category: "tech", essential: false, checked: false });
-  }
-  
-  // Phone accessories
-  if (lower.includes("phone") || lower.includes("iphone") || lower.includes("android") || lower.includes("charger")) {
-    items.push({ id: "note-phone-charger", name: "Phone charger", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-power-bank", name: "Power bank", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-phone-cable", name: "Extra charging cables", category: "tech", essential: false, checked: false });
-  }
-  
-  // Watch
-  if (lower.includes("watch") || lower.includes("apple watch") || lower.includes("smartwatch") || lower.includes("fitbit") || lower.includes("garmin")) {
-    items.push({ id: "note-smartwatch", name: "Smartwatch", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-watch-charger", name: "Watch charger", category: "tech", essential: false, checked: false });
-  }
-  
-  // Headphones / Audio
-  if (lower.includes("airpods") || lower.includes("earbuds") || lower.includes("headphone") || lower.includes("beats") || lower.includes("bose") || lower.includes("sony")) {
-    items.push({ id: "note-headphones", name: "Headphones / AirPods", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-headphones-case", name: "Headphones case", category: "tech", essential: false, checked: false });
-  }
-  
-  // Speaker
-  if (lower.includes("speaker") || lower.includes("bluetooth speaker") || lower.includes("jbl") || lower.includes("bose speaker")) {
-    items.push({ id: "note-speaker", name: "Bluetooth speaker", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-speaker-charger", name: "Speaker charger", category: "tech", essential: false, checked: false });
-  }
-  
-  // Camera / Photography
-  if (lower.includes("camera") || lower.includes("dslr") || lower.includes("gopro") || lower.includes("photo") || lower.includes("vlog") || lower.includes("drone")) {
-    items.push({ id: "note-camera", name: "Camera", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-camera-batteries", name: "Camera batteries", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-sd-cards", name: "Memory cards", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-camera-charger", name: "Camera charger", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-tripod", name: "Tripod", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-camera-bag", name: "Camera bag", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("drone")) {
-    items.push({ id: "note-drone", name: "Drone", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-drone-batteries", name: "Drone batteries", category: "tech", essential: false, checked: false });
-  }
-  if (lower.includes("gopro") || lower.includes("action cam")) {
-    items.push({ id: "note-gopro", name: "GoPro / action camera", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-gopro-mount", name: "GoPro mounts", category: "tech", essential: false, checked: false });
-  }
-  
-  // ============ READING / ENTERTAINMENT ============
-  if (lower.includes("book") || lower.includes("read") || lower.includes("novel") || lower.includes("magazine")) {
-    items.push({ id: "note-books", name: "Books / reading material", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-booklight", name: "Book light", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("podcast") || lower.includes("audiobook") || lower.includes("audible")) {
-    items.push({ id: "note-headphones-audio", name: "Headphones for audio", category: "tech", essential: false, checked: false });
-  }
-  if (lower.includes("netflix") || lower.includes("movie") || lower.includes("stream") || lower.includes("download")) {
-    items.push({ id: "note-download-content", name: "Download offline content", category: "preDeparture", essential: false, checked: false });
-  }
-  
-  // ============ FITNESS / WORKOUT ============
-  if (lower.includes("gym") || lower.includes("workout") || lower.includes("exercise") || lower.includes("fitness") || lower.includes("lift") || lower.includes("weights") || lower.includes("crossfit")) {
-    items.push({ id: "note-gym-shirts", name: "Workout shirts", category: "workout", quantity: "3", essential: false, checked: false });
-    items.push({ id: "note-gym-shorts", name: "Workout shorts", category: "workout", quantity: "3", essential: false, checked: false });
-    items.push({ id: "note-sports-bra", name: "Sports bra", category: "workout", quantity: "3", essential: false, checked: false, gender: "female" });
-    items.push({ id: "note-gym-shoes", name: "Training shoes", category: "workout", essential: false, checked: false });
-    items.push({ id: "note-gym-socks", name: "Workout socks", category: "workout", quantity: "3", essential: false, checked: false });
-    items.push({ id: "note-gym-gloves", name: "Workout gloves", category: "activity", essential: false, checked: false });
-    items.push({ id: "note-gym-towel", name: "Gym towel", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-gym-bottle", name: "Water bottle", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-gym-bands", name: "Resistance bands", category: "activity", essential: false, checked: false });
-    items.push({ id: "note-gym-lock", name: "Gym padlock", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-protein", name: "Protein powder / bars", category: "personal", essential: false, checked: false });
-  }
-  
-  // Running / Jogging
-  if (lower.includes("run") || lower.includes("jog") || lower.includes("marathon") || lower.includes("5k") || lower.includes("10k")) {
-    items.push({ id: "note-run-shoes", name: "Running shoes", category: "workout", essential: false, checked: false });
-    items.push({ id: "note-run-shorts", name: "Running shorts", category: "workout", essential: false, checked: false });
-    items.push({ id: "note-run-shirt", name: "Running shirt", category: "workout", essential: false, checked: false });
-    items.push({ id: "note-run-socks", name: "Athletic socks", category: "workout", quantity: "3 pairs", essential: false, checked: false });
-    items.push({ id: "note-run-watch", name: "Sports watch / GPS", category: "tech", essential: false, checked: false });
-    items.push({ id: "note-run-belt", name: "Running belt", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-run-armband", name: "Phone armband", category: "personal", essential: false, checked: false });
-  }
-  
-  // Yoga / Meditation
-  if (lower.includes("yoga") || lower.includes("meditat") || lower.includes("pilates") || lower.includes("stretch")) {
-    items.push({ id: "note-yoga-pants", name: "Yoga leggings", category: "workout", quantity: "2", essential: false, checked: false, gender: "female" });
-    items.push({ id: "note-yoga-top", name: "Yoga top", category: "workout", quantity: "2", essential: false, checked: false });
-    items.push({ id: "note-yoga-bra", name: "Sports bra", category: "workout", quantity: "2", essential: false, checked: false, gender: "female" });
-    items.push({ id: "note-yoga-mat", name: "Travel yoga mat", category: "activity", essential: false, checked: false });
-    items.push({ id: "note-yoga-strap", name: "Yoga strap", category: "activity", essential: false, checked: false });
-  }
-  
-  // Swimming
-  if (lower.includes("swim") || lower.includes("pool") || lower.includes("lap") || lower.includes("water aerobics")) {
-    items.push({ id: "note-swim-suit", name: "Swimsuit", category: "workout", quantity: "2", essential: false, checked: false });
-    items.push({ id: "note-swim-goggles", name: "Swim goggles", category: "activity", essential: false, checked: false });
-    items.push({ id: "note-swim-cap", name: "Swim cap", category: "activity", essential: false, checked: false });
-    items.push({ id: "note-swim-towel", name: "Quick-dry towel", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ OUTDOOR ACTIVITIES ============
-  // Hiking
-  if (lower.includes("hike") || lower.includes("hiking") || lower.includes("trail") || lower.includes("trek") || lower.includes("backpack")) {
-    items.push({ id: "note-hiking-boots", name: "Hiking boots", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-hiking-socks", name: "Hiking socks", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-hiking-pants", name: "Hiking pants", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-daypack", name: "Daypack", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-hiking-poles", name: "Hiking poles", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-water-bladder", name: "Hydration bladder", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-headlamp", name: "Headlamp", category: "personal", essential: false, checked: false });
-  }
-  
-  // Camping
-  if (lower.includes("camp") || lower.includes("tent") || lower.includes("outdoor")) {
-    items.push({ id: "note-tent", name: "Tent", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-sleeping-bag", name: "Sleeping bag", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-sleeping-pad", name: "Sleeping pad", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-flashlight", name: "Flashlight / lantern", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-bug-spray", name: "Bug spray", category: "toiletries", essential: false, checked: false });
-  }
-  
-  // Beach
-  if (lower.includes("beach") || lower.includes("ocean") || lower.includes("sand") || lower.includes("sunbath")) {
-    items.push({ id: "note-beach-towel", name: "Beach towel", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-beach-bag", name: "Beach bag", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-flip-flops", name: "Flip flops / sandals", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-beach-umbrella", name: "Beach umbrella", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-cooler", name: "Cooler bag", category: "personal", essential: false, checked: false });
-  }
-  
-  // Skiing / Snowboarding
-  if (lower.includes("ski") || lower.includes("snowboard") || lower.includes("snow") || lower.includes("slope")) {
-    items.push({ id: "note-ski-jacket", name: "Ski jacket", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-ski-pants", name: "Ski pants", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-thermal", name: "Thermal underwear", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-ski-goggles", name: "Ski goggles", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-ski-gloves", name: "Ski gloves", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-hand-warmers", name: "Hand warmers", category: "personal", essential: false, checked: false });
-  }
-  
-  // Golf
-  if (lower.includes("golf") || lower.includes("course")) {
-    items.push({ id: "note-golf-clubs", name: "Golf clubs", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-golf-shoes", name: "Golf shoes", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-golf-glove", name: "Golf glove", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-golf-balls", name: "Golf balls", category: "personal", essential: false, checked: false });
-  }
-  
-  // Tennis
-  if (lower.includes("tennis") || lower.includes("racket") || lower.includes("court")) {
-    items.push({ id: "note-tennis-racket", name: "Tennis racket", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-tennis-shoes", name: "Tennis shoes", category: "clothing", essential: false, checked: false });
-  }
-  
-  // Scuba / Snorkeling
-  if (lower.includes("scuba") || lower.includes("snorkel") || lower.includes("dive") || lower.includes("diving")) {
-    items.push({ id: "note-snorkel-mask", name: "Snorkel mask", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-snorkel-fins", name: "Fins", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-rash-guard", name: "Rash guard", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-dive-cert", name: "Dive certification card", category: "documents", essential: false, checked: false });
-  }
-  
-  // Surfing
-  if (lower.includes("surf") || lower.includes("wave")) {
-    items.push({ id: "note-wetsuit", name: "Wetsuit", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-rash-guard-surf", name: "Rash guard", category: "clothing", essential: false, checked: false });
-    items.push({ id: "note-surf-wax", name: "Surf wax", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ HEALTH & WELLNESS ============
-  // Sleep
-  if (lower.includes("light sleeper") || lower.includes("trouble sleep") || lower.includes("can't sleep") || lower.includes("insomnia") || lower.includes("jet lag")) {
-    items.push({ id: "note-earplugs", name: "Earplugs", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-sleepmask", name: "Sleep mask", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-melatonin", name: "Melatonin", category: "health", essential: false, checked: false });
-    items.push({ id: "note-sleepaid", name: "Sleep aid", category: "health", essential: false, checked: false });
-  }
-  
-  // Medications
-  if (lower.includes("allerg") || lower.includes("hay fever")) {
-    items.push({ id: "note-allergy", name: "Allergy medication", category: "health", essential: false, checked: false });
-    items.push({ id: "note-antihistamine", name: "Antihistamines", category: "health", essential: false, checked: false });
-  }
-  if (lower.includes("motion sick") || lower.includes("car sick") || lower.includes("seasick") || lower.includes("nausea")) {
-    items.push({ id: "note-motion", name: "Motion sickness meds", category: "health", essential: false, checked: false });
-    items.push({ id: "note-ginger", name: "Ginger candies", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-sea-bands", name: "Sea bands", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("headache") || lower.includes("migraine") || lower.includes("pain")) {
-    items.push({ id: "note-painkillers", name: "Pain relievers", category: "health", essential: false, checked: false });
-  }
-  if (lower.includes("vitamin") || lower.includes("supplement")) {
-    items.push({ id: "note-vitamins", name: "Vitamins / supplements", category: "health", essential: false, checked: false });
-  }
-  
-  // Vision
-  if (lower.includes("contact") || lower.includes("lens")) {
-    items.push({ id: "note-contacts", name: "Contact lenses", category: "health", essential: false, checked: false });
-    items.push({ id: "note-contact-solution", name: "Contact solution", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-contact-case", name: "Contact case", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-backup-glasses", name: "Backup glasses", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("glasses") || lower.includes("eyewear") || lower.includes("spectacle")) {
-    items.push({ id: "note-glasses", name: "Glasses", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-glasses-case", name: "Glasses case", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-glasses-cleaner", name: "Glasses cleaner", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("sunglass")) {
-    items.push({ id: "note-sunglasses", name: "Sunglasses", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ PERSONAL CARE ============
-  // Skincare
-  if (lower.includes("skincare") || lower.includes("skin care") || lower.includes("moistur") || lower.includes("dry skin") || lower.includes("face")) {
-    items.push({ id: "note-moisturizer", name: "Moisturizer", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-facewash", name: "Face wash", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-serum", name: "Serums", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-lipbalm", name: "Lip balm", category: "toiletries", essential: false, checked: false });
-  }
-  
-  // Hair
-  if (lower.includes("hair") || lower.includes("curly") || lower.includes("straighten")) {
-    items.push({ id: "note-hairdryer", name: "Hair dryer", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-straightener", name: "Hair straightener / curler", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "note-hair-products", name: "Hair products", category: "toiletries", essential: false, checked: false });
-  }
-  
-  // ============ COMFORT / TRAVEL AIDS ============
-  if (lower.includes("pillow") || lower.includes("neck") || lower.includes("long flight") || lower.includes("plane")) {
-    items.push({ id: "note-pillow", name: "Travel pillow", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-blanket", name: "Travel blanket", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-compression", name: "Compression socks", category: "clothing", essential: false, checked: false });
-  }
-  
-  // ============ FOOD & DRINK ============
-  if (lower.includes("coffee") || lower.includes("caffeine") || lower.includes("espresso")) {
-    items.push({ id: "note-coffee-mug", name: "Travel coffee mug", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-coffee-instant", name: "Instant coffee", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("tea")) {
-    items.push({ id: "note-tea-bags", name: "Tea bags", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-tea-mug", name: "Travel tea mug", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("snack") || lower.includes("hungry") || lower.includes("munchies") || lower.includes("food")) {
-    items.push({ id: "note-snacks", name: "Travel snacks", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-snack-container", name: "Snack containers", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("water bottle") || lower.includes("hydrat") || lower.includes("thirsty")) {
-    items.push({ id: "note-water", name: "Reusable water bottle", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-electrolytes", name: "Electrolyte packets", category: "health", essential: false, checked: false });
-  }
-  if (lower.includes("diet") || lower.includes("vegan") || lower.includes("vegetarian") || lower.includes("gluten") || lower.includes("celiac")) {
-    items.push({ id: "note-dietary-snacks", name: "Dietary-specific snacks", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ WRITING / ART ============
-  if (lower.includes("journal") || lower.includes("diary") || lower.includes("write") || lower.includes("pen")) {
-    items.push({ id: "note-journal", name: "Travel journal", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-pens", name: "Nice pens", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("draw") || lower.includes("sketch") || lower.includes("art") || lower.includes("paint")) {
-    items.push({ id: "note-sketchbook", name: "Sketchbook", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-pencils", name: "Pencils / colored pencils", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-art-supplies", name: "Art supplies", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ MUSIC ============
-  if (lower.includes("guitar") || lower.includes("ukulele") || lower.includes("instrument") || lower.includes("music") && lower.includes("play")) {
-    items.push({ id: "note-instrument", name: "Musical instrument", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ BUSINESS / WORK ============
-  if (lower.includes("meeting") || lower.includes("conference") || lower.includes("presentation") || lower.includes("business")) {
-    items.push({ id: "note-business-cards", name: "Business cards", category: "documents", essential: false, checked: false });
-    items.push({ id: "note-portfolio", name: "Portfolio / folder", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-notebook-biz", name: "Professional notebook", category: "personal", essential: false, checked: false });
-  }
-  
-  // ============ SPECIFIC ITEMS MENTIONED ============
-  // Direct item mentions - catch specific product names
-  if (lower.includes("umbrella")) {
-    items.push({ id: "note-umbrella", name: "Travel umbrella", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("binocular")) {
-    items.push({ id: "note-binoculars", name: "Binoculars", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("passport")) {
-    items.push({ id: "note-passport-copy", name: "Passport copies", category: "documents", essential: false, checked: false });
-  }
-  if (lower.includes("cash") || lower.includes("money") || lower.includes("currency")) {
-    items.push({ id: "note-cash", name: "Cash / local currency", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("adapter") || lower.includes("converter") || lower.includes("plug")) {
-    items.push({ id: "note-adapter", name: "Power adapter", category: "tech", essential: false, checked: false });
-  }
-  if (lower.includes("extension") || lower.includes("power strip")) {
-    items.push({ id: "note-power-strip", name: "Power strip", category: "tech", essential: false, checked: false });
-  }
-  if (lower.includes("lock") || lower.includes("padlock") || lower.includes("tsa")) {
-    items.push({ id: "note-tsa-lock", name: "TSA-approved lock", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("packing cube") || lower.includes("organizer")) {
-    items.push({ id: "note-packing-cubes", name: "Packing cubes", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("laundry") || lower.includes("wash clothes")) {
-    items.push({ id: "note-laundry-bag", name: "Laundry bag", category: "personal", essential: false, checked: false });
-    items.push({ id: "note-detergent", name: "Travel detergent", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("sewing") || lower.includes("needle")) {
-    items.push({ id: "note-sewing-kit", name: "Mini sewing kit", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("duct tape") || lower.includes("tape")) {
-    items.push({ id: "note-tape", name: "Travel duct tape", category: "personal", essential: false, checked: false });
-  }
-  if (lower.includes("ziplock") || lower.includes("plastic bag")) {
-    items.push({ id: "note-ziplocks", name: "Ziplock bags", category: "personal", essential: false, checked: false });
-  }
-  
-  // Deduplicate by id
-  return items.filter((item, idx, arr) => arr.findIndex(i => i.id === item.id) === idx);
-};
-
-const getTravelerTotal = (travelers: TravelerInfo[], type: TravelerType) => {
-  const t = travelers.find(tr => tr.type === type);
-  return t ? t.male + t.female : 0;
-};
-
-// Individual traveler for per-person checklists
-interface IndividualTraveler {
-  id: string;
-  label: string;
-  type: TravelerType;
-  gender: "male" | "female";
-}
-
-// Generate list of individual travelers from profile
-const getIndividualTravelers = (travelers: TravelerInfo[]): IndividualTraveler[] => {
-  const individuals: IndividualTraveler[] = [];
-  let adultM = 0, adultF = 0, childM = 0, childF = 0;
-  
-  travelers.forEach(t => {
-    if (t.type === "adult") {
-      for (let i = 0; i < t.male; i++) {
-        adultM++;
-        individuals.push({ id: `adult-m-${adultM}`, label: t.male === 1 && t.female === 0 ? "Adult (M)" : `Adult ${adultM} (M)`, type: "adult", gender: "male" });
-      }
-      for (let i = 0; i < t.female; i++) {
-        adultF++;
-        individuals.push({ id: `adult-f-${adultF}`, label: t.female === 1 && t.male === 0 ? "Adult (F)" : `Adult ${adultF} (F)`, type: "adult", gender: "female" });
-      }
-    }
-    if (t.type === "child") {
-      for (let i = 0; i < t.male; i++) {
-        childM++;
-        individuals.push({ id: `child-m-${childM}`, label: `Boy ${childM}`, type: "child", gender: "male" });
-      }
-      for (let i = 0; i < t.female; i++) {
-        childF++;
-        individuals.push({ id: `child-f-${childF}`, label: `Girl ${childF}`, type: "child", gender: "female" });
-      }
-    }
-  });
-  
-  return individuals;
-};
-
-const generateChecklist = (profile: TripProfile): ChecklistItem[] => {
-  const items: ChecklistItem[] = [];
-  const { isInternational, climate, tripDuration, travelers, purpose, packingConstraint, activities, personalNotes } = profile;
-  const hasChildren = getTravelerTotal(travelers, "child") > 0;
-  const hasInfants = getTravelerTotal(travelers, "infant") > 0;
-  const hasPets = getTravelerTotal(travelers, "pet") > 0;
-  const hasFemales = travelers.some(t => t.female > 0 && (t.type === "adult" || t.type === "child"));
-  const hasMales = travelers.some(t => t.male > 0 && (t.type === "adult" || t.type === "child"));
-  const isCarryOnOnly = packingConstraint === "carry_on_only";
-  const baseOutfits = Math.min(tripDuration, 7);
-  
-  // Analyze destination for climate hints
-  const destLower = profile.destination.toLowerCase();
-  const isColdDestination = destLower.includes("alaska") || destLower.includes("iceland") || 
-    destLower.includes("norway") || destLower.includes("sweden") || destLower.includes("finland") ||
-    destLower.includes("canada") || destLower.includes("switzerland") || destLower.includes("austria") ||
-    destLower.includes("colorado") || destLower.includes("aspen") || destLower.includes("ski") ||
-    destLower.includes("mountain") || destLower.includes("alps");
-  
-  // Effective climate - override if destination strongly suggests different climate
-  const effectiveClimate = isColdDestination && climate !== "winter" ? "winter" : climate;
-
-  // DOCUMENTS
-  items.push({ id: "doc-id", name: "ID / Driver's license", category: "documents", essential: true, checked: false });
-  if (isInternational) {
-    items.push({ id: "doc-passport", name: "Passport", category: "documents", essential: true, checked: false });
-    items.push({ id: "doc-visa", name: "Visa / ESTA", category: "documents", essential: true, checked: false });
-  }
-  items.push({ id: "doc-insurance", name: "Travel insurance", category: "documents", essential: true, checked: false });
-  items.push({ id: "doc-itinerary", name: "Itinerary", category: "documents", essential: true, checked: false });
-  items.push({ id: "doc-credit", name: "Credit cards", category: "documents", essential: true, checked: false });
-  items.push({ id: "doc-cash", name: "Emergency cash", category: "documents", essential: true, checked: false });
-  if (purpose === "business") {
-    items.push({ id: "doc-business", name: "Business cards", category: "documents", essential: true, checked: false });
-  }
-
-  // Check if destination is beach-related (destLower already defined above)
-  const isBeachDestination = destLower.includes("miami") || destLower.includes("hawaii") || destLower.includes("cancun") || 
-    destLower.includes("bahamas") || destLower.includes("caribbean") || destLower.includes("maldives") || 
-    destLower.includes("cabo") || destLower.includes("punta cana") || destLower.includes("florida") ||
-    destLower.includes("bali") || destLower.includes("thailand") || destLower.includes("fiji") ||
-    destLower.includes("beach") || destLower.includes("island") || destLower.includes("coast") ||
-    purpose === "beach" || effectiveClimate === "tropical";
-
-  // CLOTHING - EVERYONE
-  items.push({ id: "cloth-underwear", name: "Underwear", category: "clothing", quantity: `${Math.min(tripDuration + 1, 8)}`, essential: true, checked: false });
-  items.push({ id: "cloth-socks", name: "Socks", category: "clothing", quantity: `${Math.min(tripDuration + 1, 8)}`, essential: true, checked: false });
-  items.push({ id: "cloth-sleepwear", name: "Sleepwear", category: "clothing", essential: true, checked: false });
-  
-  // FEMALE-SPECIFIC CLOTHING
-  if (hasFemales) {
-    items.push({ id: "cloth-bras", name: "Bras", category: "clothing", quantity: `${Math.min(tripDuration, 5)}`, essential: true, checked: false, gender: "female" });
-    items.push({ id: "cloth-dresses", name: "Dresses", category: "clothing", quantity: `${Math.ceil(baseOutfits / 3)}`, essential: false, checked: false, gender: "female" });
-    items.push({ id: "cloth-skirts", name: "Skirts", category: "clothing", quantity: `${Math.ceil(baseOutfits / 4)}`, essential: false, checked: false, gender: "female" });
-    items.push({ id: "cloth-blouses", name: "Blouses / tops", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: true, checked: false, gender: "female" });
-  }
-  
-  // SUMMER / TROPICAL / BEACH CLOTHING
-  if (effectiveClimate === "summer" || effectiveClimate === "tropical" || isBeachDestination) {
-    items.push({ id: "cloth-tshirts", name: "T-shirts", category: "clothing", quantity: `${baseOutfits}`, essential: true, checked: false });
-    items.push({ id: "cloth-shorts", name: "Shorts", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: true, checked: false });
-    items.push({ id: "cloth-tankstops", name: "Tank tops", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: false, checked: false });
-    items.push({ id: "cloth-swimwear", name: "Swimwear", category: "clothing", quantity: "2", essential: true, checked: false });
-    items.push({ id: "cloth-coverup", name: "Beach cover-up", category: "clothing", essential: false, checked: false });
-    items.push({ id: "cloth-sunhat", name: "Sun hat", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-sunglasses", name: "Sunglasses", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-flipflops", name: "Flip-flops / sandals", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-lightdress", name: "Sundress", category: "clothing", essential: false, checked: false, gender: "female" });
-  }
-  
-  // WINTER / COLD CLOTHING
-  if (effectiveClimate === "winter") {
-    items.push({ id: "cloth-sweaters", name: "Sweaters", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: true, checked: false });
-    items.push({ id: "cloth-longsleeve", name: "Long-sleeve shirts", category: "clothing", quantity: `${baseOutfits}`, essential: true, checked: false });
-    items.push({ id: "cloth-coat", name: "Winter coat", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-gloves", name: "Gloves", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-scarf", name: "Scarf", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-beanie", name: "Beanie / winter hat", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-boots", name: "Warm boots", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-thermals", name: "Thermal underwear", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-warmjeans", name: "Jeans / warm pants", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: true, checked: false });
-    items.push({ id: "cloth-fleece", name: "Fleece jacket", category: "clothing", essential: false, checked: false });
-  }
-  
-  // SPRING / VARIABLE WEATHER
-  if (effectiveClimate === "spring" || effectiveClimate === "variable") {
-    items.push({ id: "cloth-layers", name: "Layering pieces", category: "clothing", quantity: `${baseOutfits}`, essential: true, checked: false });
-    items.push({ id: "cloth-raincoat", name: "Rain jacket", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-lightjacket", name: "Light jacket", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-jeans", name: "Jeans / pants", category: "clothing", quantity: `${Math.ceil(baseOutfits / 2)}`, essential: true, checked: false });
-  }
-  
-  // GENERAL ITEMS
-  items.push({ id: "cloth-walking", name: "Walking shoes", category: "clothing", essential: true, checked: false });
-  items.push({ id: "cloth-belt", name: "Belt", category: "clothing", essential: true, checked: false });
-  if (purpose === "business") {
-    items.push({ id: "cloth-formal", name: "Formal attire", category: "clothing", essential: true, checked: false });
-    items.push({ id: "cloth-dressshoes", name: "Dress shoes", category: "clothing", essential: true, checked: false });
-  }
-  if (tripDuration > 5) {
-    items.push({ id: "cloth-laundry", name: "Laundry bag", category: "clothing", essential: false, checked: false });
-  }
-
-  // TOILETRIES
-  if (isCarryOnOnly) {
-    items.push({ id: "toil-bag", name: "TSA toiletry bag", category: "toiletries", essential: true, checked: false });
-  } else {
-    items.push({ id: "toil-full", name: "Shampoo & soap", category: "toiletries", essential: true, checked: false });
-  }
-  items.push({ id: "toil-basics", name: "Toothbrush & paste", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-floss", name: "Floss", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-deo", name: "Deodorant", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-brush", name: "Brush / comb", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-facewash", name: "Face cleanser", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-facelotion", name: "Face lotion / moisturizer", category: "toiletries", essential: true, checked: false });
-  items.push({ id: "toil-handlotion", name: "Hand lotion", category: "toiletries", essential: false, checked: false });
-  items.push({ id: "toil-contacts-solution", name: "Contact lens solution", category: "toiletries", essential: false, checked: false });
-  items.push({ id: "toil-contacts-case", name: "Contact lens case", category: "toiletries", essential: false, checked: false });
-  items.push({ id: "toil-nailclippers", name: "Nail clippers / file", category: "toiletries", essential: false, checked: false });
-  items.push({ id: "toil-tweezers", name: "Tweezers", category: "toiletries", essential: false, checked: false });
-  if (effectiveClimate === "summer" || effectiveClimate === "tropical" || purpose === "beach" || isBeachDestination) {
-    items.push({ id: "toil-sun", name: "Sunscreen SPF 30+", category: "toiletries", essential: true, checked: false });
-    items.push({ id: "toil-aftersun", name: "After-sun / aloe vera", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "toil-lipsunscreen", name: "Lip balm with SPF", category: "toiletries", essential: false, checked: false });
-  }
-  // Gender-specific toiletries
-  if (hasMales) {
-    items.push({ id: "toil-razor-m", name: "Razor & shaving cream", category: "toiletries", essential: false, checked: false });
-  }
-  if (hasFemales) {
-    items.push({ id: "toil-makeup", name: "Makeup", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "toil-makeup-remover", name: "Makeup remover", category: "toiletries", essential: false, checked: false });
-    items.push({ id: "toil-feminine", name: "Feminine hygiene products", category: "toiletries", essential: true, checked: false });
-    items.push({ id: "toil-birthcontrol", name: "Birth control", category: "health", essential: true, checked: false });
-    items.push({ id: "toil-hairtools", name: "Hair tools", category: "toiletries", essential: false, checked: false });
-  }
-
-  // HEALTH
-  items.push({ id: "health-meds", name: "Medications", category: "health", essential: true, checked: false });
-  items.push({ id: "health-firstaid", name: "First aid kit", category: "health", essential: true, checked: false });
-  items.push({ id: "health-sanitizer", name: "Hand sanitizer", category: "health", essential: true, checked: false });
-
-  // TECH
-  items.push({ id: "tech-phone", name: "Phone & charger", category: "tech", essential: true, checked: false });
-  items.push({ id: "tech-powerbank", name: "Power bank", category: "tech", essential: true, checked: false });
-  if (isInternational) {
-    items.push({ id: "tech-adapter", name: "Power adapter", category: "tech", essential: true, checked: false });
-  }
-  items.push({ id: "tech-headphones", name: "Noise-canceling headphones", category: "tech", essential: true, checked: false });
-  if (purpose === "business") {
-    items.push({ id: "tech-laptop", name: "Laptop", category: "tech", essential: true, checked: false });
-  }
-
-  // COMFORT (standard for all trips)
-  items.push({ id: "comfort-neckpillow", name: "Travel neck pillow", category: "personal", essential: true, checked: false });
-  items.push({ id: "comfort-snacks", name: "Snacks", category: "personal", essential: true, checked: false });
-
-  // ACTIVITY
-  if (purpose === "beach" || activities.includes("beach") || isBeachDestination) {
-    items.push({ id: "act-beach", name: "Beach towel", category: "activity", essential: true, checked: false });
-    items.push({ id: "act-beachbag", name: "Beach bag", category: "activity", essential: false, checked: false });
-    items.push({ id: "act-snorkel", name: "Snorkel gear", category: "activity", essential: false, checked: false });
-    items.push({ id: "act-waterproof", name: "Waterproof phone pouch", category: "activity", essential: false, checked: false });
-    items.push({ id: "act-cooler", name: "Portable cooler / beach drinks", category: "activity", essential: false, checked: false });
-  }
-  if (purpose === "adventure" || activities.includes("hiking")) {
-    items.push({ id: "act-daypack", name: "Daypack", category: "activity", essential: true, checked: false });
-    items.push({ id: "act-bottle", name: "Water bottle", category: "activity", essential: true, checked: false });
-  }
-
-  // FAMILY
-  if (hasChildren || hasInfants) {
-    items.push({ id: "fam-snacks", name: "Kid snacks", category: "family", essential: true, checked: false });
-    items.push({ id: "fam-entertainment", name: "Kid entertainment", category: "family", essential: true, checked: false });
-  }
-  if (hasInfants) {
-    items.push({ id: "fam-diapers", name: "Diapers & wipes", category: "family", essential: true, checked: false });
-    items.push({ id: "fam-formula", name: "Formula / food", category: "family", essential: true, checked: false });
-  }
-  if (hasPets) {
-    items.push({ id: "fam-petfood", name: "Pet food", category: "family", essential: true, checked: false });
-    items.push({ id: "fam-petcarrier", name: "Pet carrier", category: "family", essential: true, checked: false });
-  }
-
-  // PERSONAL (from notes)
-  if (personalNotes) {
-    const noteItems = parsePersonalNotes(personalNotes);
-    // Filter by gender - skip if gender-specific and that gender not present
-    const filteredNoteItems = noteItems.filter(item => {
-      if (item.gender === "female" && !hasFemales) return false;
-      if (item.gender === "male" && !hasMales) return false;
-      return true;
-    });
-    items.push(...filteredNoteItems);
-  }
-
-  // PRESETS (from selected traveler types)
-  if (profile.presets && profile.presets.length > 0) {
-    profile.presets.forEach(presetKey => {
-      const preset = TRAVELER_PRESETS[presetKey];
-      if (preset) {
-        preset.items.forEach(item => {
-          // Filter by gender - skip if gender-specific and that gender not present
-          if (item.gender === "female" && !hasFemales) return;
-          if (item.gender === "male" && !hasMales) return;
-          
-          items.push({
-            id: `preset-${presetKey}-${item.name.toLowerCase().replace(/\s+/g, '-')}`,
-            name: item.name,
-            category: item.category,
-            quantity: item.quantity,
-            essential: false,
-            checked: false
-          });
-        });
-      }
-    });
-  }
-
-  // PRE-DEPARTURE
-  items.push({ id: "pre-confirm", name: "Confirm all reservations", category: "preDeparture", essential: true, checked: false });
-  items.push({ id: "pre-checkin", name: "Online flight check-in", category: "preDeparture", essential: true, checked: false });
-  items.push({ id: "pre-bank", name: "Notify bank of travel dates", category: "preDeparture", essential: true, checked: false });
-  if (isInternational) {
-    items.push({ id: "pre-phone", name: "Set up international phone plan", category: "preDeparture", essential: true, checked: false });
-  }
-  items.push({ id: "pre-home", name: "Home prep (mail, plants, thermostat)", category: "preDeparture", essential: false, checked: false });
-
-  return items;
-};
-
 const CATEGORY_INFO: Record<string, { name: string; color: string; icon: React.ReactNode }> = {
   documents: { name: "📄 Documents", color: COLORS.blue, icon: <FileText size={20} /> },
   clothing: { name: "👕 Everyday Clothing", color: COLORS.purple, icon: <Shirt size={20} /> },
@@ -1090,9 +307,14 @@ const DestinationAutocomplete = ({ value, onChange, style }: { value: string; on
       return;
     }
     if (debounceRef.current) clearTimeout(debounceRef.current);
+    // Bundled gazetteer matches show instantly (and offline); online results fill in after
+    const local = searchGazetteer(value).map(formatDestination);
+    setSuggestions(local);
+    if (local.length > 0 && userHasFocused) setIsOpen(true);
     debounceRef.current = setTimeout(async () => {
-      setIsLoading(true);
-      const results = await searchDestinations(value);
+      setIsLoading(local.length === 0);
+      const remote = await searchDestinations(value);
+      const results = [...local, ...remote.filter(r => !local.includes(r))].slice(0, 8);
       setSuggestions(results);
       setIsLoading(false);
       // Only auto-open if user has actively interacted with the input
@@ -1218,6 +440,216 @@ const TravelerCounter = ({ count, onChange, label, icon }: { count: number; onCh
   </div>
 );
 
+// Opt-in attributes for one person; items like razors or period products are only packed for those who pick them
+const AttributePicker = ({ selected, onChange }: { selected: TravelerAttribute[]; onChange: (attributes: TravelerAttribute[]) => void }) => (
+  <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+    {TRAVELER_ATTRIBUTES.map(attribute => {
+      const active = selected.includes(attribute);
+      return (
+        <button
+          key={attribute}
+          type="button"
+          onClick={() => onChange(active ? selected.filter(a => a !== attribute) : [...selected, attribute])}
+          style={{
+            padding: "6px 12px", borderRadius: 16, border: "none",
+            backgroundColor: active ? COLORS.primary : COLORS.inputBg,
+            color: active ? "white" : COLORS.textSecondary,
+            fontWeight: 600, fontSize: 12, cursor: "pointer"
+          }}
+        >
+          {ATTRIBUTE_LABELS[attribute]}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// Free-text entries as removable chips; Enter or "Add" adds what's typed
+const ChipListInput = ({ values, onChange, placeholder }: { values: string[]; onChange: (values: string[]) => void; placeholder: string }) => {
+  const [draft, setDraft] = useState("");
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.some(v => v.toLowerCase() === value.toLowerCase())) onChange([...values, value]);
+    setDraft("");
+  };
+  return (
+    <div>
+      {values.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 6 }}>
+          {values.map(value => (
+            <span key={value} style={{ display: "flex", alignItems: "center", gap: 4, padding: "4px 10px", borderRadius: 14, backgroundColor: COLORS.accentLight, color: COLORS.primaryDark, fontSize: 12, fontWeight: 600 }}>
+              {value}
+              <X size={12} style={{ cursor: "pointer" }} onClick={() => onChange(values.filter(v => v !== value))} />
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: 6 }}>
+        <input
+          style={{ flex: 1, padding: "8px 12px", borderRadius: 10, border: `1px solid ${COLORS.border}`, fontSize: 13, backgroundColor: COLORS.inputBg, color: COLORS.textMain }}
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); add(); } }}
+        />
+        <button type="button" onClick={add} style={{ padding: "8px 12px", borderRadius: 10, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, fontWeight: 600, fontSize: 13, cursor: "pointer" }}>Add</button>
+      </div>
+    </div>
+  );
+};
+
+// Toggle chips for one of a fixed list (a profile's diet, sleep aids and presets; a traveler's medical needs)
+const ChipToggles = <T extends string>({ options, labels, selected, onChange }: { options: readonly T[]; labels: Record<T, string>; selected: T[]; onChange: (selected: T[]) => void }) => (
+  <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+    {options.map(option => {
+      const active = selected.includes(option);
+      return (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(active ? selected.filter(o => o !== option) : [...selected, option])}
+          style={{
+            padding: "6px 12px", borderRadius: 16, border: "none",
+            backgroundColor: active ? COLORS.primary : COLORS.inputBg,
+            color: active ? "white" : COLORS.textSecondary,
+            fontWeight: 600, fontSize: 12, cursor: "pointer"
+          }}
+        >
+          {labels[option]}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// One person's medications: added by name, then dose, how often and what's counted. The planner turns
+// these into trip quantities and a dosing schedule for the time difference.
+const MedicationEditor = ({ medications, onChange }: { medications: Medication[]; onChange: (medications: Medication[]) => void }) => {
+  const [draft, setDraft] = useState("");
+  const field = { padding: "6px 8px", borderRadius: 8, border: `1px solid ${COLORS.border}`, fontSize: 12, backgroundColor: COLORS.inputBg, color: COLORS.textMain, minWidth: 0 } as const;
+  const update = (index: number, changes: Partial<Medication>) => onChange(medications.map((m, i) => i === index ? { ...m, ...changes } : m));
+  const add = () => {
+    const name = draft.trim();
+    if (name && !medications.some(m => m.name.toLowerCase() === name.toLowerCase())) onChange([...medications, { name, frequency: "daily" }]);
+    setDraft("");
+  };
+  return (
+    <div>
+      {medications.map((m, i) => (
+        <div key={m.name} style={{ padding: 8, borderRadius: 10, backgroundColor: COLORS.accentLight, marginBottom: 6 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 6, marginBottom: 6 }}>
+            <span style={{ flex: 1, fontWeight: 600, fontSize: 13, color: COLORS.primaryDark }}>{m.name}</span>
+            <input style={{ ...field, width: 80 }} value={m.dose || ""} placeholder="Dose" onChange={(e) => update(i, { dose: e.target.value.trim() ? e.target.value : undefined })} />
+            <X size={14} color={COLORS.textSecondary} style={{ cursor: "pointer" }} onClick={() => onChange(medications.filter((_, j) => j !== i))} />
+          </div>
+          <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6 }}>
+            <select style={field} value={m.frequency || ""} onChange={(e) => update(i, { frequency: (e.target.value || undefined) as MedicationFrequency | undefined, times: undefined })}>
+              <option value="">When needed</option>
+              {MEDICATION_FREQUENCIES.map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+            </select>
+            <input style={{ ...field, width: 44 }} type="number" min={1} value={m.unitsPerDose ?? 1} title="Per dose" onChange={(e) => update(i, { unitsPerDose: Math.max(1, Number(e.target.value) || 1) })} />
+            <input style={{ ...field, width: 70 }} value={m.unit || ""} placeholder="tablet" onChange={(e) => update(i, { unit: e.target.value.trim() ? e.target.value : undefined })} />
+            <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 12, color: COLORS.textSecondary }}>
+              <input type="checkbox" checked={Boolean(m.controlled)} onChange={(e) => update(i, { controlled: e.target.checked || undefined })} />
+              Controlled
+            </label>
+          </div>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 6 }}>
+        <input
+          style={{ flex: 1, padding: "8px 12px", borderRadius: 10, border: `1px solid ${COLORS.border}`, fontSize: 13, backgroundColor: COLORS.inputBg, color: COLORS.textMain }}
+          value={draft}
+          placeholder="E.g., Levothyroxine"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); add(); } }}
+        />
+        <button type="button" onClick={add} style={{ padding: "8px 12px", borderRadius: 10, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, fontWeight: 600, fontSize: 13, cursor: "pointer" }}>Add</button>
+      </div>
+    </div>
+  );
+};
+
+const PRESET_LABELS = Object.fromEntries(Object.entries(TRAVELER_PRESETS).map(([key, preset]) => [key, `${preset.icon} ${preset.label}`]));
+
+// One traveler's saved profile: attach one, save a new one, and edit what it packs.
+// Export and import share the saved profiles as a file.
+const PersonalProfileEditor = ({ profiles, attached, message, onAttach, onCreate, onChange, onExport, onImport }: {
+  profiles: PersonalProfile[];
+  attached?: PersonalProfile;
+  message: string;
+  onAttach: (profileId: string) => void;
+  onCreate: () => void;
+  onChange: (profileId: string, changes: Partial<PersonalProfile>) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}) => {
+  const subLabel = { fontSize: 12, fontWeight: 600, color: COLORS.textSecondary, marginBottom: 6, marginTop: 12, display: "block" } as const;
+  const linkButton = { background: "none", border: "none", padding: 0, color: COLORS.primary, fontWeight: 600, fontSize: 12, cursor: "pointer" } as const;
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <select
+          style={{ flex: 1, padding: "10px 12px", borderRadius: 10, border: `1px solid ${COLORS.border}`, fontSize: 13, backgroundColor: COLORS.inputBg, color: COLORS.textMain }}
+          value={attached?.id || ""}
+          onChange={(e) => onAttach(e.target.value)}
+        >
+          <option value="">No saved profile</option>
+          {profiles.map(pp => <option key={pp.id} value={pp.id}>{pp.name}</option>)}
+        </select>
+        {!attached && <button type="button" onClick={onCreate} style={{ ...linkButton, display: "flex", alignItems: "center", gap: 4 }}><Plus size={14} /> Save as profile</button>}
+      </div>
+      {attached && (
+        <>
+          <label style={subLabel}>Profile name</label>
+          <input
+            style={{ width: "100%", padding: "8px 12px", borderRadius: 10, border: `1px solid ${COLORS.border}`, fontSize: 13, backgroundColor: COLORS.inputBg, color: COLORS.textMain, boxSizing: "border-box" }}
+            value={attached.name}
+            onChange={(e) => onChange(attached.id, { name: e.target.value })}
+          />
+          <label style={subLabel}>💊 Usual medications</label>
+          <MedicationEditor medications={attached.medications} onChange={(medications) => onChange(attached.id, { medications })} />
+          <label style={subLabel}>👓 Glasses or contacts</label>
+          <select
+            style={{ width: "100%", padding: "8px 12px", borderRadius: 10, border: `1px solid ${COLORS.border}`, fontSize: 13, backgroundColor: COLORS.inputBg, color: COLORS.textMain }}
+            value={attached.vision || ""}
+            onChange={(e) => onChange(attached.id, { vision: (e.target.value || undefined) as VisionAid | undefined })}
+          >
+            <option value="">Neither</option>
+            {VISION_AIDS.map(v => <option key={v} value={v}>{VISION_LABELS[v]}</option>)}
+          </select>
+          <label style={subLabel}>🔌 Devices</label>
+          <ChipListInput values={attached.devices} onChange={(devices) => onChange(attached.id, { devices })} placeholder="E.g., Kindle" />
+          <label style={subLabel}>🥗 Diet</label>
+          <ChipToggles options={DIETS} labels={DIET_LABELS} selected={attached.diet} onChange={(diet) => onChange(attached.id, { diet })} />
+          <label style={subLabel}>😴 Sleep aids</label>
+          <ChipToggles options={SLEEP_AIDS} labels={SLEEP_AID_LABELS} selected={attached.sleepAids} onChange={(sleepAids) => onChange(attached.id, { sleepAids })} />
+          <label style={subLabel}>🎯 Travel style</label>
+          <ChipToggles options={Object.keys(TRAVELER_PRESETS)} labels={PRESET_LABELS} selected={attached.presets} onChange={(presets) => onChange(attached.id, { presets })} />
+        </>
+      )}
+      <div style={{ display: "flex", gap: 16, marginTop: 12, alignItems: "center" }}>
+        <button type="button" onClick={onExport} disabled={profiles.length === 0} style={{ ...linkButton, opacity: profiles.length === 0 ? 0.5 : 1 }}>Export profiles</button>
+        <label style={{ ...linkButton, display: "inline-block" }}>
+          Import profiles
+          <input
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ""; }}
+          />
+        </label>
+      </div>
+      {message && <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 6 }}>{message}</div>}
+    </div>
+  );
+};
+
+// Countries covered by the entry-requirements dataset, alphabetical (passport and home-country pickers)
+const PASSPORT_OPTIONS = Object.entries(COUNTRIES)
+  .map(([code, c]) => [code, c.name] as const)
+  .sort((a, b) => a[1].localeCompare(b[1]));
+
 const ChecklistItemRow = ({ item, onToggle, onRemove }: { item: ChecklistItem; onToggle: () => void; onRemove?: () => void }) => (
   <div style={{
     display: "flex", alignItems: "center", gap: 10, padding: "12px 14px",
@@ -1231,6 +663,9 @@ const ChecklistItemRow = ({ item, onToggle, onRemove }: { item: ChecklistItem; o
       <div style={{ fontWeight: 600, color: item.checked ? COLORS.primaryDark : COLORS.textMain, fontSize: 13, textDecoration: item.checked ? "line-through" : "none" }}>
         {item.name}
       </div>
+      {item.reason && (
+        <div style={{ fontSize: 11, color: COLORS.textSecondary, marginTop: 2 }}>{item.reason}</div>
+      )}
     </div>
     {item.quantity && (
       <div style={{ 
@@ -1316,23 +751,60 @@ const AddItemInput = ({ category, onAdd }: { category: string; onAdd: (name: str
   );
 };
 
+// The device's timezone is where the trip starts unless ChatGPT says otherwise (medication schedules)
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const NEW_PROFILE: TripProfile = { ...DEFAULT_PROFILE, homeTimeZone: BROWSER_TIME_ZONE };
+
+// Tool-result legs (snake_case); a climate or purpose the widget doesn't know falls back to the trip's
+const toolLegSchema = z.object({
+  destination: z.string(),
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  days: z.number().positive().optional().catch(undefined),
+  climate: z.enum(["summer", "winter", "spring", "tropical", "variable"]).optional().catch(undefined),
+  purpose: z.enum(["leisure", "business", "adventure", "beach", "city"]).optional().catch(undefined),
+});
+
+// Tool-result medications (snake_case) as the planner's; ones that don't validate are dropped
+const toolMedicationSchema = z.object({
+  name: z.string(),
+  dose: z.string().optional(),
+  units_per_dose: z.number().optional(),
+  unit: z.string().optional(),
+  frequency: z.string().optional(),
+  times: z.array(z.string()).optional(),
+  controlled: z.boolean().optional(),
+}).transform(({ dose, units_per_dose, unit, ...m }) => ({
+  ...m,
+  ...(dose ? { dose } : {}),
+  ...(units_per_dose ? { unitsPerDose: units_per_dose } : {}),
+  ...(unit ? { unit } : {}),
+})).pipe(medicationSchema);
+
+const toMedications = (raw: unknown[]): Medication[] => raw.flatMap(entry => {
+  const parsed = toolMedicationSchema.safeParse(entry);
+  return parsed.success ? [parsed.data] : [];
+});
+
 export default function TravelChecklist({ initialData }: { initialData?: any }) {
   const saved = loadSavedData();
-  const [profile, setProfile] = useState<TripProfile>(saved?.profile || DEFAULT_PROFILE);
+  const [profile, setProfile] = useState<TripProfile>(saved?.profile || NEW_PROFILE);
   const [checklist, setChecklist] = useState<ChecklistItem[]>(saved?.checklist || []);
   const [individualChecklists, setIndividualChecklists] = useState<Record<string, ChecklistItem[]>>(saved?.individualChecklists || {});
   const [checklistGenerated, setChecklistGenerated] = useState(saved?.checklistGenerated || false);
   const [selectedTab, setSelectedTab] = useState<string>(saved?.selectedTab || "shared"); // "shared" or traveler id
+  const [viewMode, setViewMode] = useState<"category" | "bag">(saved?.viewMode || "category");
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showOutfitPlan, setShowOutfitPlan] = useState(false);
   const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({ documents: true, clothing: true, workout: true, toiletries: true, health: true, tech: true, activity: true, family: true, preDeparture: true, personal: true });
   const [showBanner, setShowBanner] = useState(() => { try { const d = localStorage.getItem(BANNER_STORAGE_KEY); return !d || (new Date().getTime() - parseInt(d)) > 86400000; } catch { return true; } });
-  const [expandedTravelers, setExpandedTravelers] = useState<Record<string, boolean>>({ children: false, infants: false, pets: false });
+  const [expandedTravelers, setExpandedTravelers] = useState<Record<string, boolean>>({ children: false, infants: false, seniors: false, pets: false });
   
   // Saved checklists state
   const [savedChecklists, setSavedChecklists] = useState<SavedChecklist[]>(() => {
     try {
       const data = localStorage.getItem(SAVED_CHECKLISTS_KEY);
-      return data ? JSON.parse(data) : [];
+      return data ? JSON.parse(data).map((sc: SavedChecklist) => ({ ...sc, profile: { ...sc.profile, travelers: migrateTravelers(sc.profile.travelers) } })) : [];
     } catch { return []; }
   });
   const [showSaveModal, setShowSaveModal] = useState(false);
@@ -1358,17 +830,24 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
   // Per-individual preferences (notes and presets unique to each traveler)
   const [individualPrefs, setIndividualPrefs] = useState<Record<string, { notes: string; presets: string[] }>>(saved?.individualPrefs || {});
   
+  // Saved personal profiles, attached to travelers on any trip
+  const [personalProfiles, setPersonalProfiles] = useState<PersonalProfile[]>(loadPersonalProfiles);
+  const [profilesMessage, setProfilesMessage] = useState("");
+  useEffect(() => {
+    try { localStorage.setItem(PROFILES_STORAGE_KEY, exportPersonalProfiles(personalProfiles)); } catch (e) {}
+  }, [personalProfiles]);
+  
   // Track previous traveler info to detect single->multi transition and who gets presets
   const prevTravelerCountRef = useRef<number>(0);
   const wasLastGenerationSinglePerson = useRef<boolean>(true);
-  const originalSingleTravelerRef = useRef<{ type: string; gender: string } | null>(null);
+  const originalSingleTravelerRef = useRef<string | null>(null);
   
   // Get list of individual travelers
-  const individuals = useMemo(() => getIndividualTravelers(profile.travelers), [profile.travelers]);
+  const individuals = useMemo(() => getIndividualTravelers(profile.travelers, profile.travelerDetails), [profile.travelers, profile.travelerDetails]);
 
   useEffect(() => { 
-    saveData({ profile, checklist, checklistGenerated, individualChecklists, individualPrefs, selectedTab }); 
-  }, [profile, checklist, checklistGenerated, individualChecklists, individualPrefs, selectedTab]);
+    saveData({ profile, checklist, checklistGenerated, individualChecklists, individualPrefs, selectedTab, viewMode }); 
+  }, [profile, checklist, checklistGenerated, individualChecklists, individualPrefs, selectedTab, viewMode]);
   
   // Fix selectedTab on load: if multiple travelers and selectedTab is invalid, auto-select first traveler
   useEffect(() => {
@@ -1389,16 +868,7 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
       const newPrefs: Record<string, { notes: string; presets: string[] }> = {};
       
       individuals.forEach((t) => {
-        const individualProfile: TripProfile = {
-          ...profile,
-          presets: [],
-          travelers: [{
-            type: t.type as "adult" | "child" | "infant" | "senior" | "pet",
-            male: t.gender === "male" ? 1 : 0,
-            female: t.gender === "female" ? 1 : 0
-          }]
-        };
-        const items = generateChecklist(individualProfile);
+        const items = generateChecklist(getIndividualProfile(profile, t));
         indivLists[t.id] = items.map(item => ({ ...item, id: `${t.id}-${item.id}` }));
         newPrefs[t.id] = individualPrefs[t.id] || { notes: "", presets: [] };
       });
@@ -1444,143 +914,22 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
         updates.destination = String(initialData.destination);
       }
       
-      // Calculate trip duration in days
-      let tripDurationDays = 7; // Default to 1 week
-      if (initialData.trip_duration) {
-        tripDurationDays = Number(initialData.trip_duration);
-      } else if (initialData.trip_weeks) {
-        tripDurationDays = Number(initialData.trip_weeks) * 7;
-      }
-      
-      // Helper to format date as YYYY-MM-DD
-      const formatDate = (d: Date): string => {
-        return d.toISOString().split('T')[0];
-      };
-      
-      // Helper to get next occurrence of a day of week (0=Sunday, 6=Saturday)
-      const getNextDayOfWeek = (dayOfWeek: number, weeksAhead: number = 0): Date => {
-        const today = new Date();
-        const currentDay = today.getDay();
-        let daysUntil = dayOfWeek - currentDay;
-        if (daysUntil <= 0) daysUntil += 7;
-        const result = new Date(today);
-        result.setDate(today.getDate() + daysUntil + (weeksAhead * 7));
-        return result;
-      };
-      
-      // Helper to get first day of a month
-      const getFirstOfMonth = (monthName: string): Date => {
-        const months: Record<string, number> = {
-          january: 0, february: 1, march: 2, april: 3, may: 4, june: 5,
-          july: 6, august: 7, september: 8, october: 9, november: 10, december: 11
-        };
-        const monthNum = months[monthName.toLowerCase()];
-        if (monthNum === undefined) return new Date();
-        
-        const today = new Date();
-        let year = today.getFullYear();
-        // If the month has already passed this year, use next year
-        if (monthNum < today.getMonth() || (monthNum === today.getMonth() && today.getDate() > 1)) {
-          year++;
-        }
-        return new Date(year, monthNum, 1);
-      };
-      
-      // Dates - handle exact dates, relative timing, or month-based
-      let startDate: Date | null = null;
-      let endDate: Date | null = null;
-      
-      // Priority 1: Exact dates provided
-      if (initialData.start_date) {
-        startDate = new Date(initialData.start_date);
-        if (initialData.end_date) {
-          endDate = new Date(initialData.end_date);
-        }
-      }
-      
-      // Priority 2: Relative departure timing (e.g., "in two weeks", "next weekend")
-      if (!startDate && initialData.departure_timing) {
-        const today = new Date();
-        const timing = initialData.departure_timing;
-        
-        switch (timing) {
-          case "this_week":
-            // Start tomorrow
-            startDate = new Date(today);
-            startDate.setDate(today.getDate() + 1);
-            break;
-          case "next_week":
-            // Start 7 days from now
-            startDate = new Date(today);
-            startDate.setDate(today.getDate() + 7);
-            break;
-          case "in_two_weeks":
-            // Start 14 days from now (user said "in two weeks" so give them a week to prepare)
-            startDate = new Date(today);
-            startDate.setDate(today.getDate() + 7);
-            break;
-          case "in_three_weeks":
-            startDate = new Date(today);
-            startDate.setDate(today.getDate() + 14);
-            break;
-          case "this_weekend":
-            // Next Saturday
-            startDate = getNextDayOfWeek(6, 0);
-            if (!initialData.trip_duration && !initialData.trip_weeks) {
-              tripDurationDays = 2; // Weekend = 2 days
-            }
-            break;
-          case "next_weekend":
-            // Saturday after next
-            startDate = getNextDayOfWeek(6, 1);
-            if (!initialData.trip_duration && !initialData.trip_weeks) {
-              tripDurationDays = 2;
-            }
-            break;
-          case "next_month":
-            const nextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
-            startDate = nextMonth;
-            break;
-          case "in_two_months":
-            const twoMonths = new Date(today.getFullYear(), today.getMonth() + 2, 1);
-            startDate = twoMonths;
-            break;
-        }
-      }
-      
-      // Priority 3: Month-based (e.g., "in December", "in January")
-      if (!startDate && initialData.trip_month) {
-        startDate = getFirstOfMonth(initialData.trip_month);
-      }
-      
-      // Priority 4: If we have trip_duration but no start date, default to starting tomorrow
-      if (!startDate && (initialData.trip_duration || initialData.trip_weeks)) {
-        const today = new Date();
-        startDate = new Date(today);
-        startDate.setDate(today.getDate() + 1); // Start tomorrow
-      }
-      
-      // Calculate end date if we have a start date but no end date
-      if (startDate && !endDate) {
-        endDate = new Date(startDate);
-        endDate.setDate(startDate.getDate() + tripDurationDays - 1);
-      }
-      
-      // Apply dates to updates
-      if (startDate && !isNaN(startDate.getTime())) {
-        updates.startDate = formatDate(startDate);
-      }
-      if (endDate && !isNaN(endDate.getTime())) {
-        updates.endDate = formatDate(endDate);
-      }
-      
-      // Set trip duration
-      if (startDate && endDate) {
-        const diff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        if (diff > 0) updates.tripDuration = diff;
-      } else if (tripDurationDays > 0) {
-        updates.tripDuration = tripDurationDays;
+      // Dates - the server sends concrete dates; resolve relative timing here too for older tool results
+      const dates = resolveTripDates(
+        {
+          startDate: initialData.start_date,
+          endDate: initialData.end_date,
+          departureTiming: initialData.departure_timing,
+          tripMonth: initialData.trip_month,
+          tripDuration: initialData.trip_duration ? Number(initialData.trip_duration) : initialData.trip_weeks ? Number(initialData.trip_weeks) * 7 : undefined,
+        },
+        Intl.DateTimeFormat().resolvedOptions().timeZone
+      );
+      if (dates.startDate && dates.endDate) {
+        updates.startDate = dates.startDate;
+        updates.endDate = dates.endDate;
       }
+      updates.tripDuration = dates.tripDuration;
       
       // International flag
       if (typeof initialData.is_international === "boolean") {
@@ -1602,76 +951,141 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
         updates.packingConstraint = initialData.packing_constraint as TripProfile["packingConstraint"];
       }
       
+      // Bag
+      if (initialData.bag && initialData.bag in BAGS) updates.bag = initialData.bag as BagSize;
+      const airline = resolveAirline(initialData.airline);
+      if (airline) updates.airline = airline;
+      
+      // Laundry
+      if (LAUNDRY_OPTIONS.some(o => o.value === initialData.laundry)) {
+        updates.laundry = initialData.laundry as LaundryFrequency;
+        if (Number(initialData.laundry_every_days) > 0) updates.laundryEveryDays = Number(initialData.laundry_every_days);
+      }
+      
       // Activities
       if (Array.isArray(initialData.activities)) {
         updates.activities = initialData.activities;
       }
       
+      // Passport nationality and home country (ISO code, country name or demonym)
+      const nationality = resolveCountry(initialData.nationality ? String(initialData.nationality) : "");
+      if (nationality) updates.nationality = nationality;
+      const homeCountry = resolveCountry(initialData.home_country ? String(initialData.home_country) : "");
+      if (homeCountry) updates.homeCountry = homeCountry;
+      updates.homeTimeZone = initialData.home_time_zone ? String(initialData.home_time_zone) : BROWSER_TIME_ZONE;
+      if (Number(initialData.medication_buffer_days) >= 0 && initialData.medication_buffer_days !== undefined) updates.medicationBufferDays = Number(initialData.medication_buffer_days);
+      
+      // Multi-destination legs (climate already resolved per leg by the server)
+      if (Array.isArray(initialData.legs) && initialData.legs.length > 1) {
+        updates.legs = initialData.legs.flatMap((raw: unknown): TripLeg[] => {
+          const parsed = toolLegSchema.safeParse(raw);
+          if (!parsed.success) return [];
+          const leg = parsed.data;
+          return [{
+            destination: leg.destination,
+            startDate: leg.start_date || "",
+            endDate: leg.end_date || "",
+            ...(leg.days ? { days: leg.days } : {}),
+            climate: leg.climate || updates.climate || DEFAULT_PROFILE.climate,
+            ...(leg.purpose ? { purpose: leg.purpose } : {}),
+          }];
+        });
+      }
+      
       // Presets (traveler types like lightSleeper, gymRat, etc.)
       if (Array.isArray(initialData.presets) && initialData.presets.length > 0) {
         updates.presets = initialData.presets;
       }
       
-      // Travelers - build from detailed breakdown or total count
-      const newTravelers = [...DEFAULT_PROFILE.travelers];
-      let hasTravelerData = false;
-      
-      // Detailed breakdown
-      if (initialData.adult_males && Number(initialData.adult_males) > 0) {
-        const adultIdx = newTravelers.findIndex(t => t.type === "adult");
-        if (adultIdx >= 0) newTravelers[adultIdx] = { ...newTravelers[adultIdx], male: Number(initialData.adult_males) };
-        hasTravelerData = true;
-      }
-      if (initialData.adult_females && Number(initialData.adult_females) > 0) {
-        const adultIdx = newTravelers.findIndex(t => t.type === "adult");
-        if (adultIdx >= 0) newTravelers[adultIdx] = { ...newTravelers[adultIdx], female: Number(initialData.adult_females) };
-        hasTravelerData = true;
-      }
-      if (initialData.male_children && Number(initialData.male_children) > 0) {
-        const childIdx = newTravelers.findIndex(t => t.type === "child");
-        if (childIdx >= 0) newTravelers[childIdx] = { ...newTravelers[childIdx], male: Number(initialData.male_children) };
-        hasTravelerData = true;
-      }
-      if (initialData.female_children && Number(initialData.female_children) > 0) {
-        const childIdx = newTravelers.findIndex(t => t.type === "child");
-        if (childIdx >= 0) newTravelers[childIdx] = { ...newTravelers[childIdx], female: Number(initialData.female_children) };
-        hasTravelerData = true;
-      }
-      if (initialData.infants && Number(initialData.infants) > 0) {
-        const infantIdx = newTravelers.findIndex(t => t.type === "infant");
-        if (infantIdx >= 0) newTravelers[infantIdx] = { ...newTravelers[infantIdx], male: Number(initialData.infants) };
-        hasTravelerData = true;
-      }
-      
+      // Travelers - build from the breakdown or total count (same rules as the server's buildTripProfile)
+      let newTravelers: TravelerInfo[] = [];
+      const setCount = (type: TravelerType, count: number) => { newTravelers = setTravelerCount(newTravelers, type, count); };
+      let hasTravelerData = false;
+      const travelerDetails: Record<string, TravelerDetails> = {};
+      
+      // Nobody is counted by gender; what each person packs for comes from the attributes they opt into
+      if (Number(initialData.adults) > 0) { setCount("adult", Number(initialData.adults)); hasTravelerData = true; }
+      if (Number(initialData.children) > 0) { setCount("child", Number(initialData.children)); hasTravelerData = true; }
+      if (Number(initialData.infants) > 0) { setCount("infant", Number(initialData.infants)); hasTravelerData = true; }
+      if (Number(initialData.seniors) > 0) { setCount("senior", Number(initialData.seniors)); hasTravelerData = true; }
+      
       // Legacy: has_children / has_infants / has_pets booleans
-      if (initialData.has_children && !initialData.male_children && !initialData.female_children) {
-        const childIdx = newTravelers.findIndex(t => t.type === "child");
-        if (childIdx >= 0) newTravelers[childIdx] = { ...newTravelers[childIdx], male: 1 };
+      if (initialData.has_children && !initialData.children) { setCount("child", 1); hasTravelerData = true; }
+      if (initialData.has_infants && !initialData.infants) { setCount("infant", 1); hasTravelerData = true; }
+      // Each pet is a traveler of its own species, in the order given
+      if (Array.isArray(initialData.pets) && initialData.pets.length > 0) {
+        const pets: Record<string, PetDetails> = {};
+        initialData.pets.forEach((pet: { species?: string; size?: PetSize; travel?: PetTravelMode; name?: string }) => {
+          const added = addTraveler(newTravelers, "pet", pet.species === "cat" ? "cat" : "dog");
+          newTravelers = added.travelers;
+          pets[added.traveler.id] = {
+            ...(PET_SIZES.includes(pet.size!) ? { size: pet.size } : {}),
+            ...(PET_TRAVEL_MODES.includes(pet.travel!) ? { travel: pet.travel } : {}),
+          };
+          if (pet.name) travelerDetails[added.traveler.id] = { name: String(pet.name) };
+        });
+        updates.pets = pets;
         hasTravelerData = true;
+      } else if (initialData.has_pets) { setCount("pet", 1); hasTravelerData = true; }
+      
+      // Described travelers are the first of their type not described yet, or one more of that type
+      if (Array.isArray(initialData.traveler_details)) {
+        initialData.traveler_details.forEach((person: { type?: TravelerType; name?: string; age?: number; birth_date?: string; attributes?: unknown[]; medical?: unknown[]; medications?: unknown[] }) => {
+          if (!person.type || !["adult", "child", "infant", "senior"].includes(person.type)) return;
+          let traveler = newTravelers.find(t => t.type === person.type && !travelerDetails[t.id]);
+          if (!traveler) ({ traveler, travelers: newTravelers } = addTraveler(newTravelers, person.type));
+          travelerDetails[traveler.id] = {
+            ...(person.name ? { name: String(person.name) } : {}),
+            ...(Number(person.age) >= 0 && person.age !== undefined ? { age: Number(person.age) } : {}),
+            ...(person.birth_date ? { birthDate: String(person.birth_date) } : {}),
+            ...(Array.isArray(person.attributes) ? { attributes: person.attributes.filter(isTravelerAttribute) } : {}),
+            ...(Array.isArray(person.medical) ? { medical: person.medical.filter(isMedicalNeed) } : {}),
+            ...(Array.isArray(person.medications) ? { medications: toMedications(person.medications) } : {}),
+          };
+          hasTravelerData = true;
+        });
       }
-      if (initialData.has_infants && !initialData.infants) {
-        const infantIdx = newTravelers.findIndex(t => t.type === "infant");
-        if (infantIdx >= 0) newTravelers[infantIdx] = { ...newTravelers[infantIdx], male: 1 };
+      // Bare ages go to the children not described above, in id order
+      if (Array.isArray(initialData.child_ages) && initialData.child_ages.length > 0) {
+        const ages: number[] = initialData.child_ages.map(Number).filter((age: number) => age >= 0);
+        const undescribed = () => newTravelers.filter(t => t.type === "child" && !travelerDetails[t.id]);
+        const missing = ages.length - undescribed().length;
+        if (missing > 0) setCount("child", getTravelerTotal(newTravelers, "child") + missing);
+        const children = undescribed();
+        ages.forEach((age, i) => { travelerDetails[children[i].id] = { age }; });
         hasTravelerData = true;
       }
-      if (initialData.has_pets) {
-        const petIdx = newTravelers.findIndex(t => t.type === "pet");
-        if (petIdx >= 0) newTravelers[petIdx] = { ...newTravelers[petIdx], male: 1 };
-        hasTravelerData = true;
+      // Saved personal profiles attach to the travelers with the same name
+      const attached: Record<string, PersonalProfile> = {};
+      Object.entries(travelerDetails).forEach(([id, details]) => {
+        const name = details.name?.trim().toLowerCase();
+        const personal = name ? personalProfiles.find(pp => pp.name.trim().toLowerCase() === name) : undefined;
+        if (!personal) return;
+        attached[id] = personal;
+        travelerDetails[id] = {
+          ...details,
+          ...(personal.attributes && !details.attributes ? { attributes: personal.attributes } : {}),
+          ...(personal.medical && !details.medical ? { medical: personal.medical } : {}),
+        };
+      });
+      updates.personalProfiles = attached;
+      if (getIndividualTravelers(newTravelers).length <= 1) {
+        const presets = Object.values(attached).flatMap(pp => pp.presets);
+        if (presets.length > 0) updates.presets = [...new Set([...(updates.presets || []), ...presets])];
+      } else if (Object.keys(attached).length > 0) {
+        setIndividualPrefs(Object.fromEntries(Object.entries(attached).map(([id, pp]) => [id, { notes: pp.notes || "", presets: pp.presets }])));
       }
+      if (Object.keys(travelerDetails).length > 0) updates.travelerDetails = travelerDetails;
       
-      // Fallback: total travelers count (assume adult males if no breakdown)
-      if (!hasTravelerData && initialData.travelers && Number(initialData.travelers) > 0) {
-        const adultIdx = newTravelers.findIndex(t => t.type === "adult");
-        if (adultIdx >= 0) newTravelers[adultIdx] = { ...newTravelers[adultIdx], male: Number(initialData.travelers) };
+      // A total larger than the breakdown adds the remaining people as adults
+      const people = newTravelers.filter(t => t.type !== "pet").length;
+      if (Number(initialData.travelers) > people) {
+        setCount("adult", getTravelerTotal(newTravelers, "adult") + Number(initialData.travelers) - people);
         hasTravelerData = true;
       }
       
-      // Default to 1 adult male if no travelers specified
-      if (!hasTravelerData) {
-        const adultIdx = newTravelers.findIndex(t => t.type === "adult");
-        if (adultIdx >= 0) newTravelers[adultIdx] = { ...newTravelers[adultIdx], male: 1 };
-      }
+      // Default to 1 adult if no travelers specified
+      if (!hasTravelerData) setCount("adult", 1);
       
       updates.travelers = newTravelers;
       
@@ -1685,11 +1099,21 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     }
   }, []); // Run once on mount
 
-  const updateTravelerGender = (type: TravelerType, gender: "male" | "female", count: number) => {
-    setProfile(p => ({ ...p, travelers: p.travelers.map(t => t.type === type ? { ...t, [gender]: count } : t) }));
+  // Removing travelers drops the most recently added, so everyone else keeps their details
+  const updateTravelerCount = (type: TravelerType, count: number, species?: PetSpecies) => {
+    setProfile(p => ({ ...p, travelers: setTravelerCount(p.travelers, type, count, species) }));
   };
-  const getTraveler = (type: TravelerType) => profile.travelers.find(t => t.type === type) || { type, male: 0, female: 0 };
+  const travelerCount = (type: TravelerType) => getTravelerTotal(profile.travelers, type);
+  const petCount = (species: PetSpecies) => profile.travelers.filter(t => t.type === "pet" && t.species === species).length;
   
+  // Seasonal climate from the gazetteer normals (same resolution the server uses); shown when there's no forecast
+  const climateExplanation = useMemo(() => {
+    const place = lookupDestination(profile.destination);
+    return place ? resolveClimate(place, monthOf(profile.startDate), new Date().getMonth()).explanation : null;
+  }, [profile.destination, profile.startDate]);
+
+  const laundryPlan = useMemo(() => getLaundryPlan(profile), [profile.tripDuration, profile.laundry, profile.laundryEveryDays]);
+
   // Calculate duration from dates
   const calculatedDuration = useMemo(() => {
     if (profile.startDate && profile.endDate) {
@@ -1743,8 +1167,14 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
         endDate = endFuture.toISOString().split('T')[0];
       }
       
-      const weather = await fetchWeatherForecast(coords.lat, coords.lon, startDate, endDate);
+      // Climate averages come from the bundled place, or the nearest one for places found by geocoding
+      const place = lookupDestination(profile.destination) || nearestDestination(coords.lat, coords.lon);
+      const weather = await fetchWeatherForecast(coords.lat, coords.lon, startDate, endDate, place);
       setWeatherForecast(weather);
+      // The daily forecast drives the outfit plan (and so clothing quantities); without it, climate normals do
+      if (weather?.days || profile.forecast) {
+        setProfile(p => ({ ...p, forecast: weather?.days }));
+      }
       
       // Auto-update climate based on weather data
       if (weather) {
@@ -1772,13 +1202,15 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     const freshIds = new Set(freshChecklist.map(item => item.id));
     
     setChecklist(currentItems => {
-      // Build a map of current checked states
+      // Build a map of current checked states and bag assignments
       const checkedMap = new Map(currentItems.map(item => [item.id, item.checked]));
+      const bagMap = new Map(currentItems.filter(item => item.bag).map(item => [item.id, item.bag]));
       
       // Apply checked state to fresh items that existed before
       const updatedItems = freshChecklist.map(item => ({
         ...item,
-        checked: checkedMap.has(item.id) ? checkedMap.get(item.id)! : item.checked
+        checked: checkedMap.has(item.id) ? checkedMap.get(item.id)! : item.checked,
+        ...(bagMap.has(item.id) ? { bag: bagMap.get(item.id) } : {})
       }));
       
       // Keep custom items (added manually by user) that don't start with standard prefixes
@@ -1796,24 +1228,16 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
         const updatedIndivLists: Record<string, ChecklistItem[]> = {};
         
         travelers.forEach((t) => {
-          const individualProfile: TripProfile = {
-            ...profile,
-            presets: [],
-            travelers: [{
-              type: t.type as TravelerType,
-              male: t.gender === "male" ? 1 : 0,
-              female: t.gender === "female" ? 1 : 0
-            }]
-          };
-          
-          const freshIndivItems = generateChecklist(individualProfile);
+          const freshIndivItems = generateChecklist(getIndividualProfile(profile, t));
           const currentItems = currentIndivLists[t.id] || [];
           const checkedMap = new Map(currentItems.map(item => [item.id.replace(`${t.id}-`, ''), item.checked]));
+          const bagMap = new Map(currentItems.filter(item => item.bag).map(item => [item.id.replace(`${t.id}-`, ''), item.bag]));
           
           const updatedItems = freshIndivItems.map(item => ({
             ...item,
             id: `${t.id}-${item.id}`,
-            checked: checkedMap.has(item.id) ? checkedMap.get(item.id)! : item.checked
+            checked: checkedMap.has(item.id) ? checkedMap.get(item.id)! : item.checked,
+            ...(bagMap.has(item.id) ? { bag: bagMap.get(item.id) } : {})
           }));
           
           // Keep custom items
@@ -1836,8 +1260,22 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     profile.isInternational, 
     profile.tripDuration,
     profile.packingConstraint,
+    profile.laundry,
+    profile.laundryEveryDays,
     profile.presets,
     profile.personalNotes,
+    profile.nationality,
+    profile.travelerNationalities,
+    profile.travelerDetails,  // Children's ages pick their age-band items
+    profile.pets,
+    profile.personalProfiles,
+    profile.airline,    // Pet carrier limits and booking notes come from the airline
+    profile.homeCountry,
+    profile.homeTimeZone,         // Medication schedules follow the time difference
+    profile.medicationBufferDays,
+    profile.legs,
+    profile.startDate,  // Entry deadlines and passport validity are date-based
+    profile.forecast,   // Clothing quantities follow the day-by-day outfit plan
     checklistGenerated
   ]);
 
@@ -1875,10 +1313,120 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     });
   };
   
+  const updateTravelerDetails = (travelerId: string, details: TravelerDetails) => {
+    setProfile(p => ({ ...p, travelerDetails: { ...p.travelerDetails, [travelerId]: { ...p.travelerDetails?.[travelerId], ...details } } }));
+  };
+  
+  // Spare days of medication are set once for the trip, from any traveler's medications
+  const medicationBufferInput = (
+    <label style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 8, fontSize: 12, color: COLORS.textSecondary }}>
+      Pack extra for
+      <input
+        type="number"
+        min={0}
+        max={30}
+        value={profile.medicationBufferDays ?? DEFAULT_MEDICATION_BUFFER_DAYS}
+        onChange={(e) => setProfile(p => ({ ...p, medicationBufferDays: Math.min(30, Math.max(0, Math.round(Number(e.target.value) || 0))) }))}
+        style={{ width: 48, padding: "4px 6px", borderRadius: 8, border: `1px solid ${COLORS.border}`, fontSize: 12, backgroundColor: COLORS.inputBg, color: COLORS.textMain }}
+      />
+      spare days (delays)
+    </label>
+  );
+  
+  const updatePetDetails = (petId: string, details: PetDetails) => {
+    setProfile(p => ({ ...p, pets: { ...p.pets, [petId]: { ...p.pets?.[petId], ...details } } }));
+  };
+  
   const getIndividualPrefs = (travelerId: string) => {
     return individualPrefs[travelerId] || { notes: "", presets: [] };
   };
   
+  // Attaching copies a saved profile onto a traveler: its items come from profile.personalProfiles,
+  // and its presets, notes, name, attributes and medical needs are added to theirs. An empty id detaches.
+  const attachPersonalProfile = (travelerId: string, profileId: string) => {
+    const personal = personalProfiles.find(pp => pp.id === profileId);
+    const solo = individuals.length <= 1;
+    setProfile(p => {
+      const { [travelerId]: _detached, ...others } = p.personalProfiles || {};
+      if (!personal) return { ...p, personalProfiles: others };
+      const details = p.travelerDetails?.[travelerId] || {};
+      return {
+        ...p,
+        personalProfiles: { ...others, [travelerId]: personal },
+        travelerDetails: {
+          ...p.travelerDetails,
+          [travelerId]: {
+            ...details,
+            name: details.name || personal.name,
+            ...(personal.attributes ? { attributes: personal.attributes } : {}),
+            ...(personal.medical ? { medical: personal.medical } : {}),
+          },
+        },
+        ...(solo ? { presets: [...new Set([...p.presets, ...personal.presets])], personalNotes: p.personalNotes || personal.notes || "" } : {}),
+      };
+    });
+    if (personal && !solo) {
+      setIndividualPrefs(prev => {
+        const current = prev[travelerId] || { notes: "", presets: [] };
+        return { ...prev, [travelerId]: { notes: current.notes || personal.notes || "", presets: [...new Set([...current.presets, ...personal.presets])] } };
+      });
+    }
+  };
+  
+  // A new profile starts from what the traveler has on this trip, and is attached to them
+  const createPersonalProfile = (travelerId: string) => {
+    const traveler = individuals.find(t => t.id === travelerId);
+    const prefs = individuals.length <= 1 ? { notes: profile.personalNotes, presets: profile.presets } : getIndividualPrefs(travelerId);
+    const { attributes, medical, medications } = profile.travelerDetails?.[travelerId] || {};
+    const personal: PersonalProfile = {
+      ...emptyPersonalProfile(`pp-${Date.now().toString(36)}`, traveler?.label || "Me"),
+      presets: prefs.presets,
+      medications: medications || [],
+      ...(prefs.notes ? { notes: prefs.notes } : {}),
+      ...(attributes ? { attributes } : {}),
+      ...(medical && medical.length > 0 ? { medical } : {}),
+    };
+    setPersonalProfiles(list => [...list, personal]);
+    setProfile(p => ({ ...p, personalProfiles: { ...p.personalProfiles, [travelerId]: personal } }));
+  };
+  
+  // Edits go to the saved profile and to every traveler it's attached to
+  const updatePersonalProfile = (profileId: string, changes: Partial<PersonalProfile>) => {
+    setPersonalProfiles(list => list.map(pp => pp.id === profileId ? { ...pp, ...changes } : pp));
+    setProfile(p => ({
+      ...p,
+      personalProfiles: Object.fromEntries(Object.entries(p.personalProfiles || {}).map(([id, pp]) => [id, pp.id === profileId ? { ...pp, ...changes } : pp])),
+    }));
+  };
+  
+  const exportProfiles = () => {
+    const json = exportPersonalProfiles(personalProfiles);
+    // Downloads are blocked in the ChatGPT iframe, so the file goes to the clipboard there
+    if (window !== window.parent) {
+      navigator.clipboard?.writeText(json).then(
+        () => setProfilesMessage("Profiles copied to the clipboard. Save them as a .json file to share."),
+        () => setProfilesMessage("Couldn't copy the profiles here."),
+      );
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "travel-profiles.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const importProfiles = async (file: File) => {
+    try {
+      const imported = parsePersonalProfiles(await file.text());
+      setPersonalProfiles(list => mergePersonalProfiles(list, imported));
+      setProfilesMessage(`Imported ${imported.length} profile${imported.length === 1 ? "" : "s"}`);
+    } catch (e) {
+      setProfilesMessage(e instanceof Error ? e.message : "Couldn't read that file");
+    }
+  };
+  
   const handleGenerate = () => { 
     // Track checklist generation
     trackEvent("widget_generate_checklist", {
@@ -1911,13 +1459,13 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     // Determine who should inherit the shared presets (if any)
     let presetInheritingTravelerId: string | null = null;
     if (hasSharedPresets && isMultiPerson && wasLastSingle && originalTraveler) {
-      // Transitioning from single to multi - find the original person by type and gender
+      // Transitioning from single to multi - find the original person by id
       // Check if presets were already transferred to any individual
       const alreadyTransferred = Object.values(individualPrefs).some(p => p.presets.length > 0);
       
       if (!alreadyTransferred) {
-        // Find the traveler that matches the original single person's type and gender
-        const match = travelers.find(t => t.type === originalTraveler.type && t.gender === originalTraveler.gender);
+        // Find the traveler that was the original single person
+        const match = travelers.find(t => t.id === originalTraveler);
         presetInheritingTravelerId = match?.id || null;
       }
     }
@@ -1925,19 +1473,9 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     // Initialize per-individual preferences (preserve existing if any)
     const newPrefs: Record<string, { notes: string; presets: string[] }> = {};
     travelers.forEach((t) => {
-      // Create a modified profile for this individual traveler
-      // IMPORTANT: Clear presets from individual profile - we handle them via individualPrefs
-      const individualProfile: TripProfile = {
-        ...profile,
-        presets: [], // Don't include shared presets in individual generation
-        travelers: [{
-          type: t.type as "adult" | "child" | "infant" | "senior" | "pet",
-          male: t.gender === "male" ? 1 : 0,
-          female: t.gender === "female" ? 1 : 0
-        }]
-      };
       // Generate using the same comprehensive checklist logic
-      const items = generateChecklist(individualProfile);
+      // IMPORTANT: getIndividualProfile clears shared presets - we handle them via individualPrefs
+      const items = generateChecklist(getIndividualProfile(profile, t));
       // Prefix item IDs to make them unique per traveler
       indivLists[t.id] = items.map(item => ({ ...item, id: `${t.id}-${item.id}` }));
       
@@ -1962,7 +1500,7 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     wasLastGenerationSinglePerson.current = travelers.length <= 1;
     // Save the original single traveler's info for preset transfer
     if (travelers.length === 1) {
-      originalSingleTravelerRef.current = { type: travelers[0].type, gender: travelers[0].gender };
+      originalSingleTravelerRef.current = travelers[0].id;
     } else if (travelers.length > 1 && !wasLastSingle) {
       // Already multi-person, clear the original
       originalSingleTravelerRef.current = null;
@@ -2009,6 +1547,27 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     }
   };
 
+  const moveItemToBag = (id: string, bag: string) => {
+    trackEvent("widget_move_item_to_bag", { itemId: id, bag, tab: selectedTab });
+    if (selectedTab === "shared") {
+      setChecklist(items => items.map(i => i.id === id ? { ...i, bag } : i));
+    } else {
+      setIndividualChecklists(prev => ({
+        ...prev,
+        [selectedTab]: prev[selectedTab]?.map(i => i.id === id ? { ...i, bag } : i) || []
+      }));
+    }
+  };
+
+  // Editing any bag turns the default set into the profile's own list
+  const updateBags = (update: (bags: PackingBag[]) => PackingBag[]) => setProfile(p => ({ ...p, bags: update(getPackingBags(p, individuals)) }));
+  const addBag = () => updateBags(bags => [...bags, {
+    id: `bag-${Date.now()}`, name: BAG_NAMES.backpack, size: "backpack",
+    ...(selectedTab !== "shared" ? { owner: selectedTab } : {}),
+  }]);
+  const editBag = (id: string, changes: Partial<PackingBag>) => updateBags(bags => bags.map(b => b.id === id ? { ...b, ...changes } : b));
+  const removeBag = (id: string) => updateBags(bags => bags.filter(b => b.id !== id));
+
   const addItem = (category: string, name: string, quantity?: string) => {
     trackEvent("widget_add_custom_item", { category, itemName: name, tab: selectedTab });
     const newItem: ChecklistItem = {
@@ -2030,11 +1589,12 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
   };
   
   const toggleCategory = (cat: string) => setExpandedCategories(prev => ({ ...prev, [cat]: !prev[cat] }));
+  // Saved personal profiles are kept; only this trip is cleared
   const resetAll = () => { 
     trackEvent("widget_clear_data", {});
     localStorage.removeItem(STORAGE_KEY); 
     localStorage.removeItem(SAVED_CHECKLISTS_KEY);
-    setProfile(DEFAULT_PROFILE); 
+    setProfile(NEW_PROFILE); 
     setChecklist([]); 
     setIndividualChecklists({}); 
     setIndividualPrefs({});
@@ -2193,8 +1753,7 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     const baseItems = individualChecklists[selectedTab] || [];
     const prefs = individualPrefs[selectedTab] || { notes: "", presets: [] };
     const traveler = individuals.find(t => t.id === selectedTab);
-    const isFemale = traveler?.gender === "female";
-    const isMale = traveler?.gender === "male";
+    const attributes = traveler ? getTravelerAttributes(profile, traveler) : [];
     const tripDuration = profile.tripDuration || 7;
     
     // Add items from selected presets, scaling quantities based on trip duration
@@ -2203,9 +1762,8 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
       const preset = TRAVELER_PRESETS[presetId];
       if (preset) {
         preset.items.forEach((item, idx) => {
-          // Filter by gender
-          if (item.gender === "female" && !isFemale) return;
-          if (item.gender === "male" && !isMale) return;
+          // Items for one attribute (sports bras) only go to the people who have it
+          if (item.attribute && !attributes.includes(item.attribute)) return;
           // Check if item already exists (by name)
           const exists = baseItems.some(bi => bi.name === item.name) || presetItems.some(pi => pi.name === item.name);
           if (!exists) {
@@ -2213,7 +1771,7 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
               id: `${selectedTab}-preset-${presetId}-${idx}`,
               name: item.name,
               category: item.category,
-              quantity: scaleQuantityForDuration(item.quantity, tripDuration),
+              quantity: isWornItem(item) ? scaleQuantityForDuration(item.quantity, tripDuration, getLaundryPlan(profile)) : item.quantity,
               essential: false,
               checked: false
             });
@@ -2223,7 +1781,26 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     });
     
     return [...baseItems, ...presetItems];
-  }, [selectedTab, checklist, individualChecklists, individualPrefs, individuals, profile.tripDuration]);
+  }, [selectedTab, checklist, individualChecklists, individualPrefs, individuals, profile.tripDuration, profile.laundry, profile.laundryEveryDays, profile.travelerDetails, profile.startDate]);
+
+  // The shared tab of a group weighs everyone's own lists, one bag per person (pets' things go in their bags)
+  const loadEstimate = useMemo(() => {
+    const bag = getBag(profile);
+    if (selectedTab !== "shared" || individuals.length <= 1) return estimateLoad(currentChecklist, bag);
+    const people = individuals.filter(t => t.type !== "pet").length;
+    return estimateLoad(individuals.flatMap(t => individualChecklists[t.id] || []), bag, Math.max(1, people));
+  }, [selectedTab, currentChecklist, individuals, individualChecklists, profile.bag, profile.packingConstraint]);
+  const allowanceCheck = useMemo(
+    () => checkBaggageAllowance(profile.airline, profile.packingConstraint, loadEstimate.bag, loadEstimate),
+    [profile.airline, profile.packingConstraint, loadEstimate]
+  );
+  const outfitPlan = useMemo(() => planOutfits(profile), [profile]);
+  // One quart bag per person: the shared tab of a group gets one for everyone
+  const liquidsCheck = useMemo(() => {
+    if (!liquidsApply(profile.packingConstraint)) return null;
+    const people = individuals.filter(t => t.type !== "pet").length;
+    return checkLiquids(currentChecklist, selectedTab === "shared" ? Math.max(1, people) : 1);
+  }, [profile.packingConstraint, currentChecklist, individuals, selectedTab]);
 
   const progress = useMemo(() => {
     if (!currentChecklist.length) return { checked: 0, total: 0, percent: 0 };
@@ -2231,17 +1808,19 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
     return { checked, total: currentChecklist.length, percent: Math.round((checked / currentChecklist.length) * 100) };
   }, [currentChecklist]);
 
-  const groupedItems = useMemo(() => {
-    const categoryOrder = ["documents", "clothing", "workout", "toiletries", "health", "tech", "activity", "family", "personal", "preDeparture"];
-    const groups: Record<string, ChecklistItem[]> = {};
-    currentChecklist.forEach(item => { if (!groups[item.category]) groups[item.category] = []; groups[item.category].push(item); });
-    // Sort by category order
-    const sortedGroups: Record<string, ChecklistItem[]> = {};
-    categoryOrder.forEach(cat => { if (groups[cat]) sortedGroups[cat] = groups[cat]; });
-    // Add any remaining categories not in the order
-    Object.keys(groups).forEach(cat => { if (!sortedGroups[cat]) sortedGroups[cat] = groups[cat]; });
-    return sortedGroups;
-  }, [currentChecklist]);
+  const groupedItems = useMemo(() => groupByCategory(currentChecklist), [currentChecklist]);
+  // A traveler's tab shows their own bags and the shared ones
+  const packingBags = useMemo(() => getPackingBags(profile, individuals), [profile, individuals]);
+  const tabTravelerId = selectedTab === "shared" ? undefined : selectedTab;
+  const selectedTraveler = individuals.find(t => t.id === selectedTab);
+  const selectedPet = selectedTraveler?.type === "pet" ? getPets(profile).find(p => p.id === selectedTab) : undefined;
+  const selectedDetails = profile.travelerDetails?.[selectedTab];
+  const selectedAge = ageOn(selectedDetails, profile.startDate);
+  const visibleBags = useMemo(
+    () => packingBags.filter(b => !tabTravelerId || !b.owner || b.owner === tabTravelerId),
+    [packingBags, tabTravelerId]
+  );
+  const bagGroups = useMemo(() => groupByBag(currentChecklist, visibleBags, tabTravelerId), [currentChecklist, visibleBags, tabTravelerId]);
 
   const styles = {
     container: { width: "100%", maxWidth: 600, margin: "0 auto", backgroundColor: COLORS.bg, fontFamily: "'Inter', sans-serif", padding: 20, boxSizing: "border-box" as const },
@@ -2349,6 +1928,17 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
           column-count: 2;
         }
         
+        /* The bag manifest starts on its own page after the category list */
+        .print-manifest {
+          break-before: page;
+        }
+        
+        .print-manifest-title {
+          font-size: 14px;
+          font-weight: 700;
+          margin-bottom: 8px;
+        }
+        
         .print-item {
           display: flex;
           align-items: flex-start;
@@ -2439,6 +2029,11 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                     <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 2 }}>
                       📍 {sc.profile.destination} • 📅 {sc.profile.tripDuration} days • {sc.checklist.filter(i => i.checked).length}/{sc.checklist.length} packed
                     </div>
+                    {sc.profile.travelerDetails && Object.values(sc.profile.travelerDetails).some(d => d.name?.trim()) && (
+                      <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 2 }}>
+                        👥 {getIndividualTravelers(sc.profile.travelers, sc.profile.travelerDetails).map(t => t.label).join(", ")}
+                      </div>
+                    )}
                     <div style={{ fontSize: 11, color: COLORS.textSecondary, marginTop: 2 }}>
                       Saved {new Date(sc.savedAt).toLocaleDateString()}
                     </div>
@@ -2491,6 +2086,55 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             </div>
           </div>
 
+          {/* Itinerary - multi-destination trips; the checklist covers every stop */}
+          {(profile.legs?.length || 0) > 1 && (
+            <div style={{ marginBottom: 20 }}>
+              <label style={styles.label}>Itinerary</label>
+              <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                {profile.legs!.map((leg, i) => (
+                  <div key={`${leg.destination}-${i}`} style={{ display: "flex", alignItems: "center", gap: 8, padding: "8px 12px", borderRadius: 12, backgroundColor: COLORS.inputBg, fontSize: 13 }}>
+                    <MapPin size={14} color={COLORS.primary} />
+                    <span style={{ fontWeight: 600, color: COLORS.textMain, flex: 1 }}>{leg.destination}</span>
+                    <span style={{ color: COLORS.textSecondary }}>
+                      {leg.days ? `${leg.days} days · ` : ""}{leg.climate === "winter" ? "❄️ cold" : leg.climate === "summer" ? "☀️ warm" : leg.climate === "tropical" ? "🌴 tropical" : "🌤️ mild"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setProfile(p => {
+                        const legs = (p.legs || []).filter((_, j) => j !== i);
+                        return legs.length > 1 ? { ...p, legs } : { ...p, legs: [], ...(legs[0] ? { destination: legs[0].destination, climate: legs[0].climate } : {}) };
+                      })}
+                      style={{ background: "none", border: "none", padding: 2, cursor: "pointer", color: COLORS.textSecondary }}
+                      aria-label={`Remove ${leg.destination}`}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Passport + Home country - drive visa / travel authorization items and plug adapters */}
+          {profile.isInternational && (
+            <div style={{ display: "flex", gap: 16, marginBottom: 20 }}>
+              <div style={{ flex: 1 }}>
+                <label style={styles.label}>Passport</label>
+                <select style={styles.select} value={profile.nationality || ""} onChange={(e) => setProfile(p => ({ ...p, nationality: e.target.value }))}>
+                  <option value="">Not sure / skip</option>
+                  {PASSPORT_OPTIONS.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+                </select>
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={styles.label}>Travelling from</label>
+                <select style={styles.select} value={profile.homeCountry || ""} onChange={(e) => setProfile(p => ({ ...p, homeCountry: e.target.value }))}>
+                  <option value="">Not sure / skip</option>
+                  {PASSPORT_OPTIONS.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Row 2: Travel Dates */}
           <div style={{ marginBottom: 20 }}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
@@ -2549,8 +2193,14 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                       </div>
                     </div>
                   </div>
+                  <div style={{ fontSize: 12, fontWeight: 600, color: weatherForecast.source === "forecast" ? COLORS.primaryDark : COLORS.blue, marginBottom: 4 }}>
+                    {weatherForecast.source === "forecast" ? "📡 Forecast for your dates"
+                      : weatherForecast.source === "mixed" ? `📡 Forecast for the first ${weatherForecast.forecastDays} day${weatherForecast.forecastDays === 1 ? "" : "s"}, then 📊 climate averages`
+                      : `📊 Climate averages${weatherForecast.normalsFor && weatherForecast.normalsFor !== profile.destination.split(",")[0] ? ` for ${weatherForecast.normalsFor}` : ""}, not a forecast`}
+                  </div>
                   <div style={{ fontSize: 12, color: COLORS.textSecondary, marginBottom: 8 }}>
-                    Low {weatherForecast.minTemp}°C / High {weatherForecast.maxTemp}°C • {weatherForecast.precipitation}% chance of rain
+                    {weatherForecast.source === "normals" ? "Typical low" : "Low"} {weatherForecast.minTemp}°C / {weatherForecast.source === "normals" ? "high" : "High"} {weatherForecast.maxTemp}°C • {weatherForecast.precipitation}% chance of rain
+                    {weatherForecast.humidity !== undefined && ` • ${weatherForecast.humidity}% humidity`} • {weatherForecast.daylightHours} h daylight
                   </div>
                   <div style={{ fontSize: 13, fontWeight: 500 }}>
                     💡 {weatherForecast.suggestion}
@@ -2558,7 +2208,7 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                 </div>
               ) : (
                 <div style={{ display: "flex", alignItems: "center", gap: 8, color: COLORS.textSecondary }}>
-                  <Cloud size={18} /> Enter dates to see weather forecast
+                  <Cloud size={18} /> {climateExplanation || "Enter dates to see weather forecast"}
                 </div>
               )}
             </div>
@@ -2586,6 +2236,35 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             </div>
           </div>
 
+          {/* Airline - carry-on only and minimal plans are checked against its cabin allowance */}
+          <div style={{ marginBottom: 20 }}>
+            <label style={styles.label}><Plane size={16} style={{ verticalAlign: "middle", marginRight: 6 }} />Airline</label>
+            <select style={styles.select} value={profile.airline || ""} onChange={(e) => setProfile(p => ({ ...p, airline: e.target.value || undefined }))}>
+              <option value="">Not sure / other</option>
+              {Object.entries(AIRLINES).sort(([, a], [, b]) => a.name.localeCompare(b.name)).map(([code, a]) => <option key={code} value={code}>{a.name}</option>)}
+            </select>
+          </div>
+
+          {/* Laundry - clothing is packed for one wash cycle */}
+          <div style={{ display: "flex", gap: 16, marginBottom: 20 }}>
+            <div style={{ flex: 1 }}>
+              <label style={styles.label}><Shirt size={16} style={{ verticalAlign: "middle", marginRight: 6 }} />Laundry</label>
+              <select style={styles.select} value={profile.laundry || DEFAULT_LAUNDRY} onChange={(e) => setProfile(p => ({ ...p, laundry: e.target.value as LaundryFrequency }))}>
+                {LAUNDRY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+            {profile.laundry === "every_n_days" ? (
+              <div style={{ flex: 1 }}>
+                <label style={styles.label}>Wash every {laundryPlan.intervalDays} days</label>
+                <input type="range" min={2} max={14} value={laundryPlan.intervalDays ?? 4} onChange={(e) => setProfile(p => ({ ...p, laundryEveryDays: parseInt(e.target.value) }))} style={{ width: "100%" }} />
+              </div>
+            ) : (
+              <div style={{ flex: 1, alignSelf: "flex-end", fontSize: 13, color: COLORS.textSecondary, paddingBottom: 10 }}>
+                {laundryPlan.washes > 0 ? `Packing ${laundryPlan.wearDays} days of clothes, ${laundryPlan.washes} wash${laundryPlan.washes === 1 ? "" : "es"}` : `Packing ${laundryPlan.wearDays} days of clothes`}
+              </div>
+            )}
+          </div>
+
           {/* Duration - only show if no dates entered */}
           {!(profile.startDate && profile.endDate) && (
             <div style={{ marginBottom: 20 }}>
@@ -2594,31 +2273,43 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             </div>
           )}
 
-          {/* Travelers with gender */}
+          {/* Travelers: one count per type; what each person packs for is picked per person */}
           <div style={{ marginBottom: 20 }}>
             <label style={styles.label}><Users size={16} style={{ verticalAlign: "middle", marginRight: 6 }} />Travelers</label>
             
             {/* Adults - always visible */}
             <div style={{ backgroundColor: COLORS.inputBg, borderRadius: 12, padding: 12, marginBottom: 8 }}>
-              <div style={{ fontWeight: 600, fontSize: 13, color: COLORS.textMain, marginBottom: 8 }}>Adults</div>
-              <div style={{ display: "flex", gap: 12 }}>
-                <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                  <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♂ Male</span>
-                  <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                    <button onClick={() => updateTravelerGender("adult", "male", Math.max(0, getTraveler("adult").male - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                    <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("adult").male}</span>
-                    <button onClick={() => updateTravelerGender("adult", "male", getTraveler("adult").male + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                  </div>
-                </div>
-                <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                  <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♀ Female</span>
-                  <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                    <button onClick={() => updateTravelerGender("adult", "female", Math.max(0, getTraveler("adult").female - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                    <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("adult").female}</span>
-                    <button onClick={() => updateTravelerGender("adult", "female", getTraveler("adult").female + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                  </div>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
+                <span style={{ fontWeight: 600, fontSize: 13, color: COLORS.textMain }}>Adults</span>
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <button onClick={() => updateTravelerCount("adult", Math.max(0, travelerCount("adult") - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
+                  <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{travelerCount("adult")}</span>
+                  <button onClick={() => updateTravelerCount("adult", travelerCount("adult") + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
                 </div>
               </div>
+              {/* A group picks per person in the About card; someone packing alone picks here */}
+              {individuals.length === 1 && individuals[0].type !== "pet" && individuals[0].type !== "infant" && (
+                <div style={{ marginTop: 10 }}>
+                  <div style={{ fontSize: 12, color: COLORS.textSecondary, marginBottom: 6 }}>Packs for</div>
+                  <AttributePicker
+                    selected={getTravelerAttributes(profile, individuals[0])}
+                    onChange={(attributes) => updateTravelerDetails(individuals[0].id, { attributes })}
+                  />
+                  <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 10, marginBottom: 6 }}>Medical & accessibility</div>
+                  <ChipToggles
+                    options={MEDICAL_NEEDS}
+                    labels={MEDICAL_NEED_LABELS}
+                    selected={profile.travelerDetails?.[individuals[0].id]?.medical || []}
+                    onChange={(medical) => updateTravelerDetails(individuals[0].id, { medical })}
+                  />
+                  <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 10, marginBottom: 6 }}>Medications</div>
+                  <MedicationEditor
+                    medications={profile.travelerDetails?.[individuals[0].id]?.medications || []}
+                    onChange={(medications) => updateTravelerDetails(individuals[0].id, { medications })}
+                  />
+                  {medicationBufferInput}
+                </div>
+              )}
             </div>
 
             {/* Children / Infants / Pets - compact row with Add buttons */}
@@ -2630,15 +2321,15 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                   flex: 1, backgroundColor: COLORS.inputBg, borderRadius: 10, padding: "10px 12px", 
                   display: "flex", alignItems: "center", justifyContent: "space-between",
                   cursor: expandedTravelers.children ? "default" : "pointer",
-                  border: (getTraveler("child").male + getTraveler("child").female) > 0 ? `2px solid ${COLORS.primary}` : "none"
+                  border: travelerCount("child") > 0 ? `2px solid ${COLORS.primary}` : "none"
                 }}
               >
                 <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
                   <Users size={14} color={COLORS.primary} />
                   <span style={{ fontWeight: 600, fontSize: 12 }}>Children</span>
-                  {(getTraveler("child").male + getTraveler("child").female) > 0 && (
+                  {travelerCount("child") > 0 && (
                     <span style={{ backgroundColor: COLORS.primary, color: "white", fontSize: 10, fontWeight: 700, padding: "2px 6px", borderRadius: 10 }}>
-                      {getTraveler("child").male + getTraveler("child").female}
+                      {travelerCount("child")}
                     </span>
                   )}
                 </div>
@@ -2653,15 +2344,15 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                   flex: 1, backgroundColor: COLORS.inputBg, borderRadius: 10, padding: "10px 12px", 
                   display: "flex", alignItems: "center", justifyContent: "space-between",
                   cursor: expandedTravelers.infants ? "default" : "pointer",
-                  border: (getTraveler("infant").male + getTraveler("infant").female) > 0 ? `2px solid ${COLORS.primary}` : "none"
+                  border: travelerCount("infant") > 0 ? `2px solid ${COLORS.primary}` : "none"
                 }}
               >
                 <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
                   <Baby size={14} color={COLORS.primary} />
                   <span style={{ fontWeight: 600, fontSize: 12 }}>Infants</span>
-                  {(getTraveler("infant").male + getTraveler("infant").female) > 0 && (
+                  {travelerCount("infant") > 0 && (
                     <span style={{ backgroundColor: COLORS.primary, color: "white", fontSize: 10, fontWeight: 700, padding: "2px 6px", borderRadius: 10 }}>
-                      {getTraveler("infant").male + getTraveler("infant").female}
+                      {travelerCount("infant")}
                     </span>
                   )}
                 </div>
@@ -2669,6 +2360,29 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                 {expandedTravelers.infants && <X size={14} color={COLORS.textSecondary} style={{ cursor: "pointer" }} onClick={(e) => { e.stopPropagation(); setExpandedTravelers(p => ({ ...p, infants: false })); }} />}
               </div>
 
+              {/* Seniors */}
+              <div 
+                onClick={() => !expandedTravelers.seniors && setExpandedTravelers(p => ({ ...p, seniors: true }))}
+                style={{ 
+                  flex: 1, backgroundColor: COLORS.inputBg, borderRadius: 10, padding: "10px 12px", 
+                  display: "flex", alignItems: "center", justifyContent: "space-between",
+                  cursor: expandedTravelers.seniors ? "default" : "pointer",
+                  border: travelerCount("senior") > 0 ? `2px solid ${COLORS.primary}` : "none"
+                }}
+              >
+                <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                  <PersonStanding size={14} color={COLORS.primary} />
+                  <span style={{ fontWeight: 600, fontSize: 12 }}>Seniors</span>
+                  {travelerCount("senior") > 0 && (
+                    <span style={{ backgroundColor: COLORS.primary, color: "white", fontSize: 10, fontWeight: 700, padding: "2px 6px", borderRadius: 10 }}>
+                      {travelerCount("senior")}
+                    </span>
+                  )}
+                </div>
+                {!expandedTravelers.seniors && <Plus size={14} color={COLORS.primary} />}
+                {expandedTravelers.seniors && <X size={14} color={COLORS.textSecondary} style={{ cursor: "pointer" }} onClick={(e) => { e.stopPropagation(); setExpandedTravelers(p => ({ ...p, seniors: false })); }} />}
+              </div>
+
               {/* Pets */}
               <div 
                 onClick={() => !expandedTravelers.pets && setExpandedTravelers(p => ({ ...p, pets: true }))}
@@ -2676,15 +2390,15 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                   flex: 1, backgroundColor: COLORS.inputBg, borderRadius: 10, padding: "10px 12px", 
                   display: "flex", alignItems: "center", justifyContent: "space-between",
                   cursor: expandedTravelers.pets ? "default" : "pointer",
-                  border: (getTraveler("pet").male + getTraveler("pet").female) > 0 ? `2px solid ${COLORS.primary}` : "none"
+                  border: travelerCount("pet") > 0 ? `2px solid ${COLORS.primary}` : "none"
                 }}
               >
                 <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
                   <Dog size={14} color={COLORS.primary} />
                   <span style={{ fontWeight: 600, fontSize: 12 }}>Pets</span>
-                  {(getTraveler("pet").male + getTraveler("pet").female) > 0 && (
+                  {travelerCount("pet") > 0 && (
                     <span style={{ backgroundColor: COLORS.primary, color: "white", fontSize: 10, fontWeight: 700, padding: "2px 6px", borderRadius: 10 }}>
-                      {getTraveler("pet").male + getTraveler("pet").female}
+                      {travelerCount("pet")}
                     </span>
                   )}
                 </div>
@@ -2693,81 +2407,28 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
               </div>
             </div>
 
-            {/* Children expanded */}
+            {/* Children / Infants / Seniors expanded */}
             {expandedTravelers.children && (
-              <div style={{ backgroundColor: COLORS.inputBg, borderRadius: 12, padding: 12, marginBottom: 8 }}>
-                <div style={{ display: "flex", gap: 12 }}>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♂ Boys</span>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("child", "male", Math.max(0, getTraveler("child").male - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("child").male}</span>
-                      <button type="button" onClick={() => updateTravelerGender("child", "male", getTraveler("child").male + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♀ Girls</span>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("child", "female", Math.max(0, getTraveler("child").female - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("child").female}</span>
-                      <button type="button" onClick={() => updateTravelerGender("child", "female", getTraveler("child").female + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                </div>
+              <div style={{ display: "flex", marginBottom: 8 }}>
+                <TravelerCounter count={travelerCount("child")} onChange={(c) => updateTravelerCount("child", c)} label="Children" icon={<Users size={14} />} />
               </div>
             )}
-
-            {/* Infants expanded */}
             {expandedTravelers.infants && (
-              <div style={{ backgroundColor: COLORS.inputBg, borderRadius: 12, padding: 12, marginBottom: 8 }}>
-                <div style={{ display: "flex", gap: 12 }}>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♂ Boys</span>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("infant", "male", Math.max(0, getTraveler("infant").male - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("infant").male}</span>
-                      <button type="button" onClick={() => updateTravelerGender("infant", "male", getTraveler("infant").male + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <span style={{ fontSize: 13, color: COLORS.textSecondary }}>♀ Girls</span>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("infant", "female", Math.max(0, getTraveler("infant").female - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("infant").female}</span>
-                      <button type="button" onClick={() => updateTravelerGender("infant", "female", getTraveler("infant").female + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                </div>
+              <div style={{ display: "flex", marginBottom: 8 }}>
+                <TravelerCounter count={travelerCount("infant")} onChange={(c) => updateTravelerCount("infant", c)} label="Infants" icon={<Baby size={14} />} />
+              </div>
+            )}
+            {expandedTravelers.seniors && (
+              <div style={{ display: "flex", marginBottom: 8 }}>
+                <TravelerCounter count={travelerCount("senior")} onChange={(c) => updateTravelerCount("senior", c)} label="Seniors" icon={<PersonStanding size={14} />} />
               </div>
             )}
 
             {/* Pets expanded - Dogs & Cats */}
             {expandedTravelers.pets && (
-              <div style={{ backgroundColor: COLORS.inputBg, borderRadius: 12, padding: 12, marginBottom: 8 }}>
-                <div style={{ display: "flex", gap: 12 }}>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
-                      <Dog size={14} color={COLORS.textSecondary} />
-                      <span style={{ fontSize: 13, color: COLORS.textSecondary }}>Dogs</span>
-                    </div>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("pet", "male", Math.max(0, getTraveler("pet").male - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("pet").male}</span>
-                      <button type="button" onClick={() => updateTravelerGender("pet", "male", getTraveler("pet").male + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                  <div style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "space-between", backgroundColor: "white", padding: "8px 12px", borderRadius: 8 }}>
-                    <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
-                      <Cat size={14} color={COLORS.textSecondary} />
-                      <span style={{ fontSize: 13, color: COLORS.textSecondary }}>Cats</span>
-                    </div>
-                    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                      <button type="button" onClick={() => updateTravelerGender("pet", "female", Math.max(0, getTraveler("pet").female - 1))} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>-</button>
-                      <span style={{ fontWeight: 700, minWidth: 16, textAlign: "center" }}>{getTraveler("pet").female}</span>
-                      <button type="button" onClick={() => updateTravelerGender("pet", "female", getTraveler("pet").female + 1)} style={{ width: 24, height: 24, borderRadius: 6, border: "none", backgroundColor: COLORS.inputBg, color: COLORS.primary, cursor: "pointer" }}>+</button>
-                    </div>
-                  </div>
-                </div>
+              <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+                <TravelerCounter count={petCount("dog")} onChange={(c) => updateTravelerCount("pet", c, "dog")} label="Dogs" icon={<Dog size={14} />} />
+                <TravelerCounter count={petCount("cat")} onChange={(c) => updateTravelerCount("pet", c, "cat")} label="Cats" icon={<Cat size={14} />} />
               </div>
             )}
 
@@ -2862,13 +2523,12 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
               <span>📅 {profile.tripDuration} days</span>
               <span>{profile.isInternational ? "✈️ International" : "🚗 Domestic"}</span>
               <span style={{ display: "flex", alignItems: "center", gap: 6 }}>
-                {getTraveler("adult").male > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#E3F4FC", padding: "2px 8px", borderRadius: 10, color: "#1a365d" }}><span>👨</span> {getTraveler("adult").male}</span>}
-                {getTraveler("adult").female > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#FCE4EC", padding: "2px 8px", borderRadius: 10, color: "#831843" }}><span>👩</span> {getTraveler("adult").female}</span>}
-                {getTraveler("child").male > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#E3F4FC", padding: "2px 8px", borderRadius: 10, color: "#1a365d" }}><span>👦</span> {getTraveler("child").male}</span>}
-                {getTraveler("child").female > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#FCE4EC", padding: "2px 8px", borderRadius: 10, color: "#831843" }}><span>👧</span> {getTraveler("child").female}</span>}
-                {getTraveler("infant").male + getTraveler("infant").female > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>👶 {getTraveler("infant").male + getTraveler("infant").female}</span>}
-                {getTraveler("pet").male > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>🐕 {getTraveler("pet").male}</span>}
-                {getTraveler("pet").female > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>🐈 {getTraveler("pet").female}</span>}
+                {travelerCount("adult") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#EDE9F6", padding: "2px 8px", borderRadius: 10, color: "#3f3564" }}><span>🧑</span> {travelerCount("adult")}</span>}
+                {travelerCount("child") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#EDE9F6", padding: "2px 8px", borderRadius: 10, color: "#3f3564" }}><span>🧒</span> {travelerCount("child")}</span>}
+                {travelerCount("infant") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>👶 {travelerCount("infant")}</span>}
+                {travelerCount("senior") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3, backgroundColor: "#EDE9F6", padding: "2px 8px", borderRadius: 10, color: "#3f3564" }}><span>🧓</span> {travelerCount("senior")}</span>}
+                {petCount("dog") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>🐕 {petCount("dog")}</span>}
+                {petCount("cat") > 0 && <span style={{ display: "flex", alignItems: "center", gap: 3 }}>🐈 {petCount("cat")}</span>}
               </span>
               <button onClick={handlePrint} className="btn-press" style={{ marginLeft: "auto", background: "rgba(255,255,255,0.2)", border: "none", borderRadius: 8, padding: "6px 10px", color: "white", fontSize: 12, fontWeight: 600, cursor: "pointer", display: "flex", alignItems: "center", gap: 4 }}>
                 <Printer size={14} /> Print
@@ -2885,7 +2545,6 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
               <div style={{ fontSize: 12, fontWeight: 600, color: COLORS.textSecondary, marginBottom: 8, textTransform: "uppercase" }}>Packing For</div>
               <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
                 {individuals.map(t => {
-                  const genderColor = t.gender === "female" ? "#FFB6C1" : "#89CFF0"; // Pink for female, baby blue for male
                   return (
                     <button
                       key={t.id}
@@ -2893,14 +2552,13 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                       onClick={() => setSelectedTab(t.id)}
                       style={{
                         padding: "8px 16px", borderRadius: 20, 
-                        border: selectedTab === t.id ? `2px solid ${t.gender === "female" ? "#FF69B4" : "#4A90D9"}` : "none",
-                        backgroundColor: selectedTab === t.id ? genderColor : COLORS.inputBg,
+                        border: selectedTab === t.id ? "2px solid #7B68C8" : "none",
+                        backgroundColor: selectedTab === t.id ? "#D7CFF0" : COLORS.inputBg,
                         color: COLORS.textMain,
                         fontWeight: 600, fontSize: 13, cursor: "pointer", display: "flex", alignItems: "center", gap: 6
                       }}
                     >
-                      {t.type === "adult" ? (t.gender === "female" ? "👩" : "👨") : 
-                       t.type === "child" ? (t.gender === "female" ? "👧" : "👦") : "👶"}
+                      {t.type === "pet" ? (t.species === "cat" ? "🐈" : "🐕") : { adult: "🧑", child: "🧒", infant: "👶", senior: "🧓" }[t.type]}
                       {t.label}
                     </button>
                   );
@@ -2909,6 +2567,23 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             </div>
           )}
 
+          {/* A solo traveler's saved profile (a group's are in each person's About card) */}
+          {individuals.length === 1 && individuals[0].type !== "pet" && individuals[0].type !== "infant" && (
+            <div style={{ ...styles.card, padding: 16 }}>
+              <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🪪 Personal profile</label>
+              <PersonalProfileEditor
+                profiles={personalProfiles}
+                attached={profile.personalProfiles?.[individuals[0].id]}
+                message={profilesMessage}
+                onAttach={(profileId) => attachPersonalProfile(individuals[0].id, profileId)}
+                onCreate={() => createPersonalProfile(individuals[0].id)}
+                onChange={updatePersonalProfile}
+                onExport={exportProfiles}
+                onImport={importProfiles}
+              />
+            </div>
+          )}
+
           {/* Per-individual Notes & Presets - only show when multiple travelers */}
           {individuals.length > 1 && selectedTab !== "shared" && (
             <div style={{ ...styles.card, padding: 16 }}>
@@ -2930,26 +2605,149 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
                   }}
                 />
               </div>
-              <div>
-                <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🎯 Travel Style</label>
-                <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8 }}>
-                  {Object.entries(TRAVELER_PRESETS).map(([key, preset]) => (
-                    <button
-                      key={key}
-                      type="button"
-                      onClick={() => toggleIndividualPreset(selectedTab, key)}
-                      style={{
-                        padding: "10px 12px", borderRadius: 20, border: "none",
-                        backgroundColor: getIndividualPrefs(selectedTab).presets.includes(key) ? COLORS.primary : COLORS.inputBg,
-                        color: getIndividualPrefs(selectedTab).presets.includes(key) ? "white" : COLORS.textSecondary,
-                        fontWeight: 600, fontSize: 14, cursor: "pointer", display: "flex", alignItems: "center", justifyContent: "center", gap: 4
-                      }}
-                    >
-                      {preset.icon} {preset.label}
-                    </button>
-                  ))}
+              <div style={{ display: "grid", gridTemplateColumns: selectedTraveler?.type === "pet" ? "1fr" : "2fr 1fr 1.4fr", gap: 8, marginBottom: 16 }}>
+                <div>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🏷️ Name</label>
+                  <input
+                    style={styles.input}
+                    value={selectedDetails?.name || ""}
+                    onChange={(e) => updateTravelerDetails(selectedTab, { name: e.target.value })}
+                    placeholder={selectedTraveler?.type === "pet" ? "E.g., Biscuit" : "E.g., Mia"}
+                  />
                 </div>
+                {selectedTraveler?.type !== "pet" && (
+                  <>
+                    <div>
+                      <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>Age</label>
+                      <input
+                        type="number" min={0} max={120}
+                        style={styles.input}
+                        value={selectedAge ?? ""}
+                        disabled={Boolean(selectedDetails?.birthDate)}
+                        onChange={(e) => updateTravelerDetails(selectedTab, { age: e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)) })}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>or Birth date</label>
+                      <input
+                        type="date"
+                        style={styles.input}
+                        value={selectedDetails?.birthDate || ""}
+                        onChange={(e) => updateTravelerDetails(selectedTab, { birthDate: e.target.value || undefined })}
+                      />
+                    </div>
+                  </>
+                )}
               </div>
+              {selectedTraveler?.type === "child" && selectedAge !== undefined && (
+                <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: -8, marginBottom: 16 }}>
+                  {AGE_BAND_LABELS[getAgeBand(selectedAge)]} items added to this list
+                </div>
+              )}
+              {selectedTraveler && selectedTraveler.type !== "pet" && selectedTraveler.type !== "infant" && (
+                <div style={{ marginBottom: 16 }}>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🧴 Packs for</label>
+                  <AttributePicker
+                    selected={getTravelerAttributes(profile, selectedTraveler)}
+                    onChange={(attributes) => updateTravelerDetails(selectedTab, { attributes })}
+                  />
+                </div>
+              )}
+              {selectedTraveler && selectedTraveler.type !== "pet" && (
+                <div style={{ marginBottom: 16 }}>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>♿ Medical & accessibility</label>
+                  <ChipToggles
+                    options={MEDICAL_NEEDS}
+                    labels={MEDICAL_NEED_LABELS}
+                    selected={profile.travelerDetails?.[selectedTab]?.medical || []}
+                    onChange={(medical) => updateTravelerDetails(selectedTab, { medical })}
+                  />
+                </div>
+              )}
+              {selectedTraveler && selectedTraveler.type !== "pet" && (
+                <div style={{ marginBottom: 16 }}>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>💊 Medications</label>
+                  <MedicationEditor
+                    medications={profile.travelerDetails?.[selectedTab]?.medications || []}
+                    onChange={(medications) => updateTravelerDetails(selectedTab, { medications })}
+                  />
+                  {medicationBufferInput}
+                </div>
+              )}
+              {selectedTraveler && selectedTraveler.type !== "pet" && selectedTraveler.type !== "infant" && (
+                <div style={{ marginBottom: 16 }}>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🪪 Personal profile</label>
+                  <PersonalProfileEditor
+                    profiles={personalProfiles}
+                    attached={profile.personalProfiles?.[selectedTab]}
+                    message={profilesMessage}
+                    onAttach={(profileId) => attachPersonalProfile(selectedTab, profileId)}
+                    onCreate={() => createPersonalProfile(selectedTab)}
+                    onChange={updatePersonalProfile}
+                    onExport={exportProfiles}
+                    onImport={importProfiles}
+                  />
+                </div>
+              )}
+              {profile.isInternational && selectedTraveler?.type !== "pet" && (
+                <div style={{ marginBottom: 16 }}>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🛂 Passport</label>
+                  <select
+                    style={styles.select}
+                    value={profile.travelerNationalities?.[selectedTab] || ""}
+                    onChange={(e) => setProfile(p => ({ ...p, travelerNationalities: { ...p.travelerNationalities, [selectedTab]: e.target.value } }))}
+                  >
+                    <option value="">{profile.nationality ? `Same as trip (${COUNTRIES[profile.nationality]?.name})` : "Not sure / skip"}</option>
+                    {PASSPORT_OPTIONS.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+                  </select>
+                </div>
+              )}
+              {selectedPet && (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                  <div>
+                    <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>📏 Size</label>
+                    <select
+                      style={styles.select}
+                      value={selectedPet.size}
+                      onChange={(e) => updatePetDetails(selectedTab, { size: e.target.value as PetSize })}
+                    >
+                      {PET_SIZES.map(size => <option key={size} value={size}>{PET_SIZE_LABELS[size]}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🧳 Travels</label>
+                    <select
+                      style={styles.select}
+                      value={selectedPet.travel}
+                      onChange={(e) => updatePetDetails(selectedTab, { travel: e.target.value as PetTravelMode })}
+                    >
+                      {PET_TRAVEL_MODES.map(mode => <option key={mode} value={mode}>{PET_TRAVEL_LABELS[mode]}</option>)}
+                    </select>
+                  </div>
+                </div>
+              )}
+              {selectedTraveler?.type !== "infant" && selectedTraveler?.type !== "pet" && (
+                <div>
+                  <label style={{ fontWeight: 600, color: COLORS.textMain, fontSize: 14, marginBottom: 8, display: "block" }}>🎯 Travel Style</label>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8 }}>
+                    {Object.entries(TRAVELER_PRESETS).map(([key, preset]) => (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => toggleIndividualPreset(selectedTab, key)}
+                        style={{
+                          padding: "10px 12px", borderRadius: 20, border: "none",
+                          backgroundColor: getIndividualPrefs(selectedTab).presets.includes(key) ? COLORS.primary : COLORS.inputBg,
+                          color: getIndividualPrefs(selectedTab).presets.includes(key) ? "white" : COLORS.textSecondary,
+                          fontWeight: 600, fontSize: 14, cursor: "pointer", display: "flex", alignItems: "center", justifyContent: "center", gap: 4
+                        }}
+                      >
+                        {preset.icon} {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -2988,7 +2786,111 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             {progress.percent === 100 && <div style={{ textAlign: "center", marginTop: 12, color: COLORS.primary, fontWeight: 700 }}>🎉 All packed!</div>}
           </div>
 
-          {Object.entries(groupedItems).map(([category, items]) => (
+          <div id="luggage-section" style={styles.card}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12, gap: 12 }}>
+              <div style={{ fontSize: 16, fontWeight: 700, display: "flex", alignItems: "center", gap: 8 }}><Luggage size={18} color={COLORS.primary} /> Luggage</div>
+              <select style={{ ...styles.select, width: "auto", padding: "8px 12px", fontSize: 14 }} value={loadEstimate.bag} onChange={(e) => setProfile(p => ({ ...p, bag: e.target.value as BagSize }))}>
+                {(Object.keys(BAGS) as BagSize[]).map(b => <option key={b} value={b}>{BAGS[b].label} ({BAGS[b].liters} L, {BAGS[b].kg} kg)</option>)}
+              </select>
+            </div>
+            {[
+              { label: "Weight", value: loadEstimate.weightKg, max: loadEstimate.capacityKg, unit: "kg", over: loadEstimate.overWeight },
+              { label: "Volume", value: loadEstimate.volumeL, max: loadEstimate.capacityL, unit: "L", over: loadEstimate.overVolume },
+            ].map(bar => (
+              <div key={bar.label} style={{ marginBottom: 8 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: 13, color: COLORS.textSecondary, marginBottom: 4 }}>
+                  <span>{bar.label}</span>
+                  <span style={{ color: bar.over ? COLORS.red : COLORS.textMain, fontWeight: 600 }}>{bar.value} / {bar.max} {bar.unit}</span>
+                </div>
+                <div style={{ height: 8, backgroundColor: COLORS.inputBg, borderRadius: 4, overflow: "hidden" }}>
+                  <div style={{ height: "100%", width: `${Math.min(100, (bar.value / bar.max) * 100)}%`, backgroundColor: bar.over ? COLORS.red : COLORS.primary, transition: "width 0.3s" }} />
+                </div>
+              </div>
+            ))}
+            {loadEstimate.bags > 1 && <div style={{ fontSize: 12, color: COLORS.textSecondary }}>{loadEstimate.bags} bags, one per traveler</div>}
+            {!loadEstimate.fits && (
+              <div style={{ backgroundColor: COLORS.orangeLight, color: COLORS.orange, borderRadius: 10, padding: 10, marginTop: 8, fontSize: 13, lineHeight: 1.5 }}>
+                Over the bag's {[loadEstimate.overWeight && "weight", loadEstimate.overVolume && "space"].filter(Boolean).join(" and ")}.
+                {loadEstimate.dropFirst.length > 0 && <> Leave behind first: {loadEstimate.dropFirst.slice(0, 6).map(d => d.name).join(", ")}{loadEstimate.dropFirst.length > 6 ? ` (+${loadEstimate.dropFirst.length - 6} more)` : ""}.</>}
+                {!loadEstimate.fitsAfterDrops && " Even without optional items it won't fit: pick a bigger bag or plan more laundry."}
+              </div>
+            )}
+            {allowanceCheck && (
+              <div style={{ backgroundColor: allowanceCheck.ok ? COLORS.accentLight : COLORS.orangeLight, color: allowanceCheck.ok ? COLORS.primaryDark : COLORS.orange, borderRadius: 10, padding: 10, marginTop: 8, fontSize: 13, lineHeight: 1.5 }}>
+                <div style={{ fontWeight: 700, display: "flex", alignItems: "center", gap: 6 }}><Plane size={14} /> {allowanceCheck.airline.name} {allowanceCheck.constraint === "minimal" ? "personal item" : "cabin allowance"}</div>
+                <div>
+                  {allowanceCheck.pieces.map(p => `${p.kind === "personal_item" ? "Personal item" : "Cabin bag"} ${p.cm ? p.cm.join("×") + " cm" : "(small, under the seat)"}${p.kg ? `, ${p.kg} kg` : ""}${p.included ? "" : " (paid)"}`).join(" + ")}
+                  {AIRLINES[allowanceCheck.airline.code].cabin_total_kg ? ` (${AIRLINES[allowanceCheck.airline.code].cabin_total_kg} kg in total)` : ""}
+                </div>
+                {allowanceCheck.ok ? <div>✓ {allowanceCheck.summary}</div> : allowanceCheck.issues.map(issue => <div key={issue}>⚠️ {issue}</div>)}
+                {allowanceCheck.fees.map(fee => <div key={fee}>💳 {fee}</div>)}
+                {allowanceCheck.note && <div style={{ fontSize: 12, opacity: 0.85 }}>{allowanceCheck.note}</div>}
+              </div>
+            )}
+            {loadEstimate.carried.length > 0 && <div style={{ fontSize: 12, color: COLORS.textSecondary, marginTop: 8 }}>Not counted (worn or carried on travel day): {[...new Set(loadEstimate.carried)].join(", ")}</div>}
+          </div>
+
+          {liquidsCheck && liquidsCheck.lines.length > 0 && (
+            <div id="liquids-section" style={styles.card}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+                <div style={{ fontSize: 16, fontWeight: 700, display: "flex", alignItems: "center", gap: 8 }}><Droplets size={18} color={COLORS.blue} /> Liquids (3-1-1)</div>
+                <div style={{ fontSize: 14, fontWeight: 600, color: liquidsCheck.fits ? COLORS.primary : COLORS.red }}>{liquidsCheck.bagMl} / {liquidsCheck.capacityMl} ml</div>
+              </div>
+              <div style={{ height: 8, backgroundColor: COLORS.inputBg, borderRadius: 4, overflow: "hidden", marginBottom: 8 }}>
+                <div style={{ height: "100%", width: `${Math.min(100, (liquidsCheck.neededMl / liquidsCheck.capacityMl) * 100)}%`, backgroundColor: liquidsCheck.fits ? COLORS.blue : COLORS.red, transition: "width 0.3s" }} />
+              </div>
+              <div style={{ fontSize: 13, color: liquidsCheck.fits ? COLORS.textSecondary : COLORS.orange, marginBottom: 8 }}>{liquidsCheck.summary}</div>
+              {(["decant", "buy_there", "check", "declare", "bag"] as LiquidAction[]).map(action => {
+                const lines = liquidsCheck.lines.filter(l => l.action === action);
+                if (!lines.length) return null;
+                return (
+                  <div key={action} style={{ fontSize: 13, marginTop: 6 }}>
+                    <span style={{ fontWeight: 600 }}>{LIQUID_ACTION_LABELS[action]}:</span>{" "}
+                    <span style={{ color: COLORS.textSecondary }}>{lines.map(l => `${l.name} (${l.ml} ml${l.form === "aerosol" ? " spray" : ""})`).join(", ")}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div id="outfit-plan-section" style={styles.card}>
+            <div onClick={() => setShowOutfitPlan(!showOutfitPlan)} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", cursor: "pointer" }}>
+              <div style={{ fontSize: 16, fontWeight: 700, display: "flex", alignItems: "center", gap: 8 }}><Shirt size={18} color={COLORS.primary} /> Outfit plan</div>
+              <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <span style={{ fontSize: 12, color: COLORS.textSecondary }}>{outfitPlan.days.some(d => d.source === "forecast") ? "From the forecast" : "From typical weather"}</span>
+                {showOutfitPlan ? <ChevronUp size={20} color={COLORS.textSecondary} /> : <ChevronDown size={20} color={COLORS.textSecondary} />}
+              </div>
+            </div>
+            {showOutfitPlan && (
+              <div style={{ marginTop: 12 }}>
+                {outfitPlan.days.map(d => (
+                  <div key={d.day} style={{ padding: "8px 0", borderTop: `1px solid ${COLORS.border}`, fontSize: 13 }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", gap: 8, fontWeight: 600 }}>
+                      <span>Day {d.day}{d.date ? ` · ${new Date(d.date + "T00:00:00").toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })}` : ""}{profile.legs && profile.legs.length > 1 ? ` · ${d.destination.split(",")[0]}` : ""}</span>
+                      <span style={{ color: COLORS.textSecondary, fontWeight: 500 }}>{WARMTH_LABELS[d.warmth]} {d.weather.minTemp}–{d.weather.maxTemp}°C{d.weather.precipitation >= 30 ? ` · ${d.weather.precipitation}% rain` : ""}</span>
+                    </div>
+                    <div style={{ color: COLORS.textSecondary, marginTop: 2 }}>
+                      {d.activity && <span style={{ color: COLORS.primaryDark, fontWeight: 600 }}>{d.activity === "travel" ? "Travel day" : d.activity}: </span>}
+                      {d.outfit.join(", ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Category / bag view toggle */}
+          <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+            {([["category", "By category", <Package size={16} />], ["bag", "By bag", <Luggage size={16} />]] as const).map(([mode, label, icon]) => (
+              <button key={mode} onClick={() => setViewMode(mode)} className="btn-press" style={{
+                flex: 1, padding: "10px 12px", borderRadius: 12, border: `1px solid ${viewMode === mode ? COLORS.primary : COLORS.border}`,
+                backgroundColor: viewMode === mode ? COLORS.accentLight : "white", color: viewMode === mode ? COLORS.primaryDark : COLORS.textSecondary,
+                fontSize: 14, fontWeight: 600, cursor: "pointer", display: "flex", alignItems: "center", justifyContent: "center", gap: 6
+              }}>{icon} {label}</button>
+            ))}
+          </div>
+
+          {viewMode === "category" && Object.entries(groupedItems).map(([category, items]) => (
             <div key={category} style={styles.card}>
               <div onClick={() => toggleCategory(category)} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", cursor: "pointer", marginBottom: expandedCategories[category] ? 16 : 0 }}>
                 <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
@@ -3012,6 +2914,68 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             </div>
           ))}
 
+          {viewMode === "bag" && (
+            <>
+              <div id="bags-section" style={styles.card}>
+                <div style={{ fontSize: 16, fontWeight: 700, marginBottom: 12, display: "flex", alignItems: "center", gap: 8 }}><Luggage size={18} color={COLORS.primary} /> Bags</div>
+                {visibleBags.map(bag => (
+                  <div key={bag.id} style={{ display: "flex", gap: 8, marginBottom: 8, alignItems: "center" }}>
+                    <input style={{ ...styles.input, flex: 2, padding: "8px 12px", fontSize: 14 }} value={bag.name} onChange={(e) => editBag(bag.id, { name: e.target.value })} />
+                    <select style={{ ...styles.select, flex: 1, padding: "8px 12px", fontSize: 14 }} value={bag.size} onChange={(e) => editBag(bag.id, { size: e.target.value as BagSize })}>
+                      {(Object.keys(BAGS) as BagSize[]).map(b => <option key={b} value={b}>{BAG_NAMES[b]}</option>)}
+                    </select>
+                    {individuals.length > 1 && (
+                      <select style={{ ...styles.select, flex: 1, padding: "8px 12px", fontSize: 14 }} value={bag.owner || ""} onChange={(e) => editBag(bag.id, { owner: e.target.value || undefined })}>
+                        <option value="">Shared</option>
+                        {individuals.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                      </select>
+                    )}
+                    <button onClick={() => removeBag(bag.id)} disabled={packingBags.length <= 1} style={{ background: "none", border: "none", padding: 4, cursor: "pointer", color: COLORS.textSecondary }}><X size={16} /></button>
+                  </div>
+                ))}
+                <button onClick={addBag} className="btn-press" style={{ marginTop: 4, padding: "8px 12px", borderRadius: 10, border: `1px dashed ${COLORS.primary}`, background: "white", color: COLORS.primaryDark, fontSize: 13, fontWeight: 600, cursor: "pointer", display: "flex", alignItems: "center", gap: 6 }}>
+                  <Plus size={14} /> Add bag
+                </button>
+              </div>
+
+              {bagGroups.map(group => {
+                const load = group.bag ? estimateLoad(group.items, group.bag.size) : null;
+                const percent = group.items.length ? Math.round((group.checked / group.items.length) * 100) : 0;
+                return (
+                  <div key={group.id} style={styles.card}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8, gap: 8 }}>
+                      <div>
+                        <div style={{ fontSize: 16, fontWeight: 700 }}>{group.name}</div>
+                        {load && (
+                          <div style={{ fontSize: 12, color: load.fits ? COLORS.textSecondary : COLORS.red }}>
+                            {BAGS[group.bag!.size].label} • {load.weightKg}/{load.capacityKg} kg • {load.volumeL}/{load.capacityL} L
+                          </div>
+                        )}
+                      </div>
+                      <span style={{ fontSize: 12, fontWeight: 600, color: COLORS.textSecondary, backgroundColor: COLORS.inputBg, padding: "4px 8px", borderRadius: 12 }}>{group.checked}/{group.items.length}</span>
+                    </div>
+                    <div style={{ height: 6, backgroundColor: COLORS.inputBg, borderRadius: 3, overflow: "hidden", marginBottom: 12 }}>
+                      <div style={{ height: "100%", width: `${percent}%`, backgroundColor: percent === 100 ? COLORS.primary : COLORS.blue, transition: "width 0.3s" }} />
+                    </div>
+                    {group.items.length === 0 && <div style={{ fontSize: 13, color: COLORS.textSecondary }}>Nothing in this bag yet. Move items here from another bag.</div>}
+                    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                      {group.items.map(item => (
+                        <div key={item.id} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                          <ChecklistItemRow item={item} onToggle={() => toggleItem(item.id)} onRemove={() => removeItem(item.id)} />
+                          <select aria-label={`Bag for ${item.name}`} style={{ ...styles.select, width: 140, flexShrink: 0, padding: "8px 10px", fontSize: 12 }} value={bagOf(item, visibleBags, tabTravelerId)} onChange={(e) => moveItemToBag(item.id, e.target.value)}>
+                            {visibleBags.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                            <option value={WORN_BAG}>Wear on travel day</option>
+                            <option value={NO_BAG}>Not packed</option>
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
           {/* Save Checklist Button */}
           <button onClick={() => openSaveModal()} className="btn-press" style={{
             width: "100%", padding: 16, borderRadius: 16, border: "none",
@@ -3242,8 +3206,9 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
               `${new Date(profile.startDate).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })} - ${new Date(profile.endDate).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}` 
               : ''}</h1>
             <div className="trip-info">
+              {selectedTraveler && <><strong>{selectedTraveler.label}</strong> • </>}
               <strong>{profile.destination}</strong> • {profile.tripDuration} days • {profile.isInternational ? "International" : "Domestic"}
-              {weatherForecast && ` • ${weatherForecast.avgTemp}°C ${weatherForecast.conditions}`}
+              {weatherForecast && ` • ${weatherForecast.avgTemp}°C ${weatherForecast.conditions}${weatherForecast.source === "forecast" ? "" : " (climate averages)"}`}
             </div>
           </div>
           
@@ -3263,6 +3228,23 @@ export default function TravelChecklist({ initialData }: { initialData?: any })
             ))}
           </div>
           
+          <div className="print-columns print-manifest">
+            <div className="print-manifest-title">🧳 Bag manifest</div>
+            {bagGroups.filter(g => g.items.length > 0).map(group => (
+              <div key={group.id} className="print-category">
+                <h2>{group.name}{group.bag ? ` · ${BAGS[group.bag.size].label}` : ""} ({group.checked}/{group.items.length})</h2>
+                <div className="print-items">
+                  {group.items.map((item) => (
+                    <div key={item.id} className="print-item">
+                      <span className={`print-checkbox ${item.checked ? 'checked' : ''}`}></span>
+                      <span>{item.name}{item.quantity && Number(item.quantity) > 1 ? ` (×${item.quantity})` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          
           <div className="print-footer">
             Generated by Smart Travel Checklist • {progress.checked}/{progress.total} items packed
           </div>